@@ -0,0 +1,11 @@
+#!/usr/bin/env node
+// Runs the TypeScript CLI directly. tsx reads the "@/" path alias from this package's tsconfig,
+// which has to be set explicitly because the CLI usually runs from inside the scanned repository.
+// File-scan worker threads find their sources through PROMPT_EXPLORER_HOME for the same reason.
+import { fileURLToPath } from "node:url";
+
+process.env.TSX_TSCONFIG_PATH = fileURLToPath(new URL("../tsconfig.json", import.meta.url));
+process.env.PROMPT_EXPLORER_HOME = fileURLToPath(new URL("..", import.meta.url));
+const { tsImport } = await import("tsx/esm/api");
+const { main } = await tsImport("../src/cli/index.ts", import.meta.url);
+process.exitCode = await main(process.argv.slice(2));
@@ -0,0 +1,52 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { authorizeRequest, enforceRateLimit, jsonResponse } from "@/lib/http";
+import { repoUrlSchema, ScanError } from "@/lib/scanRepository";
+import { diffRefs } from "@/lib/promptDiff";
+import { redactRefDiff } from "@/lib/redact";
+
+const refSchema = z
+  .string()
+  .min(1)
+  .max(200)
+  .refine((ref) => !ref.startsWith("-") && !/\s|\.\.|[~^:?*[\\]/.test(ref), { message: "Invalid git ref" });
+
+const bodySchema = z
+  .object({
+    repoUrl: repoUrlSchema.optional(),
+    localPath: z.string().min(1).optional(),
+    branch: z.string().min(1).max(100).optional().default("main"), // Branch to clone when using repoUrl
+    base: refSchema,
+    head: refSchema,
+    includeUnchanged: z.boolean().optional().default(false),
+    sshKey: z.string().optional(),
+    githubToken: z.string().optional(),
+  })
+  .refine((v) => Boolean(v.repoUrl || v.localPath), {
+    message: "Provide either repoUrl or localPath",
+    path: ["repoUrl"],
+  });
+
+export async function POST(req: NextRequest) {
+  const unauthorized = authorizeRequest(req);
+  if (unauthorized) return unauthorized;
+
+  const limited = enforceRateLimit(req);
+  if (limited) return limited;
+
+  let body: z.infer<typeof bodySchema>;
+  try {
+    body = bodySchema.parse(await req.json());
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Invalid request body";
+    return jsonResponse({ error: "Invalid request body", details: message }, 400);
+  }
+
+  try {
+    return jsonResponse(redactRefDiff(await diffRefs(body, req.signal)));
+  } catch (error: unknown) {
+    const status = error instanceof ScanError ? error.status : 500;
+    const message = error instanceof Error ? error.message : String(error);
+    return jsonResponse({ error: message }, status);
+  }
+}
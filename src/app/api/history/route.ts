@@ -0,0 +1,54 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { promises as fs } from "node:fs";
+import { authorizeRequest, enforceRateLimit, jsonResponse } from "@/lib/http";
+import { getPromptHistory } from "@/lib/promptHistory";
+import { redactPromptHistory } from "@/lib/redact";
+import { withCheckoutLock } from "@/lib/scanRepository";
+
+const bodySchema = z.object({
+  repoPath: z.string().min(1), // repo.path from a scan result
+  filePath: z.string().min(1),
+  line: z.number().int().min(1),
+  endLine: z.number().int().min(1).optional(),
+  text: z.string().optional(),
+  maxCommits: z.number().int().min(1).max(500).optional().default(50),
+  deepen: z.union([z.boolean(), z.number().int().min(1)]).optional().default(false),
+});
+
+export async function POST(req: NextRequest) {
+  const unauthorized = authorizeRequest(req);
+  if (unauthorized) return unauthorized;
+
+  const limited = enforceRateLimit(req);
+  if (limited) return limited;
+
+  let body: z.infer<typeof bodySchema>;
+  try {
+    body = bodySchema.parse(await req.json());
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Invalid request body";
+    return jsonResponse({ error: "Invalid request body", details: message }, 400);
+  }
+
+  try {
+    if (!(await fs.stat(body.repoPath)).isDirectory()) {
+      return jsonResponse({ error: "repoPath must be a directory" }, 400);
+    }
+  } catch {
+    return jsonResponse({ error: "repoPath does not exist" }, 404);
+  }
+
+  try {
+    // Deepening fetches into the clone, so wait for scans of the same working copy
+    const history = await withCheckoutLock(
+      { localPath: body.repoPath },
+      () => getPromptHistory({ ...body, repoDir: body.repoPath, signal: req.signal }),
+      req.signal
+    );
+    return jsonResponse({ ok: true, history: redactPromptHistory(history) });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    return jsonResponse({ error: `Failed to read history: ${message}` }, 400);
+  }
+}
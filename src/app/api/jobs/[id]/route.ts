@@ -0,0 +1,56 @@
+import { NextRequest } from "next/server";
+import { authorizeRequest, authorizeSecretReveal, jsonResponse } from "@/lib/http";
+import { cancelJob, getJob, getJobEvents } from "@/lib/jobs";
+import { getScan } from "@/lib/scanStore";
+import { getOrgInventory } from "@/lib/orgStore";
+import { redactOrgInventory, redactScanEvent, redactScanResult } from "@/lib/redact";
+import { firstPages } from "@/lib/findingPages";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Status and progress of a job. While a scan job runs, `?after=<n>` also returns the scan events after the
+// n-th (pass back `nextEvent`); once it succeeded the stored scan or organisation inventory comes along as `result`.
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const unauthorized = authorizeRequest(req);
+  if (unauthorized) return unauthorized;
+
+  const { id } = await params;
+  const job = await getJob(id);
+  if (!job) return jsonResponse({ error: "Job not found" }, 404);
+
+  const reveal = req.nextUrl.searchParams.get("reveal") === "true";
+  if (reveal) {
+    const forbidden = authorizeSecretReveal(req);
+    if (forbidden) return forbidden;
+  }
+  const afterParam = req.nextUrl.searchParams.get("after");
+  const after = afterParam === null ? null : Math.max(Number.parseInt(afterParam, 10) || 0, 0);
+  const events = after === null ? null : getJobEvents(job.id, after);
+
+  let result: unknown = null;
+  if (job.status === "succeeded" && job.result?.scanId) {
+    const scan = await getScan(job.result.scanId);
+    result = scan && { ...firstPages(redactScanResult(scan.result, { reveal })), scanId: scan.id };
+  } else if (job.status === "succeeded" && job.result?.orgId) {
+    const inventory = await getOrgInventory(job.result.orgId);
+    result = inventory && redactOrgInventory(inventory);
+  }
+  return jsonResponse({
+    ok: true,
+    job,
+    ...(events && { events: events.events.map((e) => redactScanEvent(e, { reveal, known: events.secretValues })), nextEvent: events.next }),
+    result,
+  });
+}
+
+// Cancels a queued or running job
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  const unauthorized = authorizeRequest(req);
+  if (unauthorized) return unauthorized;
+
+  const { id } = await params;
+  const job = await getJob(id);
+  if (!job) return jsonResponse({ error: "Job not found" }, 404);
+  if (job.status !== "queued" && job.status !== "running") return jsonResponse({ error: `Job already ${job.status}` }, 409);
+  return jsonResponse({ ok: true, job: await cancelJob(id) });
+}
@@ -0,0 +1,13 @@
+import { NextRequest } from "next/server";
+import { authorizeRequest, jsonResponse } from "@/lib/http";
+import { listJobs } from "@/lib/jobs";
+
+// Recent jobs, newest first, without their results
+export async function GET(req: NextRequest) {
+  const unauthorized = authorizeRequest(req);
+  if (unauthorized) return unauthorized;
+
+  const limit = Number.parseInt(req.nextUrl.searchParams.get("limit") ?? "", 10);
+  const jobs = await listJobs(Number.isInteger(limit) && limit > 0 ? Math.min(limit, 200) : undefined);
+  return jsonResponse({ ok: true, jobs });
+}
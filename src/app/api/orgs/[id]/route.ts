@@ -0,0 +1,29 @@
+import { NextRequest } from "next/server";
+import { authorizeRequest, jsonResponse } from "@/lib/http";
+import { deleteOrg, getOrg, getOrgInventory } from "@/lib/orgStore";
+import { redactOrgInventory } from "@/lib/redact";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Registration plus the latest inventory (null until the first scan)
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const unauthorized = authorizeRequest(req);
+  if (unauthorized) return unauthorized;
+
+  const { id } = await params;
+  const org = await getOrg(id);
+  if (!org) return jsonResponse({ error: "Organisation not found" }, 404);
+  const inventory = await getOrgInventory(id);
+  return jsonResponse({ ok: true, org, inventory: inventory && redactOrgInventory(inventory) });
+}
+
+// Removes the registration and its inventory; the repositories' own scans stay in scan history
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  const unauthorized = authorizeRequest(req);
+  if (unauthorized) return unauthorized;
+
+  const { id } = await params;
+  const removed = await deleteOrg(id);
+  if (!removed) return jsonResponse({ error: "Organisation not found" }, 404);
+  return jsonResponse({ ok: true, id });
+}
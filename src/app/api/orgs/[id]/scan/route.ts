@@ -0,0 +1,69 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { authorizeRequest, enforceRateLimit, jsonResponse } from "@/lib/http";
+import { DEFAULT_ORG_CONCURRENCY, MAX_ORG_CONCURRENCY, runOrgScan } from "@/lib/orgScan";
+import { getOrg, saveOrgInventory } from "@/lib/orgStore";
+import { submitJob } from "@/lib/jobs";
+import type { JobProgress } from "@/lib/jobStore";
+import { ScanError } from "@/lib/scanRepository";
+import { redactOrgInventory } from "@/lib/redact";
+import { TOKENIZERS } from "@/lib/tokenCount";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const bodySchema = z.object({
+  branch: z.string().min(1).max(100).optional().default("main"), // For registered repositories without their own
+  concurrency: z.number().int().min(1).max(MAX_ORG_CONCURRENCY).optional().default(DEFAULT_ORG_CONCURRENCY),
+  sshKey: z.string().optional(),
+  githubToken: z.string().optional(), // Clones private repositories and lists them through the github host
+  tokenizers: z.array(z.enum(TOKENIZERS)).min(1).max(TOKENIZERS.length).optional(),
+  async: z.boolean().optional().default(false), // Queue as a background job and return its id; poll GET /api/jobs/<id>
+});
+
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  const unauthorized = authorizeRequest(req);
+  if (unauthorized) return unauthorized;
+
+  const limited = enforceRateLimit(req);
+  if (limited) return limited;
+
+  const { id } = await params;
+  const org = await getOrg(id);
+  if (!org) return jsonResponse({ error: "Organisation not found" }, 404);
+
+  let body: z.infer<typeof bodySchema>;
+  try {
+    body = bodySchema.parse(await req.json().catch(() => ({})));
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Invalid request body";
+    return jsonResponse({ error: "Invalid request body", details: message }, 400);
+  }
+
+  const { async: inBackground, ...options } = body;
+  if (inBackground) {
+    const job = await submitJob("orgScan", org.name, async ({ signal, progress }) => {
+      const repos: NonNullable<JobProgress["repos"]> = {};
+      const inventory = await runOrgScan(org, options, {
+        signal,
+        onEvent: (event) => {
+          if (event.type === "repos") for (const r of event.repositories) repos[r.name] = { status: "queued" };
+          else repos[event.name] = { status: event.status, detail: event.detail };
+          progress({ repos: { ...repos } });
+        },
+      });
+      await saveOrgInventory(inventory);
+      return { orgId: org.id };
+    });
+    return jsonResponse({ ok: true, jobId: job.id, job }, 202, { location: `/api/jobs/${job.id}` });
+  }
+
+  try {
+    const inventory = await runOrgScan(org, options, { signal: req.signal });
+    await saveOrgInventory(inventory);
+    return jsonResponse({ ok: true, inventory: redactOrgInventory(inventory) });
+  } catch (error: unknown) {
+    const status = error instanceof ScanError ? error.status : 500;
+    const message = error instanceof Error ? error.message : String(error);
+    return jsonResponse({ error: message }, status);
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { authorizeRequest, enforceRateLimit, jsonResponse } from "@/lib/http";
+import { repoUrlSchema } from "@/lib/scanRepository";
+import { REPO_HOSTS } from "@/lib/repoHosts";
+import { listOrgs, registerOrg } from "@/lib/orgStore";
+
+const MAX_REPOSITORIES = 200;
+
+const bodySchema = z
+  .object({
+    name: z.string().trim().min(1).max(100),
+    repositories: z
+      .array(
+        z
+          .object({
+            name: z.string().min(1).max(100).optional(),
+            repoUrl: repoUrlSchema.optional(),
+            localPath: z.string().min(1).optional(),
+            branch: z.string().min(1).max(100).optional(), // Defaults to the scan's branch
+          })
+          .refine((r) => Boolean(r.repoUrl || r.localPath), { message: "Provide either repoUrl or localPath" })
+      )
+      .max(MAX_REPOSITORIES)
+      .optional()
+      .default([]),
+    source: z
+      .object({
+        host: z.enum(REPO_HOSTS),
+        org: z.string().regex(/^[\w.-]{1,100}$/, { message: "org must be an organisation or user name" }),
+        includeForks: z.boolean().optional(),
+        includeArchived: z.boolean().optional(),
+        limit: z.number().int().min(1).max(MAX_REPOSITORIES).optional(),
+      })
+      .optional(), // Enumerated through the host on every scan
+  })
+  .refine((v) => v.repositories.length > 0 || Boolean(v.source), {
+    message: "Provide repositories or a host source",
+    path: ["repositories"],
+  });
+
+export async function GET(req: NextRequest) {
+  const unauthorized = authorizeRequest(req);
+  if (unauthorized) return unauthorized;
+
+  return jsonResponse({ ok: true, orgs: await listOrgs() });
+}
+
+export async function POST(req: NextRequest) {
+  const unauthorized = authorizeRequest(req);
+  if (unauthorized) return unauthorized;
+
+  const limited = enforceRateLimit(req);
+  if (limited) return limited;
+
+  let body: z.infer<typeof bodySchema>;
+  try {
+    body = bodySchema.parse(await req.json());
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Invalid request body";
+    return jsonResponse({ error: "Invalid request body", details: message }, 400);
+  }
+  const org = await registerOrg({ name: body.name, repositories: body.repositories, source: body.source ?? null });
+  return jsonResponse({ ok: true, org }, 201);
+}
@@ -0,0 +1,68 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { authorizeRequest, enforceRateLimit, jsonResponse } from "@/lib/http";
+import { MODEL_PROVIDERS } from "@/lib/modelProvider";
+import { runPrompt } from "@/lib/promptRuns";
+import { getScan, isValidScanId, listRuns, saveRuns } from "@/lib/scanStore";
+import { redactPromptRun } from "@/lib/redact";
+
+const MAX_PROMPT_CHARS = 100_000;
+
+const bodySchema = z
+  .object({
+    scanId: z.string().refine(isValidScanId, { message: "Invalid scan id" }).optional(), // Records the runs with this scan
+    prompt: z
+      .object({ filePath: z.string().min(1), line: z.number().int().min(1), role: z.string().max(20) })
+      .optional(), // The extracted prompt the run started from
+    label: z.string().max(100).optional(),
+    system: z.string().max(MAX_PROMPT_CHARS).optional().default(""),
+    user: z.string().max(MAX_PROMPT_CHARS).optional().default(""),
+    variables: z.record(z.string().max(200), z.string().max(MAX_PROMPT_CHARS)).optional().default({}),
+    targets: z
+      .array(
+        z.object({
+          provider: z.enum(MODEL_PROVIDERS).optional(), // An unconfigured one (mock always is) yields a run whose error is "not_configured"
+          model: z.string().min(1).max(100).optional(),
+        })
+      )
+      .min(1)
+      .max(4)
+      .optional()
+      .default([{}]), // Server default provider and model
+    temperature: z.number().min(0).max(2).optional(),
+    maxTokens: z.number().int().min(1).max(8192).optional(),
+  })
+  .refine((v) => Boolean(v.system.trim() || v.user.trim()), { message: "Provide a system or user prompt", path: ["user"] });
+
+export async function POST(req: NextRequest) {
+  const unauthorized = authorizeRequest(req);
+  if (unauthorized) return unauthorized;
+
+  const limited = enforceRateLimit(req);
+  if (limited) return limited;
+
+  let body: z.infer<typeof bodySchema>;
+  try {
+    body = bodySchema.parse(await req.json());
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Invalid request body";
+    return jsonResponse({ error: "Invalid request body", details: message }, 400);
+  }
+  if (body.scanId && !(await getScan(body.scanId))) return jsonResponse({ error: "Scan not found" }, 404);
+
+  // A user message is required by every provider; a lone system prompt is sent as the user turn
+  const request = body.user.trim() ? body : { ...body, system: "", user: body.system };
+  const runs = await runPrompt(request, req.signal);
+  if (body.scanId) await saveRuns(body.scanId, runs);
+  return jsonResponse({ ok: true, runs: runs.map(redactPromptRun) });
+}
+
+export async function GET(req: NextRequest) {
+  const unauthorized = authorizeRequest(req);
+  if (unauthorized) return unauthorized;
+
+  const scanId = req.nextUrl.searchParams.get("scanId");
+  if (!scanId || !isValidScanId(scanId)) return jsonResponse({ error: "scanId is required" }, 400);
+  const runs = await listRuns(scanId);
+  return jsonResponse({ ok: true, runs: runs.map(redactPromptRun) });
+}
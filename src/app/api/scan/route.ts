@@ -1,131 +1,61 @@
 import { NextRequest } from "next/server";
 import { z } from "zod";
-import { requireJwtFromRequest } from "@/lib/auth";
-import { checkRateLimit } from "@/lib/rateLimit";
-import { cloneOrPullRepo } from "@/lib/github";
-import { extractPythonPrompts } from "@/lib/extract/pythonExtractor";
-import { scanTextForSecrets, type SecretFinding } from "@/lib/secretsScan";
-import { scanTextForPromptKeywords, type PromptKeywordHit } from "@/lib/promptKeywordScan";
-import { analyzePromptContext } from "@/lib/analyzePrompts";
-import { join } from "node:path";
-import { promises as fs, existsSync } from "node:fs";
-import type { Dirent } from "node:fs";
+import { authorizeRequest, authorizeSecretReveal, enforceRateLimit, jsonResponse } from "@/lib/http";
+import { repoUrlSchema, runScan, ScanError, type ScanEvent, type ScanResult } from "@/lib/scanRepository";
+import { saveScan } from "@/lib/scanStore";
+import { submitJob } from "@/lib/jobs";
+import { SARIF_CONTENT_TYPE, toSarif } from "@/lib/sarif";
+import { createScanEventRedactor, redactScanResult } from "@/lib/redact";
+import { DEFAULT_PAGE_SIZE, firstPages, MAX_PAGE_SIZE } from "@/lib/findingPages";
+import { MODEL_PROVIDERS } from "@/lib/modelProvider";
+import { TOKENIZERS } from "@/lib/tokenCount";
 
 const bodySchema = z
   .object({
-    repoUrl: z
-      .string()
-      .min(1)
-      .refine(
-        (url) => /^(https:\/\/|git@).+\.(git)?/.test(url) || /^(https:\/\/github\.com\/)\[\w.-]+\/\[\w.-]+(\.git)?$/.test(url),
-        { message: "repoUrl must be a valid Git URL or GitHub HTTPS URL" }
-      )
-      .optional(),
+    repoUrl: repoUrlSchema.optional(),
     localPath: z.string().min(1).optional(),
     branch: z.string().min(1).max(100).optional().default("main"),
     useModel: z.boolean().optional().default(false),
+    model: z
+      .object({
+        provider: z.enum(MODEL_PROVIDERS).optional(), // An unconfigured one (mock always is) fails only the analysis, reported as analysisError "not_configured"
+        model: z.string().min(1).max(100).optional(),
+      })
+      .optional(),
     sshKey: z.string().optional(), // SSH private key for private repositories
     githubToken: z.string().optional(), // GitHub personal access token for HTTPS auth
+    stream: z.boolean().optional().default(false), // Stream progress as Server-Sent Events
+    async: z.boolean().optional().default(false), // Queue as a background job and return its id; poll GET /api/jobs/<id>
+    fullHistory: z.boolean().optional().default(false), // Keep full git history for prompt timelines
+    useCache: z.boolean().optional().default(true), // Reuse results for files unchanged since the last scan of this repository
+    secretHistory: z
+      .object({
+        depth: z.number().int().min(1).max(10000).optional(), // Commits to walk (default 500)
+        since: z
+          .string()
+          .max(64)
+          .refine((v) => !Number.isNaN(Date.parse(v)), { message: "since must be a date" })
+          .optional(),
+      })
+      .optional(), // Scan added lines in past commits for secrets
+    tokenizers: z.array(z.enum(TOKENIZERS)).min(1).max(TOKENIZERS.length).optional(), // First one drives token totals
+    format: z.enum(["json", "sarif"]).optional().default("json"), // Response body format (non-streaming only)
+    pageSize: z.number().int().min(1).max(MAX_PAGE_SIZE).optional(), // Keywords, secrets and skipped files per response (default 200)
+    revealSecrets: z.boolean().optional().default(false), // Return raw secret values (needs server opt-in and a granting JWT)
   })
   .refine((v) => Boolean(v.repoUrl || v.localPath), {
     message: "Provide either repoUrl or localPath",
     path: ["repoUrl"],
   });
 
-function getClientIp(req: NextRequest): string {
-  const xff = req.headers.get("x-forwarded-for");
-  if (xff) return xff.split(",")[0]?.trim() || "unknown";
-  const realIp = req.headers.get("x-real-ip");
-  if (realIp) return realIp;
-  return "local";
-}
-
-async function listAllFiles(root: string, maxFiles = 2000): Promise<string[]> {
-  const out: string[] = [];
-  const ignore = new Set([".git", "node_modules", "__pycache__", ".next", ".venv", "venv", ".tmp-extractor", "prisma"]);
-  async function walk(dir: string) {
-    const entries = await fs.readdir(dir, { withFileTypes: true });
-    for (const entry of entries) {
-      if (out.length >= maxFiles) return;
-      if (ignore.has(entry.name)) continue;
-      const p = join(dir, entry.name);
-      if (entry.isDirectory()) {
-        await walk(p);
-      } else if (entry.isFile()) {
-        out.push(p);
-      }
-    }
-  }
-  await walk(root);
-  return out;
-}
-
-type FileTreeNode = {
-  name: string;
-  path: string;
-  type: "dir" | "file";
-  children?: FileTreeNode[];
-};
-
-async function buildFileTree(root: string, options?: { maxDepth?: number; maxNodes?: number }): Promise<FileTreeNode> {
-  const ignoreNames = new Set([".git", "node_modules", "__pycache__", ".next", ".venv", "venv", ".tmp-extractor", "prisma"]);
-  const maxDepth = options?.maxDepth ?? 8;
-  const maxNodes = options?.maxNodes ?? 5000;
-  let nodeCount = 0;
-
-  async function walk(dirPath: string, depth: number): Promise<FileTreeNode> {
-    const node: FileTreeNode = { name: dirPath.split("/").pop() || dirPath, path: dirPath, type: "dir", children: [] };
-    if (depth > maxDepth || nodeCount >= maxNodes) return node;
-    let entries: Dirent[];
-    try {
-      entries = (await fs.readdir(dirPath, { withFileTypes: true })) as unknown as Dirent[];
-    } catch {
-      return node;
-    }
-    entries.sort((a, b) => a.name.localeCompare(b.name));
-    for (const entry of entries) {
-      if (nodeCount >= maxNodes) break;
-      if (ignoreNames.has(entry.name)) continue;
-      const childPath = join(dirPath, entry.name);
-      if (childPath.toLowerCase().includes("prisma")) continue;
-      if (entry.isDirectory()) {
-        node.children?.push(await walk(childPath, depth + 1));
-        nodeCount += 1;
-      } else if (entry.isFile()) {
-        node.children?.push({ name: entry.name, path: childPath, type: "file" });
-        nodeCount += 1;
-      }
-    }
-    return node;
-  }
-
-  return walk(root, 1);
-}
-
 export async function POST(req: NextRequest) {
   // Require JWT
-  try {
-    requireJwtFromRequest(req as unknown as Request);
-  } catch (error: unknown) {
-    const message = error instanceof Error ? error.message : "Unauthorized";
-    return new Response(JSON.stringify({ error: message }), {
-      status: 401,
-      headers: { "content-type": "application/json" },
-    });
-  }
+  const unauthorized = authorizeRequest(req);
+  if (unauthorized) return unauthorized;
 
   // Rate limit
-  const ip = getClientIp(req);
-  const rate = checkRateLimit(ip);
-  if (!rate.ok) {
-    return new Response(JSON.stringify({ error: "Rate limit exceeded" }), {
-      status: 429,
-      headers: {
-        "content-type": "application/json",
-        "retry-after": String(rate.retryAfterSeconds),
-      },
-    });
-  }
+  const limited = enforceRateLimit(req);
+  if (limited) return limited;
 
   // Validate input
   let body: z.infer<typeof bodySchema>;
@@ -140,118 +70,124 @@ export async function POST(req: NextRequest) {
     });
   }
 
-  // Determine target directory: localPath (if provided) or clone repo
-  let targetDir: string;
-  if (body.localPath) {
-    targetDir = body.localPath;
-    try {
-      const stat = await fs.stat(targetDir);
-      if (!stat.isDirectory()) {
-        return new Response(JSON.stringify({ error: "localPath must be a directory" }), {
-          status: 400,
-          headers: { "content-type": "application/json" },
-        });
-      }
-    } catch {
-      return new Response(JSON.stringify({ error: "localPath does not exist" }), {
-        status: 400,
-        headers: { "content-type": "application/json" },
-      });
-    }
-  } else if (body.repoUrl) {
-    const reposBase = join(process.cwd(), ".data", "repos");
-    const repoName = body.repoUrl.split("/").pop()?.replace(/\.git$/, "") || "repo";
-    targetDir = join(reposBase, repoName);
-    try {
-      await fs.mkdir(reposBase, { recursive: true });
-    } catch {}
-    try {
-      await cloneOrPullRepo({ 
-        repoUrl: body.repoUrl, 
-        destDir: reposBase, 
-        branch: body.branch,
-        sshKey: body.sshKey,
-        githubToken: body.githubToken
-      });
-    } catch (error: unknown) {
-      const message = error instanceof Error ? error.message : String(error);
-      return new Response(JSON.stringify({ error: `Failed to clone/pull repo: ${message}` }), {
-        status: 400,
-        headers: { "content-type": "application/json" },
-      });
+  const { stream, format, revealSecrets, pageSize = DEFAULT_PAGE_SIZE, async: inBackground, ...scanRequest } = body;
+  if (inBackground) {
+    // A job only runs the scan; these options shape a response, so they go on the requests that read the results
+    const responseOptions = [
+      body.revealSecrets && "revealSecrets (pass ?reveal=true to GET /api/jobs/<id>)",
+      body.format === "sarif" && "format (use GET /api/scans/<scanId>?format=sarif)",
+      body.stream && "stream (poll GET /api/jobs/<id>?after=<n> for events)",
+      body.pageSize !== undefined && "pageSize (page with GET /api/scans/<scanId>?findings=<list>&limit=<n>)",
+    ].filter(Boolean);
+    if (responseOptions.length > 0) {
+      return jsonResponse({ error: "Invalid request body", details: `async scans do not take ${responseOptions.join(", ")}` }, 400);
     }
-    if (!existsSync(targetDir)) {
-      return new Response(JSON.stringify({ error: "Repository target path not found after clone" }), {
-        status: 500,
-        headers: { "content-type": "application/json" },
-      });
-    }
-  } else {
-    return new Response(JSON.stringify({ error: "Provide repoUrl or localPath" }), {
-      status: 400,
-      headers: { "content-type": "application/json" },
-    });
+    return enqueueScan(scanRequest);
   }
-
-  // Extract prompts (Python first)
-  let pythonPrompts = [] as Awaited<ReturnType<typeof extractPythonPrompts>>;
-  try {
-    pythonPrompts = await extractPythonPrompts(targetDir);
-  } catch {
-    // Continue; return empty extraction on failure
-    pythonPrompts = [];
+  if (revealSecrets) {
+    const forbidden = authorizeSecretReveal(req);
+    if (forbidden) return forbidden;
   }
+  const reveal = { reveal: revealSecrets };
+  const accept = req.headers.get("accept") || "";
+  const wantsStream = stream || accept.includes("text/event-stream");
+  if (wantsStream) {
+    return streamScan(req, scanRequest, reveal, pageSize);
+  }
+  const wantsSarif = format === "sarif" || accept.includes(SARIF_CONTENT_TYPE);
 
-  // Scan for obvious secrets across files and keyword prompt indicators
-  const secretFindings: SecretFinding[] = [];
-  const promptKeywordHits: PromptKeywordHit[] = [];
   try {
-    const files = await listAllFiles(targetDir, 3000);
-    for (const file of files) {
-      if (file.toLowerCase().includes("prisma")) continue;
-      try {
-        const stat = await fs.stat(file);
-        if (stat.size > 1024 * 1024) continue; // skip files >1MB
-        const content = await fs.readFile(file, "utf8");
-        const findings = scanTextForSecrets(content, file);
-        if (findings.length) secretFindings.push(...findings.slice(0, 5)); // cap per-file for response brevity
-        const promptHits = scanTextForPromptKeywords(content, file);
-        if (promptHits.length) promptKeywordHits.push(...promptHits.slice(0, 10));
-        if (secretFindings.length > 200) break; // cap overall
-      } catch {}
+    const result = await persistScan(await runScan(scanRequest, { signal: req.signal }));
+    if (wantsSarif) {
+      const headers: Record<string, string> = { "content-type": SARIF_CONTENT_TYPE };
+      if (result.scanId) headers["x-scan-id"] = result.scanId;
+      return new Response(JSON.stringify(toSarif(result)), { status: 200, headers });
     }
-  } catch {}
-
-  // Optional model-based end analysis using combined context
-  let modelAnalysis = null as Awaited<ReturnType<typeof analyzePromptContext>> | null;
-  if (body.useModel) {
-    try {
-      modelAnalysis = await analyzePromptContext({
-        hits: promptKeywordHits,
-        python: pythonPrompts,
-        fileTree: await buildFileTree(targetDir, { maxDepth: 4, maxNodes: 1200 }),
-      });
-    } catch {}
+    return new Response(JSON.stringify(firstPages(redactScanResult(result, reveal), pageSize)), {
+      status: 200,
+      headers: { "content-type": "application/json" },
+    });
+  } catch (error: unknown) {
+    const status = error instanceof ScanError ? error.status : 500;
+    const message = error instanceof Error ? error.message : String(error);
+    return new Response(JSON.stringify({ error: message }), {
+      status,
+      headers: { "content-type": "application/json" },
+    });
   }
+}
 
-  // Build file tree (lightweight, ignores large/system directories)
-  let fileTree: FileTreeNode | null = null;
+// Background variant: the job stores the scan in history and the job record points at it. Raw secrets are
+// never part of a job; GET /api/jobs/<id>?reveal=true applies the same checks as the scans endpoint.
+async function enqueueScan(scanRequest: Parameters<typeof runScan>[0]): Promise<Response> {
+  const job = await submitJob("scan", scanRequest.repoUrl ?? scanRequest.localPath ?? "repository", async ({ signal, event }) => {
+    const stored = await saveScan(await runScan(scanRequest, { signal, onEvent: event }));
+    return { scanId: stored.id };
+  });
+  return jsonResponse({ ok: true, jobId: job.id, job }, 202, { location: `/api/jobs/${job.id}` });
+}
+
+// Stores the scan in history (raw values stay on disk next to the clone; reads are redacted);
+// a storage failure should not cost the caller their results
+async function persistScan(result: ScanResult): Promise<ScanResult> {
   try {
-    fileTree = await buildFileTree(targetDir, { maxDepth: 8, maxNodes: 5000 });
+    const stored = await saveScan(result);
+    return { ...result, scanId: stored.id };
   } catch {
-    fileTree = null;
+    return result;
   }
-
-  return new Response(
-    JSON.stringify({
-      ok: true,
-      repo: { url: body.repoUrl ?? null, branch: body.branch, path: targetDir },
-      extracted: { python: pythonPrompts },
-      secrets: secretFindings,
-      prompts: { keywords: promptKeywordHits, analysis: modelAnalysis },
-      fileTree,
-    }),
-    { status: 200, headers: { "content-type": "application/json" } }
-  );
 }
 
+// SSE variant: phase/progress/partial events as the scan runs, then a final "result" (or "error") event.
+// Closing the connection aborts the server-side work (git, the Python extractor and the model call).
+function streamScan(
+  req: NextRequest,
+  scanRequest: Parameters<typeof runScan>[0],
+  reveal: { reveal: boolean },
+  pageSize: number
+): Response {
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  req.signal.addEventListener("abort", abort);
+  const encoder = new TextEncoder();
+  const redactEvent = createScanEventRedactor(reveal);
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(stream) {
+      const send = (event: string, data: unknown) => {
+        if (controller.signal.aborted) return;
+        stream.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+      try {
+        const result = await runScan(scanRequest, {
+          signal: controller.signal,
+          onEvent: (event: ScanEvent) => send(event.type, redactEvent(event)),
+        });
+        send("result", firstPages(redactScanResult(await persistScan(result), reveal), pageSize));
+      } catch (error: unknown) {
+        if (!controller.signal.aborted) {
+          const status = error instanceof ScanError ? error.status : 500;
+          const message = error instanceof Error ? error.message : String(error);
+          send("error", { error: message, status });
+        }
+      } finally {
+        req.signal.removeEventListener("abort", abort);
+        try {
+          stream.close();
+        } catch {}
+      }
+    },
+    cancel() {
+      controller.abort();
+    },
+  });
+
+  return new Response(body, {
+    status: 200,
+    headers: {
+      "content-type": "text/event-stream",
+      "cache-control": "no-cache, no-transform",
+      connection: "keep-alive",
+    },
+  });
+}
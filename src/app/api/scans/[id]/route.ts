@@ -0,0 +1,60 @@
+import { NextRequest } from "next/server";
+import { authorizeRequest, authorizeSecretReveal, jsonResponse } from "@/lib/http";
+import { deleteScan, getScan } from "@/lib/scanStore";
+import { SARIF_CONTENT_TYPE, toSarif } from "@/lib/sarif";
+import { redactScanResult } from "@/lib/redact";
+import { DEFAULT_PAGE_SIZE, FINDING_KINDS, findingsPage, firstPages, MAX_PAGE_SIZE, type FindingKind } from "@/lib/findingPages";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const unauthorized = authorizeRequest(req);
+  if (unauthorized) return unauthorized;
+
+  const { id } = await params;
+  const scan = await getScan(id);
+  if (!scan) return jsonResponse({ error: "Scan not found" }, 404);
+  const format = req.nextUrl.searchParams.get("format");
+  if (format === "sarif" || (req.headers.get("accept") || "").includes(SARIF_CONTENT_TYPE)) {
+    return new Response(JSON.stringify(toSarif(scan.result)), {
+      status: 200,
+      headers: {
+        "content-type": SARIF_CONTENT_TYPE,
+        "content-disposition": `attachment; filename="prompt-explorer-${scan.id.slice(0, 12)}.sarif"`,
+      },
+    });
+  }
+  // Prompt flow graph alone (nodes/edges); it carries names and locations, no prompt text
+  if (format === "graph") return jsonResponse({ ok: true, id: scan.id, graph: scan.result.prompts.graph ?? null });
+  const reveal = req.nextUrl.searchParams.get("reveal") === "true";
+  if (reveal) {
+    const forbidden = authorizeSecretReveal(req);
+    if (forbidden) return forbidden;
+  }
+  const findings = req.nextUrl.searchParams.get("findings");
+  if (findings !== null) {
+    // One page of keywords, secrets or skipped files: `pages` in scan responses says where the next one starts
+    if (!FINDING_KINDS.includes(findings as FindingKind)) {
+      return jsonResponse({ error: "Invalid query", details: `findings must be one of ${FINDING_KINDS.join(", ")}` }, 400);
+    }
+    const offset = Number.parseInt(req.nextUrl.searchParams.get("offset") ?? "0", 10);
+    const limit = Number.parseInt(req.nextUrl.searchParams.get("limit") ?? String(DEFAULT_PAGE_SIZE), 10);
+    if (!Number.isInteger(offset) || offset < 0 || !Number.isInteger(limit) || limit < 1) {
+      return jsonResponse({ error: "Invalid query", details: "offset and limit must be non-negative integers, limit at least 1" }, 400);
+    }
+    const redacted = redactScanResult(scan.result, { reveal });
+    const { items, page } = findingsPage(redacted, findings as FindingKind, offset, Math.min(limit, MAX_PAGE_SIZE));
+    return jsonResponse({ ok: true, id: scan.id, kind: findings, items, page });
+  }
+  return jsonResponse({ ok: true, scan: { ...scan, result: firstPages(redactScanResult(scan.result, { reveal })) } });
+}
+
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  const unauthorized = authorizeRequest(req);
+  if (unauthorized) return unauthorized;
+
+  const { id } = await params;
+  const removed = await deleteScan(id);
+  if (!removed) return jsonResponse({ error: "Scan not found" }, 404);
+  return jsonResponse({ ok: true, id });
+}
@@ -0,0 +1,13 @@
+import { NextRequest } from "next/server";
+import { authorizeRequest, jsonResponse } from "@/lib/http";
+import { listScans } from "@/lib/scanStore";
+
+export async function GET(req: NextRequest) {
+  const unauthorized = authorizeRequest(req);
+  if (unauthorized) return unauthorized;
+
+  const repo = req.nextUrl.searchParams.get("repo") || undefined;
+  const branch = req.nextUrl.searchParams.get("branch") || undefined;
+  const scans = await listScans({ repo, branch });
+  return jsonResponse({ ok: true, scans });
+}
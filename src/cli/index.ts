@@ -0,0 +1,203 @@
+import { parseArgs } from "node:util";
+import { promises as fs } from "node:fs";
+import { tmpdir } from "node:os";
+import { join, resolve } from "node:path";
+import { randomUUID } from "node:crypto";
+import { checkoutRef, removeWorktree } from "@/lib/github";
+import { toDiffPrompts, type DiffPrompt } from "@/lib/promptDiff";
+import { extractPrompts, runScan, type ScanEvent, type ScanResult } from "@/lib/scanRepository";
+import { evaluatePolicy, formatMarkdownReport, POLICY_CHECKS, type PolicyCheck } from "@/lib/scanReport";
+import { toSarif } from "@/lib/sarif";
+import { redactScanResult } from "@/lib/redact";
+import { MODEL_PROVIDERS, type ModelProviderId } from "@/lib/modelProvider";
+import { TOKENIZERS, type TokenizerId } from "@/lib/tokenCount";
+
+const FORMATS = ["json", "sarif", "markdown"] as const;
+type OutputFormat = (typeof FORMATS)[number];
+
+// Exit codes: 0 = clean, 1 = policy violation, 2 = usage or runtime error
+const EXIT_OK = 0;
+const EXIT_POLICY = 1;
+const EXIT_ERROR = 2;
+
+const USAGE = `Usage: prompt-explorer [path] [options]
+
+Scans a local checkout for LLM prompts, prompt keywords and potential secrets.
+
+Options:
+  -f, --format <json|sarif|markdown>  Output format (default: json)
+  -o, --output <file>                 Write the report to a file instead of stdout
+      --fail-on <check>               Exit 1 on violations: secrets, history-secrets, new-prompts, lint
+                                      (repeatable or comma-separated)
+      --baseline <file>               JSON report from an earlier run to compare prompts against
+      --base <ref>                    Git ref to compare prompts against (alternative to --baseline)
+      --history-depth <n>             Also scan lines added in the last n commits for secrets
+      --history-since <date>          Also scan lines added in commits since the date for secrets
+      --model                         Run model analysis with the provider configured in the environment
+      --provider <id>                 Model provider: openai, anthropic, azure or mock (implies --model)
+      --model-name <name>             Model (or Azure deployment) to use (implies --model)
+      --tokenizer <id>                Tokenizers to count prompt tokens with: o200k, cl100k, chars
+                                      (comma-separated; the first drives totals and costs)
+      --reveal-secrets                Include raw secret values in JSON output (masked by default)
+      --cache                         Reuse results for unchanged files from the last cached run
+                                      (kept in .data/cache under the working directory)
+  -q, --quiet                         Do not print progress to stderr
+  -h, --help                          Show this help
+`;
+
+class UsageError extends Error {}
+
+function parseFailOn(values: string[]): PolicyCheck[] {
+  const checks = values.flatMap((v) => v.split(",")).map((v) => v.trim()).filter(Boolean);
+  for (const check of checks) {
+    if (!(POLICY_CHECKS as readonly string[]).includes(check)) {
+      throw new UsageError(`Unknown --fail-on check "${check}" (expected ${POLICY_CHECKS.join(", ")})`);
+    }
+  }
+  return [...new Set(checks)] as PolicyCheck[];
+}
+
+// A baseline file is the JSON output of a previous run; only its extracted prompts are used
+async function loadBaselineFile(file: string): Promise<DiffPrompt[]> {
+  let json: Partial<ScanResult>;
+  try {
+    json = JSON.parse(await fs.readFile(file, "utf8"));
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new UsageError(`Could not read baseline ${file}: ${message}`);
+  }
+  if (!json.extracted || !json.repo?.path) {
+    throw new UsageError(`Baseline ${file} is not a prompt-explorer JSON report`);
+  }
+  return toDiffPrompts({ python: json.extracted.python ?? [], typescript: json.extracted.typescript ?? [] }, json.repo.path);
+}
+
+async function loadBaselineRef(repoDir: string, ref: string): Promise<DiffPrompt[]> {
+  const destDir = join(tmpdir(), `prompt-explorer-${randomUUID().slice(0, 8)}`);
+  const checkout = await checkoutRef({ repoDir, ref, destDir });
+  try {
+    return toDiffPrompts(await extractPrompts(checkout.dir), checkout.dir);
+  } finally {
+    await removeWorktree(repoDir, destDir);
+  }
+}
+
+function logEvent(event: ScanEvent) {
+  if (event.type !== "phase" || event.status === "start") return;
+  process.stderr.write(`[${event.phase}] ${event.status}${event.detail ? `: ${event.detail}` : ""}\n`);
+}
+
+export async function main(argv: string[]): Promise<number> {
+  let args;
+  try {
+    args = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        format: { type: "string", short: "f", default: "json" },
+        output: { type: "string", short: "o" },
+        "fail-on": { type: "string", multiple: true, default: [] },
+        baseline: { type: "string" },
+        base: { type: "string" },
+        "history-depth": { type: "string" },
+        "history-since": { type: "string" },
+        model: { type: "boolean", default: false },
+        provider: { type: "string" },
+        "model-name": { type: "string" },
+        tokenizer: { type: "string" },
+        "reveal-secrets": { type: "boolean", default: false },
+        cache: { type: "boolean", default: false },
+        quiet: { type: "boolean", short: "q", default: false },
+        help: { type: "boolean", short: "h", default: false },
+      },
+    });
+  } catch (error: unknown) {
+    process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n\n${USAGE}`);
+    return EXIT_ERROR;
+  }
+  const { values, positionals } = args;
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return EXIT_OK;
+  }
+
+  try {
+    if (positionals.length > 1) throw new UsageError("Only one path can be scanned at a time");
+    const format = values.format as OutputFormat;
+    if (!FORMATS.includes(format)) throw new UsageError(`Unknown --format "${values.format}" (expected ${FORMATS.join(", ")})`);
+    const failOn = parseFailOn(values["fail-on"]);
+    if (values.baseline && values.base) throw new UsageError("Use either --baseline or --base, not both");
+    if (failOn.includes("new-prompts") && !values.baseline && !values.base) {
+      throw new UsageError("--fail-on new-prompts needs --baseline <file> or --base <ref>");
+    }
+
+    let secretHistory: { depth?: number; since?: string } | undefined;
+    if (values["history-depth"] || values["history-since"] || failOn.includes("history-secrets")) {
+      const depth = values["history-depth"] ? Number(values["history-depth"]) : undefined;
+      if (depth !== undefined && (!Number.isInteger(depth) || depth < 1)) {
+        throw new UsageError("--history-depth must be a positive integer");
+      }
+      const since = values["history-since"];
+      if (since && Number.isNaN(Date.parse(since))) throw new UsageError("--history-since must be a date");
+      secretHistory = { depth, since };
+    }
+
+    const provider = values.provider as ModelProviderId | undefined;
+    if (provider && !MODEL_PROVIDERS.includes(provider)) {
+      throw new UsageError(`Unknown --provider "${provider}" (expected ${MODEL_PROVIDERS.join(", ")})`);
+    }
+    const useModel = values.model || Boolean(provider || values["model-name"]);
+
+    const tokenizers = values.tokenizer?.split(",").map((t) => t.trim()).filter(Boolean) as TokenizerId[] | undefined;
+    for (const tokenizer of tokenizers ?? []) {
+      if (!TOKENIZERS.includes(tokenizer)) {
+        throw new UsageError(`Unknown --tokenizer "${tokenizer}" (expected ${TOKENIZERS.join(", ")})`);
+      }
+    }
+
+    const root = resolve(positionals[0] ?? ".");
+    const controller = new AbortController();
+    process.once("SIGINT", () => controller.abort());
+
+    const result = await runScan(
+      {
+        localPath: root,
+        branch: "HEAD",
+        useModel,
+        model: { provider, model: values["model-name"] },
+        secretHistory,
+        tokenizers,
+        useCache: values.cache,
+      },
+      { signal: controller.signal, onEvent: values.quiet ? undefined : logEvent }
+    );
+    let baseline: DiffPrompt[] | undefined;
+    if (values.baseline) baseline = await loadBaselineFile(values.baseline);
+    else if (values.base) baseline = await loadBaselineRef(root, values.base);
+    const policy = evaluatePolicy(result, failOn, baseline);
+
+    let output: string;
+    if (format === "sarif") {
+      output = JSON.stringify(toSarif(result, policy), null, 2);
+    } else if (format === "markdown") {
+      output = formatMarkdownReport(result, policy);
+    } else {
+      // The file tree is only useful to the UI
+      const report = redactScanResult(result, { reveal: values["reveal-secrets"] });
+      output = JSON.stringify({ ...report, fileTree: undefined, policy }, null, 2);
+    }
+    if (values.output) await fs.writeFile(values.output, `${output}\n`, "utf8");
+    else process.stdout.write(`${output}\n`);
+
+    if (result.prompts.analysisError) {
+      process.stderr.write(`Model analysis failed: ${result.prompts.analysisError.message}\n`);
+    }
+    for (const v of policy.violations) process.stderr.write(`✖ ${v.check}: ${v.message}\n`);
+    return policy.violations.length > 0 ? EXIT_POLICY : EXIT_OK;
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    process.stderr.write(`prompt-explorer: ${message}\n`);
+    if (error instanceof UsageError) process.stderr.write(`\n${USAGE}`);
+    return EXIT_ERROR;
+  }
+}
@@ -0,0 +1,440 @@
+"use client";
+
+import { useState } from "react";
+
+type OrgTotals = {
+  repositories: number;
+  scanned: number;
+  failed: number;
+  prompts: number;
+  callSites: number;
+  secrets: number;
+  duplicates: number;
+  promptTokens: number;
+};
+
+type OrgRegistration = {
+  id: string;
+  name: string;
+  repositories: Array<{ name?: string; repoUrl?: string; localPath?: string; branch?: string }>;
+  source: { host: string; org: string } | null;
+  lastScan: { finishedAt: string; totals: OrgTotals } | null;
+};
+
+type OrgRepoRollup = {
+  name: string;
+  branch: string;
+  commit: string | null;
+  scanId: string | null;
+  status: "scanned" | "failed";
+  error?: string;
+  prompts: number;
+  callSites: number;
+  secrets: number;
+  lint: number;
+  promptTokens: number;
+  providers: string[];
+  durationMs: number;
+};
+
+type OrgInventory = {
+  name: string;
+  finishedAt: string;
+  totals: OrgTotals;
+  repositories: OrgRepoRollup[];
+  callSites: Array<{ repo: string; filePath: string; line: number; callSignature: string | null; provider: string | null; prompts: number; tokens: number }>;
+  secrets: Array<{ repo: string; filePath: string; line: number; rule: string; severity: string; preview: string }>;
+  duplicates: Array<{
+    id: string;
+    kind: string;
+    similarity: number;
+    repos: string[];
+    members: Array<{ repo: string; filePath: string; line: number; text: string }>;
+  }>;
+};
+
+type OrgJob = {
+  id: string;
+  status: "queued" | "running" | "succeeded" | "failed" | "cancelled";
+  progress: { repos?: Record<string, { status: string; detail?: string }> };
+  error: { message: string } | null;
+};
+
+const JOB_POLL_MS = 1500;
+
+const REPO_STATUS_STYLES: Record<string, string> = {
+  queued: "bg-gray-100 text-gray-600",
+  running: "bg-blue-100 text-blue-800 animate-pulse",
+  scanned: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+};
+
+const KIND_STYLES: Record<string, string> = {
+  exact: "bg-red-100 text-red-800",
+  template: "bg-yellow-100 text-yellow-800",
+  near: "bg-blue-100 text-blue-800",
+};
+
+// One repository per line: a Git URL or a local path, optionally followed by a branch
+function parseRepositories(text: string): OrgRegistration["repositories"] {
+  return text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const [location, branch] = line.split(/\s+/);
+      const isUrl = /^(https:\/\/|git@)/.test(location);
+      return { repoUrl: isUrl ? location : undefined, localPath: isUrl ? undefined : location, branch: branch || undefined };
+    });
+}
+
+export default function OrgScanPanel({ token, sshKey, githubToken, onOpenScan }: {
+  token: string;
+  sshKey: string;
+  githubToken: string;
+  onOpenScan: (scanId: string) => void;
+}) {
+  const [orgs, setOrgs] = useState<OrgRegistration[]>([]);
+  const [selected, setSelected] = useState<string>("");
+  const [inventory, setInventory] = useState<OrgInventory | null>(null);
+  const [name, setName] = useState("");
+  const [repoList, setRepoList] = useState("");
+  const [host, setHost] = useState("");
+  const [hostOrg, setHostOrg] = useState("");
+  const [concurrency, setConcurrency] = useState(2);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [job, setJob] = useState<OrgJob | null>(null);
+
+  const headers = { "content-type": "application/json", Authorization: `Bearer ${token}` };
+
+  async function request(action: string, url: string, init?: RequestInit) {
+    setBusy(action);
+    setError(null);
+    try {
+      const res = await fetch(url, { ...init, headers });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.details || data?.error || "Request failed");
+      return data;
+    } catch (error: unknown) {
+      setError(error instanceof Error ? error.message : String(error));
+      return null;
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function loadOrgs() {
+    const data = await request("load", "/api/orgs");
+    if (data) setOrgs(data.orgs || []);
+  }
+
+  async function selectOrg(id: string) {
+    setSelected(id);
+    setInventory(null);
+    if (!id) return;
+    const data = await request("load", `/api/orgs/${id}`);
+    if (data) setInventory(data.inventory);
+  }
+
+  async function register() {
+    const data = await request("register", "/api/orgs", {
+      method: "POST",
+      body: JSON.stringify({
+        name,
+        repositories: parseRepositories(repoList),
+        source: host && hostOrg ? { host, org: hostOrg.trim() } : undefined,
+      }),
+    });
+    if (!data) return;
+    setOrgs((prev) => [data.org, ...prev]);
+    setSelected(data.org.id);
+    setInventory(null);
+    setName("");
+    setRepoList("");
+    setHostOrg("");
+  }
+
+  // Runs as a background job; the panel polls it and shows each repository's state until the inventory is ready
+  async function scan() {
+    const orgId = selected;
+    const data = await request("scan", `/api/orgs/${orgId}/scan`, {
+      method: "POST",
+      body: JSON.stringify({ concurrency, sshKey: sshKey || undefined, githubToken: githubToken || undefined, async: true }),
+    });
+    if (!data) return;
+    setBusy("scan");
+    let current: OrgJob = data.job;
+    setJob(current);
+    try {
+      while (current.status === "queued" || current.status === "running") {
+        await new Promise((resolve) => setTimeout(resolve, JOB_POLL_MS));
+        const res = await fetch(`/api/jobs/${current.id}`, { headers });
+        const status = await res.json();
+        if (!res.ok) throw new Error(status?.error || "Failed to load job status");
+        current = status.job;
+        setJob(current);
+        if (current.status === "succeeded" && status.result) {
+          setInventory(status.result);
+          setOrgs((prev) =>
+            prev.map((o) => (o.id === orgId ? { ...o, lastScan: { finishedAt: status.result.finishedAt, totals: status.result.totals } } : o))
+          );
+        }
+      }
+      if (current.status === "failed") setError(current.error?.message || "Scan failed");
+      if (current.status === "cancelled") setError("Scan cancelled");
+    } catch (error: unknown) {
+      setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function cancel() {
+    if (job) await fetch(`/api/jobs/${job.id}`, { method: "DELETE", headers }).catch(() => {});
+  }
+
+  async function remove() {
+    const data = await request("delete", `/api/orgs/${selected}`, { method: "DELETE" });
+    if (!data) return;
+    setOrgs((prev) => prev.filter((o) => o.id !== selected));
+    setSelected("");
+    setInventory(null);
+  }
+
+  const current = orgs.find((o) => o.id === selected);
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-800">Organisation Inventory</h2>
+        <button
+          className="text-xs bg-gray-100 text-gray-700 rounded px-2 py-1 hover:bg-gray-200 disabled:opacity-50"
+          onClick={loadOrgs}
+          disabled={!token || busy !== null}
+        >
+          Refresh
+        </button>
+      </div>
+
+      <details className="text-sm">
+        <summary className="cursor-pointer text-gray-600">Register repositories</summary>
+        <div className="mt-2 space-y-2">
+          <input className="w-full border rounded px-3 py-2" placeholder="Name" value={name} onChange={(e) => setName(e.target.value)} />
+          <textarea
+            className="w-full h-24 border rounded px-3 py-2 font-mono text-xs"
+            placeholder={"One per line: Git URL or local path, optionally followed by a branch\nhttps://github.com/acme/api.git main\n/srv/checkouts/worker"}
+            value={repoList}
+            onChange={(e) => setRepoList(e.target.value)}
+          />
+          <div className="flex gap-2">
+            <select className="border rounded px-2 py-2" value={host} onChange={(e) => setHost(e.target.value)}>
+              <option value="">No host</option>
+              <option value="github">GitHub organisation</option>
+              <option value="fixture">Fixture organisation</option>
+            </select>
+            <input
+              className="flex-1 border rounded px-3 py-2 disabled:bg-gray-50"
+              placeholder="Organisation or user name"
+              value={hostOrg}
+              onChange={(e) => setHostOrg(e.target.value)}
+              disabled={!host}
+            />
+            <button
+              className="bg-gray-800 text-white rounded px-4 py-2 disabled:opacity-50"
+              onClick={register}
+              disabled={!token || !name.trim() || (!repoList.trim() && !(host && hostOrg.trim())) || busy !== null}
+            >
+              {busy === "register" ? "Registering..." : "Register"}
+            </button>
+          </div>
+        </div>
+      </details>
+
+      <div className="flex items-center gap-2 text-sm">
+        <select className="flex-1 border rounded px-2 py-2" value={selected} onChange={(e) => selectOrg(e.target.value)}>
+          <option value="">{orgs.length ? "Pick an organisation…" : "No organisations loaded"}</option>
+          {orgs.map((o) => (
+            <option key={o.id} value={o.id}>
+              {o.name}
+              {o.source ? ` (${o.source.host}: ${o.source.org})` : ""} · {o.repositories.length} registered
+              {o.lastScan ? ` · last scan ${new Date(o.lastScan.finishedAt).toLocaleString()}` : ""}
+            </option>
+          ))}
+        </select>
+        <label className="flex items-center gap-1 text-gray-600" title="Repositories scanned at once">
+          Parallel
+          <input
+            type="number"
+            min={1}
+            max={8}
+            className="w-14 border rounded px-2 py-2"
+            value={concurrency}
+            onChange={(e) => setConcurrency(Math.min(Math.max(Number(e.target.value) || 1, 1), 8))}
+          />
+        </label>
+        <button className="bg-black text-white rounded px-4 py-2 disabled:opacity-50" onClick={scan} disabled={!current || busy !== null}>
+          {busy === "scan" ? "Scanning..." : "Scan all"}
+        </button>
+        {busy === "scan" ? (
+          <button className="bg-red-600 text-white rounded px-4 py-2 hover:bg-red-700" onClick={cancel}>
+            Cancel
+          </button>
+        ) : (
+          <button className="text-gray-500 hover:text-red-600 disabled:opacity-50" onClick={remove} disabled={!current || busy !== null}>
+            Delete
+          </button>
+        )}
+      </div>
+
+      {busy === "scan" && job && (
+        <div className="flex flex-wrap gap-1 text-xs">
+          {job.status === "queued" && <span className="text-gray-500">Queued, waiting for a free scan worker…</span>}
+          {Object.entries(job.progress.repos ?? {}).map(([name, repo]) => (
+            <span key={name} className={`px-2 py-0.5 rounded-full ${REPO_STATUS_STYLES[repo.status] ?? "bg-gray-100"}`} title={repo.detail}>
+              {name}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {error && <div className="text-red-600 text-sm">{error}</div>}
+
+      {inventory && (
+        <div className="space-y-4 text-sm">
+          <div className="flex flex-wrap gap-2 text-xs">
+            <span className="px-2 py-1 rounded bg-gray-100">
+              {inventory.totals.scanned}/{inventory.totals.repositories} repositories scanned
+            </span>
+            <span className="px-2 py-1 rounded bg-gray-100">{inventory.totals.prompts} prompts</span>
+            <span className="px-2 py-1 rounded bg-gray-100">{inventory.totals.callSites} LLM call sites</span>
+            <span className="px-2 py-1 rounded bg-gray-100">{inventory.totals.promptTokens.toLocaleString()} prompt tokens</span>
+            <span className={`px-2 py-1 rounded ${inventory.totals.secrets ? "bg-red-100 text-red-800" : "bg-gray-100"}`}>
+              {inventory.totals.secrets} secrets
+            </span>
+            <span className="px-2 py-1 rounded bg-gray-100">{inventory.totals.duplicates} cross-repo duplicates</span>
+            <span className="px-2 py-1 text-gray-500">{new Date(inventory.finishedAt).toLocaleString()}</span>
+          </div>
+
+          <table className="min-w-full text-xs">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-1 pr-2">Repository</th>
+                <th className="py-1 pr-2">Status</th>
+                <th className="py-1 pr-2 text-right">Prompts</th>
+                <th className="py-1 pr-2 text-right">Call sites</th>
+                <th className="py-1 pr-2 text-right">Tokens</th>
+                <th className="py-1 pr-2 text-right">Lint</th>
+                <th className="py-1 pr-2 text-right">Secrets</th>
+                <th className="py-1 pr-2">Providers</th>
+                <th className="py-1" />
+              </tr>
+            </thead>
+            <tbody>
+              {inventory.repositories.map((r) => (
+                <tr key={r.name} className="border-b border-gray-100">
+                  <td className="py-1 pr-2 font-mono">
+                    {r.name}
+                    <span className="text-gray-400">
+                      {" "}
+                      {r.branch}
+                      {r.commit ? ` @ ${r.commit.slice(0, 7)}` : ""}
+                    </span>
+                  </td>
+                  <td className="py-1 pr-2">
+                    {r.status === "failed" ? (
+                      <span className="text-red-600" title={r.error}>
+                        failed
+                      </span>
+                    ) : (
+                      <span className="text-green-700">{(r.durationMs / 1000).toFixed(1)}s</span>
+                    )}
+                  </td>
+                  <td className="py-1 pr-2 text-right">{r.prompts}</td>
+                  <td className="py-1 pr-2 text-right">{r.callSites}</td>
+                  <td className="py-1 pr-2 text-right">{r.promptTokens.toLocaleString()}</td>
+                  <td className="py-1 pr-2 text-right">{r.lint}</td>
+                  <td className={`py-1 pr-2 text-right ${r.secrets ? "text-red-700 font-medium" : ""}`}>{r.secrets}</td>
+                  <td className="py-1 pr-2">{r.providers.join(", ")}</td>
+                  <td className="py-1">
+                    {r.scanId && (
+                      <button className="text-blue-600 hover:underline" onClick={() => onOpenScan(r.scanId as string)}>
+                        Open
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {inventory.duplicates.length > 0 && (
+            <details open>
+              <summary className="cursor-pointer font-medium text-gray-800">Prompts shared across repositories ({inventory.duplicates.length})</summary>
+              <div className="mt-2 space-y-2">
+                {inventory.duplicates.map((d) => (
+                  <div key={d.id} className="border border-gray-200 rounded p-2 space-y-1">
+                    <div className="flex items-center gap-2 text-xs">
+                      <span className={`px-2 py-0.5 rounded-full font-medium ${KIND_STYLES[d.kind] ?? "bg-gray-100"}`}>{d.kind}</span>
+                      <span className="text-gray-600">
+                        {d.repos.length} repositories · {d.members.length} prompts
+                        {d.kind === "near" ? ` · ≥${Math.round(d.similarity * 100)}% similar` : ""}
+                      </span>
+                    </div>
+                    <pre className="text-xs text-gray-800 whitespace-pre-wrap break-words bg-gray-50 rounded p-2 max-h-24 overflow-y-auto">
+                      {d.members[0]?.text}
+                    </pre>
+                    <div className="text-xs text-gray-500 font-mono">
+                      {d.members.map((m) => `${m.repo}/${m.filePath}:${m.line}`).join(" · ")}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </details>
+          )}
+
+          {inventory.callSites.length > 0 && (
+            <details>
+              <summary className="cursor-pointer font-medium text-gray-800">LLM call sites ({inventory.callSites.length})</summary>
+              <table className="mt-2 min-w-full text-xs">
+                <tbody>
+                  {inventory.callSites.map((c) => (
+                    <tr key={`${c.repo}:${c.filePath}:${c.line}`} className="border-b border-gray-100">
+                      <td className="py-1 pr-2 font-mono">
+                        {c.repo}/{c.filePath}:{c.line}
+                      </td>
+                      <td className="py-1 pr-2 font-mono text-gray-600">{c.callSignature ?? ""}</td>
+                      <td className="py-1 pr-2">{c.provider ?? ""}</td>
+                      <td className="py-1 pr-2 text-right">{c.prompts} prompts</td>
+                      <td className="py-1 text-right">{c.tokens.toLocaleString()} tokens</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </details>
+          )}
+
+          {inventory.secrets.length > 0 && (
+            <details>
+              <summary className="cursor-pointer font-medium text-red-800">Secrets ({inventory.secrets.length})</summary>
+              <table className="mt-2 min-w-full text-xs">
+                <tbody>
+                  {inventory.secrets.map((s, index) => (
+                    <tr key={index} className="border-b border-gray-100">
+                      <td className="py-1 pr-2 font-mono">
+                        {s.repo}/{s.filePath}:{s.line}
+                      </td>
+                      <td className="py-1 pr-2">{s.rule}</td>
+                      <td className="py-1 pr-2">{s.severity}</td>
+                      <td className="py-1 font-mono text-gray-600">{s.preview}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </details>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+"use client";
+
+import { useState } from "react";
+
+type WordDiffOp = { op: "equal" | "insert" | "delete"; text: string };
+
+type ClusterMember = {
+  filePath: string;
+  line: number;
+  role: string;
+  functionName: string | null;
+  language: "python" | "typescript";
+  text: string;
+  similarity: number;
+  diff?: WordDiffOp[];
+  callSites?: number; // a shared definition used by this many call sites
+};
+
+type PromptCluster = {
+  id: string;
+  kind: "exact" | "template" | "near";
+  similarity: number;
+  files: number;
+  members: ClusterMember[];
+};
+
+type BoilerplateBlock = {
+  text: string;
+  prompts: number;
+  files: number;
+  occurrences: Array<{ filePath: string; line: number }>;
+};
+
+export type PromptClusterReport = { clusters: PromptCluster[]; boilerplate: BoilerplateBlock[] };
+
+const KIND_STYLES: Record<PromptCluster["kind"], string> = {
+  exact: "bg-red-100 text-red-800",
+  template: "bg-orange-100 text-orange-800",
+  near: "bg-yellow-100 text-yellow-800",
+};
+
+function location(m: ClusterMember): string {
+  if (m.callSites) return `${m.filePath}:${m.line} (shared by ${m.callSites} call sites)`;
+  return `${m.filePath}:${m.line}${m.functionName ? ` (${m.functionName})` : ""}`;
+}
+
+// Left column keeps the representative's words (deletions highlighted), right column the member's (insertions)
+function SideBySideDiff({ ops }: { ops: WordDiffOp[] }) {
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      <pre className="text-xs text-gray-800 whitespace-pre-wrap break-words bg-gray-50 rounded p-2">
+        {ops.map((op, index) =>
+          op.op === "insert" ? null : op.op === "delete" ? (
+            <del key={index} className="bg-red-100 text-red-900">{op.text}</del>
+          ) : (
+            <span key={index}>{op.text}</span>
+          )
+        )}
+      </pre>
+      <pre className="text-xs text-gray-800 whitespace-pre-wrap break-words bg-gray-50 rounded p-2">
+        {ops.map((op, index) =>
+          op.op === "delete" ? null : op.op === "insert" ? (
+            <ins key={index} className="bg-green-100 text-green-900 no-underline">{op.text}</ins>
+          ) : (
+            <span key={index}>{op.text}</span>
+          )
+        )}
+      </pre>
+    </div>
+  );
+}
+
+export default function PromptClustersPanel({ report }: { report: PromptClusterReport }) {
+  const [openCluster, setOpenCluster] = useState<string | null>(null);
+  const [compareWith, setCompareWith] = useState(1);
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-xl font-semibold text-gray-800">Duplicate Prompts</h2>
+      {report.clusters.length === 0 ? (
+        <div className="text-sm text-gray-500">No duplicate or near-duplicate prompts.</div>
+      ) : (
+        <div className="grid gap-3">
+          {report.clusters.map((cluster) => {
+            const open = openCluster === cluster.id;
+            const rep = cluster.members[0];
+            const other = cluster.members[Math.min(compareWith, cluster.members.length - 1)];
+            return (
+              <div key={cluster.id} className="bg-white border border-gray-200 rounded-lg p-3">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${KIND_STYLES[cluster.kind]}`}>{cluster.kind}</span>
+                    <span className="text-gray-900">
+                      {cluster.members.length} prompts in {cluster.files} file{cluster.files === 1 ? "" : "s"}
+                    </span>
+                    {cluster.kind === "near" && <span className="text-xs text-gray-500">≥ {Math.round(cluster.similarity * 100)}% similar</span>}
+                  </div>
+                  <button
+                    className="text-xs bg-gray-100 text-gray-700 rounded px-2 py-1 hover:bg-gray-200"
+                    onClick={() => {
+                      setOpenCluster(open ? null : cluster.id);
+                      setCompareWith(1);
+                    }}
+                  >
+                    {open ? "Hide" : "Compare"}
+                  </button>
+                </div>
+                <div className="text-xs text-gray-600 mt-1 truncate">{rep.text.slice(0, 200)}</div>
+                <ul className="mt-2 text-xs text-gray-500 space-y-0.5">
+                  {cluster.members.map((m, index) => (
+                    <li key={index} className="truncate">
+                      <span className="font-mono">{location(m)}</span> · {m.role}
+                      {index > 0 && cluster.kind !== "exact" ? ` · ${Math.round(m.similarity * 100)}%` : ""}
+                    </li>
+                  ))}
+                </ul>
+                {open && (
+                  <div className="mt-3 space-y-2">
+                    {cluster.kind === "exact" ? (
+                      <pre className="text-xs text-gray-800 whitespace-pre-wrap break-words bg-gray-50 rounded p-2">{rep.text}</pre>
+                    ) : (
+                      <>
+                        <div className="flex items-center gap-2 text-xs text-gray-600">
+                          <span className="font-mono truncate">{location(rep)}</span>
+                          <span>vs.</span>
+                          <select
+                            className="border border-gray-300 rounded px-2 py-1"
+                            value={compareWith}
+                            onChange={(e) => setCompareWith(Number(e.target.value))}
+                          >
+                            {cluster.members.slice(1).map((m, index) => (
+                              <option key={index} value={index + 1}>
+                                {location(m)}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                        {other.diff ? (
+                          <SideBySideDiff ops={other.diff} />
+                        ) : (
+                          <div className="grid grid-cols-2 gap-2">
+                            <pre className="text-xs whitespace-pre-wrap break-words bg-gray-50 rounded p-2">{rep.text}</pre>
+                            <pre className="text-xs whitespace-pre-wrap break-words bg-gray-50 rounded p-2">{other.text}</pre>
+                          </div>
+                        )}
+                      </>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+      {report.boilerplate.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="font-medium text-gray-800">Shared Boilerplate</h3>
+          <div className="text-xs text-gray-500">Blocks repeated across different prompts; candidates for a shared template.</div>
+          {report.boilerplate.map((block, index) => (
+            <details key={index} className="bg-gray-50 border border-gray-200 rounded p-2 text-xs">
+              <summary className="cursor-pointer text-gray-800">
+                {block.prompts} prompts, {block.files} file{block.files === 1 ? "" : "s"}: {block.text.slice(0, 140)}
+                {block.text.length > 140 ? "…" : ""}
+              </summary>
+              <pre className="mt-2 whitespace-pre-wrap break-words text-gray-800">{block.text}</pre>
+              <ul className="mt-2 text-gray-500">
+                {block.occurrences.map((o, i) => (
+                  <li key={i} className="font-mono truncate">
+                    {o.filePath}:{o.line}
+                  </li>
+                ))}
+              </ul>
+            </details>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
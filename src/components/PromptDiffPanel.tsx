@@ -0,0 +1,181 @@
+"use client";
+
+import { useState } from "react";
+
+type DiffPrompt = {
+  role: string;
+  text: string;
+  filePath: string;
+  line: number;
+  functionName?: string | null;
+  callSignature?: string | null;
+  language: "python" | "typescript";
+};
+
+type WordDiffOp = { op: "equal" | "insert" | "delete"; text: string };
+
+type PromptChange = {
+  status: "added" | "removed" | "modified" | "moved" | "unchanged";
+  base?: DiffPrompt;
+  head?: DiffPrompt;
+  similarity: number;
+  textDiff?: WordDiffOp[];
+};
+
+type DiffResponse = {
+  ok: boolean;
+  base: { ref: string; commit: string };
+  head: { ref: string; commit: string };
+  summary: Record<PromptChange["status"], number>;
+  changes: PromptChange[];
+};
+
+const STATUS_STYLES: Record<PromptChange["status"], string> = {
+  added: "bg-green-100 text-green-800",
+  removed: "bg-red-100 text-red-800",
+  modified: "bg-yellow-100 text-yellow-800",
+  moved: "bg-blue-100 text-blue-800",
+  unchanged: "bg-gray-100 text-gray-700",
+};
+
+function location(p?: DiffPrompt): string {
+  if (!p) return "";
+  return `${p.filePath}:${p.line}${p.functionName ? ` (${p.functionName})` : ""}`;
+}
+
+function WordDiff({ ops }: { ops: WordDiffOp[] }) {
+  return (
+    <pre className="text-sm text-gray-800 whitespace-pre-wrap break-words">
+      {ops.map((op, index) =>
+        op.op === "equal" ? (
+          <span key={index}>{op.text}</span>
+        ) : op.op === "insert" ? (
+          <ins key={index} className="bg-green-100 text-green-900 no-underline">{op.text}</ins>
+        ) : (
+          <del key={index} className="bg-red-100 text-red-900">{op.text}</del>
+        )
+      )}
+    </pre>
+  );
+}
+
+export default function PromptDiffPanel({ token, repoUrl, localPath, branch, sshKey, githubToken }: {
+  token: string;
+  repoUrl: string;
+  localPath: string;
+  branch: string;
+  sshKey: string;
+  githubToken: string;
+}) {
+  const [base, setBase] = useState("main");
+  const [head, setHead] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [diff, setDiff] = useState<DiffResponse | null>(null);
+
+  async function onCompare() {
+    setLoading(true);
+    setError(null);
+    setDiff(null);
+    try {
+      const res = await fetch("/api/diff", {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          repoUrl: repoUrl || undefined,
+          localPath: localPath || undefined,
+          branch,
+          base,
+          head,
+          sshKey: sshKey || undefined,
+          githubToken: githubToken || undefined,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data?.error || "Request failed");
+      }
+      setDiff(data);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      setError(message);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-3">
+      <h2 className="text-lg font-semibold text-gray-800">Compare Prompts Between Refs</h2>
+      <div className="flex gap-3">
+        <input
+          className="flex-1 border rounded px-3 py-2"
+          placeholder="Base ref (branch or commit)"
+          value={base}
+          onChange={(e) => setBase(e.target.value)}
+        />
+        <input
+          className="flex-1 border rounded px-3 py-2"
+          placeholder="Head ref (branch or commit)"
+          value={head}
+          onChange={(e) => setHead(e.target.value)}
+        />
+        <button
+          className="bg-gray-800 text-white rounded px-4 py-2 disabled:opacity-50"
+          onClick={onCompare}
+          disabled={loading || !base || !head || (!repoUrl && !localPath) || !token}
+        >
+          {loading ? "Comparing..." : "Compare"}
+        </button>
+      </div>
+
+      {error && <div className="text-red-600 text-sm">{error}</div>}
+
+      {diff && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="text-gray-600">
+              {diff.base.ref} @ {diff.base.commit.slice(0, 7)} → {diff.head.ref} @ {diff.head.commit.slice(0, 7)}
+            </span>
+            {(Object.keys(STATUS_STYLES) as Array<PromptChange["status"]>).map((status) => (
+              <span key={status} className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[status]}`}>
+                {diff.summary[status]} {status}
+              </span>
+            ))}
+          </div>
+          {diff.changes.length === 0 && <div className="text-sm text-gray-500">No prompt changes between these refs</div>}
+          <div className="grid gap-3">
+            {diff.changes.map((change, index) => (
+              <div key={index} className="border border-gray-200 rounded-lg p-3">
+                <div className="flex items-center gap-2 mb-2">
+                  <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[change.status]}`}>
+                    {change.status}
+                  </span>
+                  <span className="text-xs text-gray-500">{(change.head ?? change.base)?.role}</span>
+                  {change.status === "modified" || change.status === "moved" ? (
+                    <span className="text-xs text-gray-400">{Math.round(change.similarity * 100)}% similar</span>
+                  ) : null}
+                </div>
+                <div className="text-xs text-gray-500 truncate">
+                  {change.base && change.head && location(change.base) !== location(change.head)
+                    ? `${location(change.base)} → ${location(change.head)}`
+                    : location(change.head ?? change.base)}
+                </div>
+                <div className="bg-gray-50 rounded p-3 mt-2">
+                  {change.textDiff ? (
+                    <WordDiff ops={change.textDiff} />
+                  ) : (
+                    <pre className="text-sm text-gray-800 whitespace-pre-wrap break-words">{(change.head ?? change.base)?.text}</pre>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,270 @@
+"use client";
+
+import { useMemo, useState } from "react";
+
+type FlowNode = {
+  id: string;
+  kind: "module" | "function" | "llm_call";
+  label: string;
+  module: string;
+  filePath: string | null;
+  line: number | null;
+  level: number;
+  entry?: boolean;
+  reaches?: number;
+  provider?: string;
+  callSignature?: string;
+  prompts?: number;
+  roles?: string[];
+  inLoop?: boolean;
+  chain?: string[];
+};
+
+type EdgeKind = "calls" | "invokes" | "assembles" | "defines";
+
+type FlowEdge = { from: string; to: string; kind: EdgeKind; line: number | null };
+
+export type PromptFlowGraph = {
+  nodes: FlowNode[];
+  edges: FlowEdge[];
+  stats: { llmCalls: number; functions: number; entryPoints: number; multiStep: number; loops: number; longestChain: number };
+  truncated: boolean;
+};
+
+const COLUMN_WIDTH = 230;
+const ROW_HEIGHT = 56;
+const NODE_WIDTH = 190;
+const NODE_HEIGHT = 38;
+const PADDING = 16;
+
+const EDGE_COLORS: Record<EdgeKind, string> = {
+  calls: "#9ca3af",
+  invokes: "#7c3aed",
+  assembles: "#059669",
+  defines: "#d97706",
+};
+
+const NODE_STYLES: Record<FlowNode["kind"], { fill: string; stroke: string }> = {
+  module: { fill: "#f3f4f6", stroke: "#6b7280" },
+  function: { fill: "#eff6ff", stroke: "#3b82f6" },
+  llm_call: { fill: "#f5f3ff", stroke: "#7c3aed" },
+};
+
+function shorten(value: string, max: number): string {
+  return value.length > max ? `…${value.slice(value.length - max + 1)}` : value;
+}
+
+function location(node: FlowNode): string {
+  return node.filePath ? `${node.filePath}${node.line ? `:${node.line}` : ""}` : node.module;
+}
+
+// Everything upstream and downstream of the selected node over the visible edges
+function relatedTo(selected: string, edges: FlowEdge[]): Set<string> {
+  const related = new Set<string>([selected]);
+  for (const direction of ["up", "down"] as const) {
+    const stack = [selected];
+    const seen = new Set<string>([selected]);
+    while (stack.length) {
+      const id = stack.pop() as string;
+      for (const e of edges) {
+        const [here, next] = direction === "down" ? [e.from, e.to] : [e.to, e.from];
+        if (here !== id || seen.has(next)) continue;
+        seen.add(next);
+        related.add(next);
+        stack.push(next);
+      }
+    }
+  }
+  return related;
+}
+
+export default function PromptGraphPanel({ graph }: { graph: PromptFlowGraph }) {
+  const [selected, setSelected] = useState<string | null>(null);
+  const [hidden, setHidden] = useState<Set<EdgeKind>>(new Set());
+  const [search, setSearch] = useState("");
+
+  const positions = useMemo(() => {
+    const rows = new Map<number, number>();
+    const out = new Map<string, { x: number; y: number }>();
+    for (const node of graph.nodes) {
+      const row = rows.get(node.level) ?? 0;
+      rows.set(node.level, row + 1);
+      out.set(node.id, { x: PADDING + node.level * COLUMN_WIDTH, y: PADDING + row * ROW_HEIGHT });
+    }
+    return out;
+  }, [graph]);
+  const byId = useMemo(() => new Map(graph.nodes.map((n) => [n.id, n])), [graph]);
+
+  const edges = graph.edges.filter((e) => !hidden.has(e.kind));
+  const related = selected ? relatedTo(selected, edges) : null;
+  const width = PADDING * 2 + (Math.max(0, ...graph.nodes.map((n) => n.level)) * COLUMN_WIDTH + NODE_WIDTH);
+  const height = PADDING * 2 + Math.max(1, ...[...positions.values()].map((p) => (p.y - PADDING) / ROW_HEIGHT + 1)) * ROW_HEIGHT;
+  const current = selected ? byId.get(selected) : undefined;
+  const matches = search.trim()
+    ? graph.nodes.filter((n) => `${n.label} ${n.filePath ?? ""}`.toLowerCase().includes(search.trim().toLowerCase())).slice(0, 8)
+    : [];
+
+  const toggleEdge = (kind: EdgeKind) => {
+    const next = new Set(hidden);
+    if (next.has(kind)) next.delete(kind);
+    else next.add(kind);
+    setHidden(next);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between flex-wrap gap-2">
+        <h2 className="text-xl font-semibold text-gray-800">Prompt Flow</h2>
+        <div className="flex items-center gap-3 text-xs">
+          {(Object.keys(EDGE_COLORS) as EdgeKind[]).map((kind) => (
+            <label key={kind} className="flex items-center gap-1 cursor-pointer">
+              <input type="checkbox" checked={!hidden.has(kind)} onChange={() => toggleEdge(kind)} />
+              <span style={{ color: EDGE_COLORS[kind] }}>{kind}</span>
+            </label>
+          ))}
+          <div className="relative">
+            <input
+              className="border border-gray-300 rounded px-2 py-1 w-48"
+              placeholder="Find function or call…"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+            {matches.length > 0 && (
+              <ul className="absolute right-0 z-10 mt-1 w-72 bg-white border border-gray-200 rounded shadow">
+                {matches.map((n) => (
+                  <li key={n.id}>
+                    <button
+                      className="w-full text-left px-2 py-1 hover:bg-gray-100 truncate"
+                      onClick={() => {
+                        setSelected(n.id);
+                        setSearch("");
+                      }}
+                    >
+                      {n.label} <span className="text-gray-400">{n.module}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+      <div className="text-sm text-gray-600">
+        {graph.stats.llmCalls} LLM call site{graph.stats.llmCalls === 1 ? "" : "s"} reached through {graph.stats.functions} function
+        {graph.stats.functions === 1 ? "" : "s"} from {graph.stats.entryPoints} entry point{graph.stats.entryPoints === 1 ? "" : "s"};{" "}
+        {graph.stats.multiStep} multi-step chain{graph.stats.multiStep === 1 ? "" : "s"}, {graph.stats.loops} call
+        {graph.stats.loops === 1 ? "" : "s"} in a loop, longest chain {graph.stats.longestChain} step{graph.stats.longestChain === 1 ? "" : "s"}.
+        {graph.truncated && " Large graph: only the call sites with the most prompts are shown."} Click a node to trace its chain.
+      </div>
+      <div className="overflow-auto border border-gray-200 rounded-lg bg-white max-h-[32rem]">
+        <svg width={width} height={height} className="block" onClick={() => setSelected(null)}>
+          <defs>
+            {(Object.keys(EDGE_COLORS) as EdgeKind[]).map((kind) => (
+              <marker key={kind} id={`flow-arrow-${kind}`} viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+                <path d="M0,0 L10,5 L0,10 z" fill={EDGE_COLORS[kind]} />
+              </marker>
+            ))}
+          </defs>
+          {edges.map((e, index) => {
+            const from = positions.get(e.from);
+            const to = positions.get(e.to);
+            if (!from || !to) return null;
+            const x1 = from.x + NODE_WIDTH;
+            const y1 = from.y + NODE_HEIGHT / 2;
+            const x2 = to.x;
+            const y2 = to.y + NODE_HEIGHT / 2;
+            // Edges that do not move right (recursion, same column) loop around above the nodes
+            const path =
+              x2 > x1
+                ? `M${x1},${y1} C${x1 + 40},${y1} ${x2 - 40},${y2} ${x2},${y2}`
+                : `M${x1},${y1} C${x1 + 60},${y1 - 60} ${x2 - 60},${y2 - 60} ${x2},${y2}`;
+            const active = !related || (related.has(e.from) && related.has(e.to));
+            return (
+              <path
+                key={index}
+                d={path}
+                fill="none"
+                stroke={EDGE_COLORS[e.kind]}
+                strokeWidth={active && related ? 2 : 1.25}
+                strokeDasharray={e.kind === "defines" || e.kind === "assembles" ? "4 3" : undefined}
+                opacity={active ? 0.9 : 0.12}
+                markerEnd={`url(#flow-arrow-${e.kind})`}
+              />
+            );
+          })}
+          {graph.nodes.map((node) => {
+            const pos = positions.get(node.id);
+            if (!pos) return null;
+            const style = NODE_STYLES[node.kind];
+            const active = !related || related.has(node.id);
+            return (
+              <g
+                key={node.id}
+                transform={`translate(${pos.x},${pos.y})`}
+                opacity={active ? 1 : 0.25}
+                className="cursor-pointer"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setSelected(selected === node.id ? null : node.id);
+                }}
+              >
+                <title>{location(node)}</title>
+                <rect
+                  width={NODE_WIDTH}
+                  height={NODE_HEIGHT}
+                  rx={node.kind === "llm_call" ? 12 : 4}
+                  fill={style.fill}
+                  stroke={style.stroke}
+                  strokeWidth={selected === node.id ? 3 : node.entry ? 2 : 1}
+                />
+                <text x={8} y={15} fontSize={11} fontFamily="monospace" fill="#111827">
+                  {shorten(node.label, 26)}
+                </text>
+                <text x={8} y={30} fontSize={10} fill="#6b7280">
+                  {node.kind === "llm_call"
+                    ? `${node.provider} · ${node.prompts ?? 0} prompt${node.prompts === 1 ? "" : "s"}${node.inLoop ? " · loop" : ""}`
+                    : `${shorten(node.module, 18)}${node.reaches ? ` · ${node.reaches} call${node.reaches === 1 ? "" : "s"}` : ""}`}
+                </text>
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+      {current && (
+        <div className="bg-gray-50 border border-gray-200 rounded-lg p-3 text-sm space-y-1">
+          <div className="flex items-center gap-2">
+            <span className="font-mono text-gray-900">{current.label}</span>
+            <span className="text-xs text-gray-500">{current.kind.replace("_", " ")}</span>
+            {current.entry && <span className="text-xs bg-blue-100 text-blue-800 rounded-full px-2">entry point</span>}
+            {current.inLoop && <span className="text-xs bg-orange-100 text-orange-800 rounded-full px-2">in loop</span>}
+          </div>
+          <div className="font-mono text-xs text-gray-600 truncate">{location(current)}</div>
+          {current.kind === "llm_call" ? (
+            <>
+              <div className="text-xs text-gray-600">
+                {current.prompts ?? 0} extracted prompt{current.prompts === 1 ? "" : "s"}
+                {current.roles && current.roles.length > 0 ? ` (${current.roles.join(", ")})` : ""}
+              </div>
+              {current.chain && current.chain.length > 1 && (
+                <div className="text-xs text-gray-700 flex flex-wrap items-center gap-1">
+                  {current.chain.map((id, index) => (
+                    <span key={id} className="flex items-center gap-1">
+                      {index > 0 && <span className="text-gray-400">→</span>}
+                      <button className="font-mono hover:underline" onClick={() => setSelected(id)}>
+                        {byId.get(id)?.label ?? id}
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              )}
+            </>
+          ) : (
+            <div className="text-xs text-gray-600">
+              Reaches {current.reaches ?? 0} LLM call{current.reaches === 1 ? "" : "s"}.
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
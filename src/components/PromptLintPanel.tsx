@@ -0,0 +1,100 @@
+"use client";
+
+import { useMemo, useState } from "react";
+
+type Severity = "low" | "medium" | "high" | "critical";
+
+export type PromptLintItem = {
+  rule: string;
+  severity: Severity;
+  message: string;
+  filePath: string;
+  line: number;
+  column?: number;
+  role: string;
+  source: "prompt" | "keyword";
+  excerpt: string;
+};
+
+const SEVERITY_ORDER: Severity[] = ["critical", "high", "medium", "low"];
+
+const SEVERITY_STYLES: Record<Severity, string> = {
+  critical: "bg-red-600 text-white",
+  high: "bg-red-200 text-red-900",
+  medium: "bg-orange-100 text-orange-800",
+  low: "bg-gray-100 text-gray-700",
+};
+
+export default function PromptLintPanel({ findings }: { findings: PromptLintItem[] }) {
+  const [minSeverity, setMinSeverity] = useState<Severity>("low");
+  const [rule, setRule] = useState<string>("");
+
+  const rules = useMemo(() => [...new Set(findings.map((f) => f.rule))].sort(), [findings]);
+  const counts = useMemo(() => {
+    const out: Record<Severity, number> = { critical: 0, high: 0, medium: 0, low: 0 };
+    for (const f of findings) out[f.severity] += 1;
+    return out;
+  }, [findings]);
+  const visible = findings.filter(
+    (f) => SEVERITY_ORDER.indexOf(f.severity) <= SEVERITY_ORDER.indexOf(minSeverity) && (!rule || f.rule === rule)
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between flex-wrap gap-2">
+        <h2 className="text-xl font-semibold text-gray-800">Prompt Lint</h2>
+        <div className="flex items-center gap-2 text-xs">
+          {SEVERITY_ORDER.map((s) => (
+            <span key={s} className={`inline-flex px-2 py-0.5 rounded-full font-medium ${SEVERITY_STYLES[s]}`}>
+              {counts[s]} {s}
+            </span>
+          ))}
+          <select
+            className="border border-gray-300 rounded px-2 py-1"
+            value={minSeverity}
+            onChange={(e) => setMinSeverity(e.target.value as Severity)}
+          >
+            {SEVERITY_ORDER.map((s) => (
+              <option key={s} value={s}>
+                {s === "low" ? "All severities" : `${s} and above`}
+              </option>
+            ))}
+          </select>
+          <select className="border border-gray-300 rounded px-2 py-1" value={rule} onChange={(e) => setRule(e.target.value)}>
+            <option value="">All rules</option>
+            {rules.map((r) => (
+              <option key={r} value={r}>
+                {r}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+      {visible.length === 0 ? (
+        <div className="text-sm text-gray-500">No findings match the filters.</div>
+      ) : (
+        <div className="grid gap-3">
+          {visible.map((f, index) => (
+            <div key={index} className="bg-white border border-gray-200 rounded-lg p-3">
+              <div className="flex items-center gap-2 text-sm">
+                <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${SEVERITY_STYLES[f.severity]}`}>{f.severity}</span>
+                <span className="font-mono text-xs text-gray-700">{f.rule}</span>
+                <span className="text-xs text-gray-500">
+                  {f.source === "keyword" ? "keyword snippet" : `${f.role} prompt`}
+                </span>
+              </div>
+              <div className="text-sm text-gray-900 mt-1">{f.message}</div>
+              <div className="text-xs text-gray-500 truncate">
+                {f.filePath}:{f.line}
+                {f.column ? `:${f.column}` : ""}
+              </div>
+              {f.excerpt && (
+                <code className="block mt-2 text-xs bg-gray-100 text-gray-800 px-2 py-1 rounded break-all">{f.excerpt}</code>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,299 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+export type PlaygroundPrompt = {
+  key: string;
+  role: string;
+  text: string;
+  filePath: string;
+  line: number;
+  functionName?: string;
+  callSignature?: string;
+  template?: { variables: Array<{ name: string }>; skeleton: string };
+};
+
+type PromptRun = {
+  id: string;
+  createdAt: string;
+  label: string | null;
+  prompt: { filePath: string; line: number; role: string } | null;
+  variables: Record<string, string>;
+  system: string;
+  user: string;
+  provider: string | null;
+  model: string | null;
+  output: string | null;
+  usage?: { inputTokens: number; outputTokens: number };
+  latencyMs: number;
+  error?: { code: string; message: string };
+};
+
+type Target = { provider: string; model: string };
+
+const PROVIDERS = ["openai", "anthropic", "azure", "mock"];
+const MAX_TARGETS = 4;
+
+function siteOf(p: PlaygroundPrompt): string {
+  return `${p.filePath}:${p.line}:${p.callSignature ?? ""}`;
+}
+
+function shortPath(filePath: string): string {
+  return filePath.split("/").slice(-2).join("/");
+}
+
+export default function PromptPlayground({ token, scanId, prompts, selected, onSelect }: {
+  token: string;
+  scanId?: string;
+  prompts: PlaygroundPrompt[];
+  selected: string | null;
+  onSelect: (key: string | null) => void;
+}) {
+  const [system, setSystem] = useState("");
+  const [user, setUser] = useState("");
+  const [variables, setVariables] = useState<Record<string, string>>({});
+  const [targets, setTargets] = useState<Target[]>([{ provider: "", model: "" }]);
+  const [label, setLabel] = useState("");
+  const [runs, setRuns] = useState<PromptRun[]>([]);
+  const [compare, setCompare] = useState<string[]>([]);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const current = prompts.find((p) => p.key === selected) ?? null;
+
+  // Load the whole call site when the selection changes: its system prompts go to the system box, everything else to the user box
+  const [loaded, setLoaded] = useState<string | null>(null);
+  if (current && loaded !== current.key) {
+    const site = prompts.filter((p) => siteOf(p) === siteOf(current));
+    const skeleton = (p: PlaygroundPrompt) => p.template?.skeleton ?? p.text;
+    const names = [...new Set(site.flatMap((p) => p.template?.variables.map((v) => v.name) ?? []))];
+    setLoaded(current.key);
+    setSystem(site.filter((p) => p.role === "system").map(skeleton).join("\n\n"));
+    setUser(site.filter((p) => p.role !== "system").map(skeleton).join("\n\n"));
+    setVariables(Object.fromEntries(names.map((n) => [n, ""])));
+    setLabel("");
+  }
+
+  useEffect(() => {
+    if (!scanId || !token) return;
+    let cancelled = false;
+    fetch(`/api/run?scanId=${encodeURIComponent(scanId)}`, { headers: { Authorization: `Bearer ${token}` } })
+      .then((res) => res.json())
+      .then((data) => {
+        if (!cancelled && Array.isArray(data?.runs)) setRuns(data.runs);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [scanId, token]);
+
+  const run = async () => {
+    setRunning(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/run", {
+        method: "POST",
+        headers: { "content-type": "application/json", Authorization: `Bearer ${token}` },
+        body: JSON.stringify({
+          scanId,
+          prompt: current ? { filePath: current.filePath, line: current.line, role: current.role } : undefined,
+          label: label.trim() || undefined,
+          system,
+          user,
+          // Unfilled variables keep their placeholder
+          variables: Object.fromEntries(Object.entries(variables).filter(([, value]) => value !== "")),
+          targets: targets.map((t) => ({ provider: t.provider || undefined, model: t.model.trim() || undefined })),
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.details || data?.error || "Request failed");
+      const fresh = data.runs as PromptRun[];
+      setRuns((prev) => [...fresh, ...prev]);
+      // Keep what was already being compared next to the new outputs
+      setCompare((prev) => [...fresh.map((r) => r.id), ...prev].slice(0, MAX_TARGETS * 2));
+    } catch (error: unknown) {
+      setError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const compared = compare.map((id) => runs.find((r) => r.id === id)).filter((r): r is PromptRun => Boolean(r));
+  const toggleCompare = (id: string) => setCompare((prev) => (prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between flex-wrap gap-2">
+        <h2 className="text-xl font-semibold text-gray-800">Playground</h2>
+        <select
+          className="border border-gray-300 rounded px-2 py-1 text-xs max-w-md"
+          value={selected ?? ""}
+          onChange={(e) => onSelect(e.target.value || null)}
+        >
+          <option value="">Pick an extracted prompt…</option>
+          {prompts.map((p) => (
+            <option key={p.key} value={p.key}>
+              {shortPath(p.filePath)}:{p.line} · {p.role} · {p.text.slice(0, 60)}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="grid md:grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <label className="block text-xs text-gray-600">
+            System
+            <textarea
+              className="mt-1 w-full h-32 border border-gray-300 rounded p-2 font-mono text-xs"
+              value={system}
+              onChange={(e) => setSystem(e.target.value)}
+            />
+          </label>
+          <label className="block text-xs text-gray-600">
+            User
+            <textarea
+              className="mt-1 w-full h-32 border border-gray-300 rounded p-2 font-mono text-xs"
+              value={user}
+              onChange={(e) => setUser(e.target.value)}
+            />
+          </label>
+        </div>
+        <div className="space-y-3 text-xs">
+          <div>
+            <div className="text-gray-600 mb-1">Variables</div>
+            {Object.keys(variables).length === 0 ? (
+              <div className="text-gray-400">No template variables.</div>
+            ) : (
+              <div className="space-y-1">
+                {Object.entries(variables).map(([name, value]) => (
+                  <label key={name} className="flex items-center gap-2">
+                    <span className="font-mono w-32 truncate" title={name}>{`{${name}}`}</span>
+                    <input
+                      className="flex-1 border border-gray-300 rounded px-2 py-1"
+                      value={value}
+                      onChange={(e) => setVariables({ ...variables, [name]: e.target.value })}
+                    />
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+          <div>
+            <div className="text-gray-600 mb-1">Models</div>
+            <div className="space-y-1">
+              {targets.map((t, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <select
+                    className="border border-gray-300 rounded px-2 py-1"
+                    value={t.provider}
+                    onChange={(e) => setTargets(targets.map((x, i) => (i === index ? { ...x, provider: e.target.value } : x)))}
+                  >
+                    <option value="">Server default</option>
+                    {PROVIDERS.map((p) => (
+                      <option key={p} value={p}>
+                        {p}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    className="flex-1 border border-gray-300 rounded px-2 py-1"
+                    placeholder="Model (optional)"
+                    value={t.model}
+                    onChange={(e) => setTargets(targets.map((x, i) => (i === index ? { ...x, model: e.target.value } : x)))}
+                  />
+                  {targets.length > 1 && (
+                    <button className="text-gray-500 hover:text-gray-800" onClick={() => setTargets(targets.filter((_, i) => i !== index))}>
+                      ✕
+                    </button>
+                  )}
+                </div>
+              ))}
+              {targets.length < MAX_TARGETS && (
+                <button className="text-blue-600 hover:underline" onClick={() => setTargets([...targets, { provider: "", model: "" }])}>
+                  + Add model
+                </button>
+              )}
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              className="flex-1 border border-gray-300 rounded px-2 py-1"
+              placeholder="Label this version (optional)"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+            />
+            <button
+              className="bg-blue-600 text-white rounded px-3 py-1 hover:bg-blue-700 disabled:opacity-50"
+              onClick={run}
+              disabled={running || !token || !(system.trim() || user.trim())}
+            >
+              {running ? "Running..." : "Run"}
+            </button>
+          </div>
+          {!scanId && <div className="text-gray-500">Runs are recorded once the scan is saved.</div>}
+          {error && <div className="text-red-600">{error}</div>}
+        </div>
+      </div>
+
+      {compared.length > 0 && (
+        <div className="flex gap-3 overflow-x-auto pb-2">
+          {compared.map((r) => (
+            <div key={r.id} className="min-w-[18rem] flex-1 bg-white border border-gray-200 rounded-lg p-3 text-xs space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <div className="font-medium text-gray-900 truncate">
+                  {r.label ? `${r.label} · ` : ""}
+                  {r.provider ?? "?"}/{r.model ?? "?"}
+                </div>
+                <button className="text-gray-400 hover:text-gray-700" onClick={() => toggleCompare(r.id)}>
+                  ✕
+                </button>
+              </div>
+              <div className="text-gray-500">
+                {new Date(r.createdAt).toLocaleTimeString()} · {r.latencyMs} ms
+                {r.usage ? ` · ${r.usage.inputTokens} in / ${r.usage.outputTokens} out` : ""}
+              </div>
+              {r.error ? (
+                <div className="text-red-600">
+                  {r.error.code}: {r.error.message}
+                </div>
+              ) : (
+                <pre className="whitespace-pre-wrap break-words bg-gray-50 rounded p-2 text-gray-800 max-h-80 overflow-y-auto">{r.output}</pre>
+              )}
+              <details>
+                <summary className="cursor-pointer text-gray-600">Prompt sent</summary>
+                {r.system && <pre className="mt-1 whitespace-pre-wrap break-words bg-purple-50 rounded p-2">{r.system}</pre>}
+                <pre className="mt-1 whitespace-pre-wrap break-words bg-gray-50 rounded p-2">{r.user}</pre>
+              </details>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {runs.length > 0 && (
+        <details className="text-xs">
+          <summary className="cursor-pointer text-gray-600">Run history ({runs.length})</summary>
+          <table className="mt-2 min-w-full">
+            <tbody>
+              {runs.map((r) => (
+                <tr key={r.id} className="border-b border-gray-100">
+                  <td className="py-1 pr-2">
+                    <input type="checkbox" checked={compare.includes(r.id)} onChange={() => toggleCompare(r.id)} />
+                  </td>
+                  <td className="py-1 pr-2 text-gray-500">{new Date(r.createdAt).toLocaleString()}</td>
+                  <td className="py-1 pr-2">{r.label ?? ""}</td>
+                  <td className="py-1 pr-2 font-mono">
+                    {r.provider ?? "?"}/{r.model ?? "?"}
+                  </td>
+                  <td className="py-1 pr-2 font-mono text-gray-500 truncate max-w-xs">
+                    {r.prompt ? `${shortPath(r.prompt.filePath)}:${r.prompt.line}` : ""}
+                  </td>
+                  <td className="py-1 truncate max-w-md">{r.error ? <span className="text-red-600">{r.error.code}</span> : r.output?.slice(0, 80)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </details>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+"use client";
+
+type TemplateVariable = {
+  name: string;
+  expression: string | null;
+  syntax: string;
+  source: string;
+  definedAt?: { filePath: string; line: number };
+};
+
+export type PromptTemplate = {
+  syntax: string;
+  syntaxes: string[];
+  variables: TemplateVariable[];
+  skeleton: string;
+};
+
+const SOURCE_STYLES: Record<string, string> = {
+  parameter: "bg-blue-50 text-blue-800 border-blue-200",
+  local: "bg-gray-50 text-gray-800 border-gray-200",
+  module: "bg-gray-50 text-gray-800 border-gray-200",
+  import: "bg-gray-50 text-gray-800 border-gray-200",
+  template: "bg-amber-50 text-amber-800 border-amber-200",
+};
+
+function describe(v: TemplateVariable): string {
+  const from = v.expression && v.expression !== v.name ? ` ← ${v.expression}` : "";
+  const where = v.definedAt ? ` (line ${v.definedAt.line})` : "";
+  return `${from} · ${v.source}${where}`;
+}
+
+// Template syntax, the inputs a prompt needs and its skeleton; shown under each extracted prompt
+export default function PromptTemplateDetails({ template }: { template: PromptTemplate }) {
+  if (template.variables.length === 0 && template.syntax === "plain") return null;
+  return (
+    <div className="mt-2 space-y-2 text-xs">
+      <div className="flex items-center flex-wrap gap-1">
+        <span className="inline-flex px-2 py-0.5 rounded-full font-medium bg-teal-100 text-teal-800">{template.syntax}</span>
+        {template.syntaxes
+          .filter((s) => s !== template.syntax)
+          .map((s) => (
+            <span key={s} className="inline-flex px-2 py-0.5 rounded-full bg-gray-100 text-gray-600">
+              {s}
+            </span>
+          ))}
+        {template.variables.map((v) => (
+          <span
+            key={v.name}
+            title={v.definedAt ? `${v.definedAt.filePath}:${v.definedAt.line}` : undefined}
+            className={`inline-flex px-2 py-0.5 rounded border font-mono ${SOURCE_STYLES[v.source] ?? "bg-white text-gray-700 border-gray-200"}`}
+          >
+            {`{${v.name}}`}
+            <span className="font-sans text-gray-500">{describe(v)}</span>
+          </span>
+        ))}
+      </div>
+      {template.variables.length > 0 && (
+        <details>
+          <summary className="cursor-pointer text-gray-600">Skeleton</summary>
+          <pre className="mt-1 bg-gray-50 rounded p-2 whitespace-pre-wrap break-words text-gray-800">{template.skeleton}</pre>
+        </details>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+type PromptCommit = { commit: string; author: string; email: string; date: string; message: string; patch: string };
+
+type BlameLine = { line: number; commit: string; author: string; date: string; summary: string; content: string };
+
+type PromptHistory = {
+  filePath: string;
+  startLine: number;
+  endLine: number;
+  shallow: boolean;
+  commits: PromptCommit[];
+  blame: BlameLine[];
+};
+
+export default function PromptTimeline({ token, repoPath, filePath, line, text }: {
+  token: string;
+  repoPath: string;
+  filePath: string;
+  line: number;
+  text?: string;
+}) {
+  const [history, setHistory] = useState<PromptHistory | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [openPatch, setOpenPatch] = useState<string | null>(null);
+
+  const load = useCallback(
+    async (deepen: boolean) => {
+      setLoading(true);
+      setError(null);
+      try {
+        const res = await fetch("/api/history", {
+          method: "POST",
+          headers: { "content-type": "application/json", Authorization: `Bearer ${token}` },
+          body: JSON.stringify({ repoPath, filePath, line, text, deepen }),
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data?.error || "Request failed");
+        setHistory(data.history);
+      } catch (error: unknown) {
+        setError(error instanceof Error ? error.message : String(error));
+      } finally {
+        setLoading(false);
+      }
+    },
+    [token, repoPath, filePath, line, text]
+  );
+
+  useEffect(() => {
+    load(false);
+  }, [load]);
+
+  if (loading && !history) return <div className="text-xs text-gray-500">Loading history...</div>;
+  if (error) return <div className="text-xs text-red-600">{error}</div>;
+  if (!history) return null;
+
+  const lastTouched = history.blame.reduce<BlameLine | null>((latest, b) => (!latest || b.date > latest.date ? b : latest), null);
+
+  return (
+    <div className="border-t border-gray-200 mt-3 pt-3 space-y-3 text-xs">
+      <div className="flex items-center justify-between">
+        <div className="text-gray-600">
+          {history.filePath}:{history.startLine}
+          {history.endLine !== history.startLine ? `-${history.endLine}` : ""}
+          {lastTouched && (
+            <span>
+              {" "}· last touched by <strong>{lastTouched.author}</strong> on {new Date(lastTouched.date).toLocaleDateString()}
+            </span>
+          )}
+        </div>
+        {history.shallow && (
+          <button
+            className="bg-gray-100 text-gray-700 rounded px-2 py-1 hover:bg-gray-200 disabled:opacity-50"
+            onClick={() => load(true)}
+            disabled={loading}
+          >
+            {loading ? "Fetching..." : "Load full history"}
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-1">
+        {history.commits.map((c) => (
+          <div key={c.commit} className="border-l-2 border-blue-300 pl-2">
+            <div className="flex items-center gap-2 cursor-pointer" onClick={() => setOpenPatch(openPatch === c.commit ? null : c.commit)}>
+              <code className="text-blue-700">{c.commit.slice(0, 7)}</code>
+              <span className="text-gray-800 truncate">{c.message}</span>
+              <span className="text-gray-500 whitespace-nowrap">
+                {c.author} · {new Date(c.date).toLocaleDateString()}
+              </span>
+            </div>
+            {openPatch === c.commit && (
+              <pre className="bg-gray-50 rounded p-2 mt-1 whitespace-pre-wrap break-words">
+                {c.patch.split("\n").map((l, i) => (
+                  <div key={i} className={l.startsWith("+") ? "text-green-700" : l.startsWith("-") ? "text-red-700" : "text-gray-600"}>
+                    {l}
+                  </div>
+                ))}
+              </pre>
+            )}
+          </div>
+        ))}
+        {history.shallow && history.commits.length <= 1 && (
+          <div className="text-gray-400">History is truncated by a shallow clone.</div>
+        )}
+      </div>
+
+      <div>
+        <div className="font-medium text-gray-700 mb-1">Blame</div>
+        <div className="bg-gray-50 rounded p-2 font-mono overflow-x-auto">
+          {history.blame.map((b) => (
+            <div key={b.line} className="flex gap-2 whitespace-pre">
+              <span className="text-gray-400 w-8 text-right">{b.line}</span>
+              <span className="text-blue-700">{b.commit.slice(0, 7)}</span>
+              <span className="text-gray-500 w-24 truncate">{b.author}</span>
+              <span className="text-gray-800">{b.content}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+"use client";
+
+import { useState } from "react";
+
+type CallSiteTokens = {
+  filePath: string;
+  line: number;
+  functionName: string | null;
+  callSignature: string | null;
+  provider: string | null;
+  prompts: number;
+  tokens: number;
+  systemTokens: number;
+  costPerCall: Record<string, number>;
+};
+
+type FileTokens = { filePath: string; prompts: number; tokens: number; systemTokens: number };
+
+export type TokenSummary = {
+  tokenizer: string;
+  tokenizers: string[];
+  totalTokens: number;
+  prompts: number;
+  byFile: FileTokens[];
+  byCallSite: CallSiteTokens[];
+  prices: Record<string, { input: number; tokenizer?: string }>;
+};
+
+const ROWS = 15;
+
+function formatUsd(value: number): string {
+  return value >= 0.01 ? `$${value.toFixed(2)}` : `$${value.toPrecision(2)}`;
+}
+
+export default function TokenUsagePanel({ summary }: { summary: TokenSummary }) {
+  const [view, setView] = useState<"callSite" | "file">("callSite");
+  const models = Object.keys(summary.prices);
+  const [model, setModel] = useState(models[0] ?? "");
+  const [callsPerDay, setCallsPerDay] = useState(1000);
+
+  const sites = summary.byCallSite.slice(0, ROWS);
+  const files = summary.byFile.slice(0, ROWS);
+  const dailyCost = summary.byCallSite.reduce((sum, s) => sum + (s.costPerCall[model] ?? 0) * callsPerDay, 0);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between flex-wrap gap-2">
+        <h2 className="text-xl font-semibold text-gray-800">Prompt Tokens</h2>
+        <div className="flex items-center gap-2 text-xs">
+          <select className="border border-gray-300 rounded px-2 py-1" value={view} onChange={(e) => setView(e.target.value as "callSite" | "file")}>
+            <option value="callSite">By call site</option>
+            <option value="file">By file</option>
+          </select>
+          <select className="border border-gray-300 rounded px-2 py-1" value={model} onChange={(e) => setModel(e.target.value)}>
+            {models.map((m) => (
+              <option key={m} value={m}>
+                {m} (${summary.prices[m].input}/M)
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <div className="text-sm text-gray-600">
+        {summary.totalTokens.toLocaleString()} tokens across {summary.prompts} prompts ({summary.tokenizer}). At{" "}
+        <input
+          type="number"
+          min={0}
+          className="w-24 border border-gray-300 rounded px-1"
+          value={callsPerDay}
+          onChange={(e) => setCallsPerDay(Math.max(0, Number(e.target.value) || 0))}
+        />{" "}
+        calls per call site per day, prompt input costs about <span className="font-semibold">{formatUsd(dailyCost)}</span> per day on {model}.
+      </div>
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b">
+              <th className="py-1 pr-4">{view === "callSite" ? "Call site" : "File"}</th>
+              <th className="py-1 pr-4 text-right">Prompts</th>
+              <th className="py-1 pr-4 text-right">Tokens</th>
+              <th className="py-1 pr-4 text-right">System</th>
+              {view === "callSite" && <th className="py-1 text-right">Per call</th>}
+            </tr>
+          </thead>
+          <tbody>
+            {view === "callSite"
+              ? sites.map((s, index) => (
+                  <tr key={index} className="border-b border-gray-100">
+                    <td className="py-1 pr-4 font-mono text-xs truncate max-w-md" title={s.filePath}>
+                      {s.filePath.split("/").pop()}:{s.line}
+                      {s.functionName ? ` (${s.functionName})` : ""}
+                    </td>
+                    <td className="py-1 pr-4 text-right">{s.prompts}</td>
+                    <td className="py-1 pr-4 text-right">{s.tokens.toLocaleString()}</td>
+                    <td className="py-1 pr-4 text-right">{s.systemTokens.toLocaleString()}</td>
+                    <td className="py-1 text-right">{formatUsd(s.costPerCall[model] ?? 0)}</td>
+                  </tr>
+                ))
+              : files.map((f, index) => (
+                  <tr key={index} className="border-b border-gray-100">
+                    <td className="py-1 pr-4 font-mono text-xs truncate max-w-md" title={f.filePath}>
+                      {f.filePath}
+                    </td>
+                    <td className="py-1 pr-4 text-right">{f.prompts}</td>
+                    <td className="py-1 pr-4 text-right">{f.tokens.toLocaleString()}</td>
+                    <td className="py-1 pr-4 text-right">{f.systemTokens.toLocaleString()}</td>
+                  </tr>
+                ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { analyzePromptContext } from "@/lib/analyzePrompts";
+import type { ModelProvider } from "@/lib/modelProvider";
+import type { PromptKeywordHit } from "@/lib/promptKeywordScan";
+
+const valid = JSON.stringify({ summary: "ok", files: [] });
+
+// Every request costs 10 input and 1 output tokens; `reply` picks the text by request
+function scriptedProvider(reply: (user: string) => string): ModelProvider & { requests: number } {
+  return {
+    id: "mock",
+    model: "test",
+    requests: 0,
+    async complete(request) {
+      this.requests += 1;
+      return { text: reply(request.user), provider: "mock", model: "test", usage: { inputTokens: 10, outputTokens: 1 } };
+    },
+  };
+}
+
+const hits: PromptKeywordHit[] = ["a", "b", "c"].map((dir) => ({
+  filePath: `${dir}/prompts.py`,
+  line: 1,
+  column: 1,
+  matchLabel: "system prompt",
+  snippet: "x".repeat(300),
+}));
+
+test("usage and attempts count every request, including rejected and repaired replies", async () => {
+  // Slice 1 is rejected twice, slice 2 is repaired, slice 3 and the merge are valid at once
+  const provider = scriptedProvider((user) => {
+    if (user.includes("slice 1 of")) return "not json";
+    if (user.includes("slice 2 of") && !user.includes("Your previous reply")) return "not json";
+    return valid;
+  });
+  const analysis = await analyzePromptContext({ hits, python: [], fileTree: null, provider, chunkTokens: 120 });
+
+  assert.deepEqual(
+    analysis.chunks?.map((c) => [c.status, c.attempts, c.usage?.inputTokens]),
+    [
+      ["failed", 2, 20],
+      ["ok", 2, 20],
+      ["ok", 1, 10],
+    ]
+  );
+  assert.equal(provider.requests, 6);
+  assert.deepEqual(analysis.usage, { inputTokens: 60, outputTokens: 6 });
+});
+
+test("the request for a repository without evidence is counted", async () => {
+  const provider = scriptedProvider(() => valid);
+  const analysis = await analyzePromptContext({ hits: [], python: [], fileTree: null, provider });
+  assert.equal(provider.requests, 1);
+  assert.deepEqual(analysis.usage, { inputTokens: 10, outputTokens: 1 });
+});
+
+test("chunks over the cap are reported with the evidence they held", async () => {
+  const provider = scriptedProvider(() => valid);
+  const analysis = await analyzePromptContext({ hits, python: [], fileTree: null, provider, chunkTokens: 120, maxChunks: 2 });
+  assert.equal(analysis.chunks?.length, 2);
+  assert.equal(analysis.skippedChunks, 1);
+  assert.deepEqual(analysis.skippedEvidence, { files: 1, hits: 1, prompts: 0 });
+});
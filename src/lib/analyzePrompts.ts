@@ -1,5 +1,48 @@
+import { z } from "zod";
+import { dirname } from "node:path";
 import type { PromptKeywordHit } from "@/lib/promptKeywordScan";
 import type { PythonPrompt } from "@/lib/extract/pythonExtractor";
+import { redactText } from "@/lib/redact";
+import { ModelProviderError, type ChatCompletion, type ModelProvider } from "@/lib/modelProvider";
+
+const analysisFileSchema = z.object({
+  filePath: z.string().min(1),
+  count: z.coerce.number().int().nonnegative(),
+  reasoning: z.string().optional(),
+});
+
+const redundancySchema = z.object({ filePath: z.string(), description: z.string().min(1) });
+
+// Shape every map-step reply must have
+const chunkReplySchema = z.object({
+  summary: z.string().min(1),
+  logic: z.string().optional(),
+  files: z.array(analysisFileSchema),
+  redundancies: z.array(redundancySchema).optional(),
+});
+
+// Reduce-step replies only merge prose; file counts are merged from the chunks without the model
+const mergeReplySchema = z.object({
+  summary: z.string().min(1),
+  logic: z.string().optional(),
+  redundancies: z.array(redundancySchema).optional(),
+});
+
+export type AnalysisChunk = {
+  index: number;
+  scope: string; // common directory of the files in the chunk
+  files: number;
+  hits: number;
+  prompts: number;
+  estimatedTokens: number;
+  provider: string;
+  model: string;
+  attempts: number; // requests sent for the chunk: 2 when the first reply had to be repaired
+  status: "ok" | "failed";
+  summary?: string;
+  error?: string;
+  usage?: { inputTokens: number; outputTokens: number };
+};
 
 export type PromptModelAnalysis = {
   summary: string;
@@ -10,6 +53,10 @@ export type PromptModelAnalysis = {
     reasoning?: string;
   }>;
   redundancies?: Array<{ filePath: string; description: string }>;
+  chunks?: AnalysisChunk[]; // per-chunk provenance of the map step
+  skippedChunks?: number; // chunks beyond the chunk cap that were not sent
+  skippedEvidence?: { files: number; hits: number; prompts: number }; // what those chunks held; absent when none
+  usage?: { inputTokens: number; outputTokens: number }; // summed over every request, repairs included
 };
 
 type FileTreeNodeLite = {
@@ -19,6 +66,17 @@ type FileTreeNodeLite = {
   children?: FileTreeNodeLite[];
 };
 
+const DEFAULT_CHUNK_TOKENS = 12_000;
+const DEFAULT_MAX_CHUNKS = 40;
+const MAX_SNIPPET_CHARS = 400;
+const MAX_PROMPT_CHARS = 1500;
+const REPLY_TOKENS = 2048;
+
+// Same rough 4-characters-per-token estimate the mock provider reports
+function estimateTokens(value: string): number {
+  return Math.ceil(value.length / 4);
+}
+
 function flattenFileTree(root: FileTreeNodeLite | null, maxDepth = 3, maxItems = 400): string[] {
   if (!root) return [];
   const out: string[] = [];
@@ -37,70 +95,338 @@ function flattenFileTree(root: FileTreeNodeLite | null, maxDepth = 3, maxItems =
   return out;
 }
 
+type Evidence =
+  | { kind: "hit"; filePath: string; line: number; label: string; snippet: string }
+  | {
+      kind: "prompt";
+      filePath: string;
+      line: number;
+      role: string;
+      text: string;
+      functionName: string | null;
+      callSignature: string | null;
+    };
+
+const omitKind = (key: string, value: unknown) => (key === "kind" ? undefined : value);
+
+type Chunk = { scope: string; files: string[]; evidence: Evidence[]; tokens: number };
+
+function commonAncestor(dirs: string[]): string {
+  if (dirs.length === 0) return "";
+  let prefix = dirs[0];
+  for (const dir of dirs.slice(1)) {
+    while (prefix && prefix !== "/" && prefix !== "." && !`${dir}/`.startsWith(`${prefix}/`)) prefix = dirname(prefix);
+  }
+  return prefix;
+}
+
+// Packs evidence into chunks under the token budget. Files are visited in path order so a directory stays
+// together where it fits; a file larger than the budget is split across chunks on its own.
+function buildChunks(evidence: Evidence[], budget: number): Chunk[] {
+  const byFile = new Map<string, Evidence[]>();
+  for (const item of evidence) byFile.set(item.filePath, [...(byFile.get(item.filePath) ?? []), item]);
+
+  const chunks: Chunk[] = [];
+  let current: Chunk = { scope: "", files: [], evidence: [], tokens: 0 };
+  const flush = () => {
+    if (current.evidence.length === 0) return;
+    chunks.push({ ...current, scope: commonAncestor(current.files.map((f) => dirname(f))) });
+    current = { scope: "", files: [], evidence: [], tokens: 0 };
+  };
+
+  for (const filePath of [...byFile.keys()].sort()) {
+    const items = (byFile.get(filePath) ?? []).sort((a, b) => a.line - b.line);
+    const sizes = items.map((item) => estimateTokens(JSON.stringify(item)));
+    const fileTokens = sizes.reduce((sum, n) => sum + n, 0);
+    if (current.tokens + fileTokens > budget) flush();
+    for (let i = 0; i < items.length; i += 1) {
+      if (current.tokens + sizes[i] > budget) flush();
+      if (!current.files.includes(filePath)) current.files.push(filePath);
+      current.evidence.push(items[i]);
+      current.tokens += sizes[i];
+    }
+  }
+  flush();
+  return chunks;
+}
+
+// Models often wrap JSON in prose or code fences; take the outermost object and let the schema decide
+function extractJson(text: string): unknown {
+  const fenced = /```(?:json)?\s*([\s\S]*?)```/i.exec(text);
+  const candidate = fenced ? fenced[1] : text;
+  try {
+    return JSON.parse(candidate);
+  } catch {
+    const first = candidate.indexOf("{");
+    const last = candidate.lastIndexOf("}");
+    if (first === -1 || last <= first) throw new Error("Reply does not contain a JSON object");
+    return JSON.parse(candidate.slice(first, last + 1));
+  }
+}
+
+type ValidatedReply<T> = { value: T; usage?: ChatCompletion["usage"] };
+type RequestTally = { requests: number; usage?: ChatCompletion["usage"] };
+
+function addUsage(a?: ChatCompletion["usage"], b?: ChatCompletion["usage"]): ChatCompletion["usage"] {
+  if (!a) return b;
+  if (!b) return a;
+  return { inputTokens: a.inputTokens + b.inputTokens, outputTokens: a.outputTokens + b.outputTokens };
+}
+
+// Sends the request and validates the reply; an invalid reply gets one repair request quoting the problem.
+// `sent` tallies the requests made and their usage, so callers can record both even when this throws.
+async function completeValidated<T>(
+  provider: ModelProvider,
+  schema: z.ZodType<T>,
+  request: { system: string; user: string; signal?: AbortSignal },
+  sent: RequestTally = { requests: 0 }
+): Promise<ValidatedReply<T>> {
+  sent.requests += 1;
+  const first = await provider.complete({ ...request, temperature: 0.1, maxTokens: REPLY_TOKENS });
+  sent.usage = addUsage(sent.usage, first.usage);
+  const checked = validateReply(schema, first.text);
+  if (checked.ok) return { value: checked.value, usage: first.usage };
+
+  sent.requests += 1;
+  const repair = await provider.complete({
+    system: request.system,
+    user: [
+      request.user,
+      "",
+      "Your previous reply was:",
+      first.text.slice(0, 8000),
+      "",
+      `It was rejected: ${checked.error}`,
+      "Reply again with only the corrected JSON object, no prose or code fences.",
+    ].join("\n"),
+    temperature: 0,
+    maxTokens: REPLY_TOKENS,
+    signal: request.signal,
+  });
+  sent.usage = addUsage(sent.usage, repair.usage);
+  const repaired = validateReply(schema, repair.text);
+  if (!repaired.ok) {
+    throw new ModelProviderError(`Model reply failed validation after a repair attempt: ${repaired.error}`, repair.provider, "invalid_response");
+  }
+  return { value: repaired.value, usage: addUsage(first.usage, repair.usage) };
+}
+
+function validateReply<T>(schema: z.ZodType<T>, text: string): { ok: true; value: T } | { ok: false; error: string } {
+  let json: unknown;
+  try {
+    json = extractJson(text);
+  } catch (error: unknown) {
+    return { ok: false, error: `not valid JSON (${error instanceof Error ? error.message : String(error)})` };
+  }
+  const parsed = schema.safeParse(json);
+  if (parsed.success) return { ok: true, value: parsed.data };
+  const issues = parsed.error.issues.slice(0, 5).map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`);
+  return { ok: false, error: issues.join("; ") };
+}
+
+const SCHEMA_HINT =
+  "Respond with only a JSON object: {summary: string, logic: string, files: [{filePath, count, reasoning?}], redundancies: [{filePath, description}]}.";
+
+const MAP_SYSTEM = [
+  "You are a senior code analyst.",
+  "You are given one slice of a codebase's prompt artifacts (keyword hits and extracted prompts), grouped by file.",
+  "Explain how prompts are used in this slice: where they are defined or assembled, how messages compose, and any redundancies or duplicates.",
+  "Be conservative; do not hallucinate. Base claims on the provided snippets and paths. Use the file paths exactly as given.",
+  SCHEMA_HINT,
+].join(" ");
+
+const REDUCE_SYSTEM = [
+  "You are a senior code analyst.",
+  "You are given summaries of several slices of one codebase, each produced from that slice's prompt artifacts, plus a sample of the file tree.",
+  "Merge them into one concise explanation of how prompts are used across the codebase: overall prompt flow, where prompts are defined, how messages compose, and redundancies across slices.",
+  "Do not invent details that no slice mentions.",
+  "Respond with only a JSON object: {summary: string, logic: string, redundancies: [{filePath, description}]}.",
+].join(" ");
+
+type SliceSummary = { summary: string; logic?: string; redundancies: Array<{ filePath: string; description: string }>; scope: string };
+
+// Merges partial summaries, in batches when they do not fit in one request, until one is left
+async function reducePartials(
+  provider: ModelProvider,
+  partials: SliceSummary[],
+  filePaths: string[],
+  budget: number,
+  signal?: AbortSignal
+): Promise<{ partial: SliceSummary; usage?: ChatCompletion["usage"] }> {
+  let level = partials;
+  let usage: ChatCompletion["usage"];
+  while (level.length > 1) {
+    const batches: SliceSummary[][] = [];
+    let batch: SliceSummary[] = [];
+    let tokens = 0;
+    for (const p of level) {
+      const size = estimateTokens(JSON.stringify(p));
+      if (batch.length >= 2 && tokens + size > budget) {
+        batches.push(batch);
+        batch = [];
+        tokens = 0;
+      }
+      batch.push(p);
+      tokens += size;
+    }
+    batches.push(batch);
+
+    const next: SliceSummary[] = [];
+    for (const group of batches) {
+      if (group.length === 1) {
+        next.push(group[0]);
+        continue;
+      }
+      const user = `CONTEXT:\n- FILE_PATHS_SAMPLE: ${JSON.stringify(filePaths)}\n- SLICE_SUMMARIES: ${JSON.stringify(group)}\n`;
+      const reply = await completeValidated(provider, mergeReplySchema, { system: REDUCE_SYSTEM, user, signal });
+      usage = addUsage(usage, reply.usage);
+      next.push({
+        summary: reply.value.summary,
+        logic: reply.value.logic,
+        redundancies: reply.value.redundancies ?? [],
+        scope: commonAncestor(group.map((p) => p.scope)),
+      });
+    }
+    level = next;
+  }
+  return { partial: level[0], usage };
+}
+
+function mergeFiles(replies: Array<z.infer<typeof chunkReplySchema>>): PromptModelAnalysis["files"] {
+  const merged = new Map<string, { filePath: string; count: number; reasoning?: string }>();
+  for (const reply of replies) {
+    for (const file of reply.files) {
+      const existing = merged.get(file.filePath);
+      if (existing) {
+        existing.count += file.count;
+        existing.reasoning = existing.reasoning ?? file.reasoning;
+      } else {
+        merged.set(file.filePath, { ...file });
+      }
+    }
+  }
+  return [...merged.values()].sort((a, b) => b.count - a.count || a.filePath.localeCompare(b.filePath));
+}
+
+// Map-reduce analysis: evidence is chunked per file and directory within a token budget, each chunk is summarised
+// with a schema-validated reply, then the chunk summaries are merged. Failed chunks are recorded and skipped;
+// throws ModelProviderError only when every chunk fails (or the merge does).
 export async function analyzePromptContext(input: {
   hits: PromptKeywordHit[];
   python: PythonPrompt[];
+  typescript?: PythonPrompt[];
   fileTree: FileTreeNodeLite | null;
-}): Promise<PromptModelAnalysis | null> {
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) return null;
-
-  const hits = input.hits.slice(0, 200).map((h) => ({
-    filePath: h.filePath,
-    line: h.line,
-    label: h.matchLabel,
-    snippet: h.snippet.slice(0, 400),
-  }));
-  const python = (input.python || []).slice(0, 150).map((p) => ({
-    role: p.role,
-    text: (p.text || "").slice(0, 500),
-    filePath: p.filePath,
-    line: p.line,
-    functionName: p.functionName || null,
-    callSignature: p.callSignature || null,
-  }));
+  provider: ModelProvider;
+  chunkTokens?: number;
+  maxChunks?: number;
+  known?: string[]; // raw values of the scan's secret findings; the rules that found some do not fire on a re-scan
+  onChunk?: (done: number, total: number) => void;
+  signal?: AbortSignal;
+}): Promise<PromptModelAnalysis> {
+  const budget = input.chunkTokens ?? DEFAULT_CHUNK_TOKENS;
+  const maxChunks = input.maxChunks ?? DEFAULT_MAX_CHUNKS;
+  // Everything is redacted before chunking; never forward secrets to the model provider
+  const evidence: Evidence[] = [
+    ...input.hits.map((h) => ({
+      kind: "hit" as const,
+      filePath: h.filePath,
+      line: h.line,
+      label: h.matchLabel,
+      snippet: redactText(h.snippet, input.known).slice(0, MAX_SNIPPET_CHARS),
+    })),
+    ...[...(input.python || []), ...(input.typescript || [])].map((p) => ({
+      kind: "prompt" as const,
+      filePath: p.filePath,
+      line: p.line,
+      role: p.role,
+      text: redactText(p.text || "", input.known).slice(0, MAX_PROMPT_CHARS),
+      functionName: p.functionName || null,
+      callSignature: p.callSignature || null,
+    })),
+  ];
   const filePaths = flattenFileTree(input.fileTree, 3, 400);
 
-  const system = [
-    "You are a senior code analyst.",
-    "Given prompt artifacts and a file tree, synthesize a concise explanation of how prompts are used across the codebase.",
-    "Focus on: (1) overall prompt flow/logic, (2) where prompts are defined/assembled, (3) how messages compose together, (4) redundancies or duplicates.",
-    "Be conservative; do not hallucinate. Base claims on provided snippets and paths.",
-    "Respond as JSON with keys: {summary: string, logic: string, files: [{filePath, count, reasoning?}], redundancies: [{filePath, description}]}.",
-  ].join(" ");
+  const allChunks = buildChunks(evidence, budget);
+  const chunks = allChunks.slice(0, maxChunks);
+  const provenance: AnalysisChunk[] = [];
+  const replies: Array<z.infer<typeof chunkReplySchema>> = [];
+  const partials: SliceSummary[] = [];
+  let firstError: unknown = null;
+  let usage: ChatCompletion["usage"];
 
-  const user = `CONTEXT:\n- FILE_PATHS_SAMPLE: ${JSON.stringify(filePaths)}\n- PROMPT_HITS: ${JSON.stringify(hits)}\n- PYTHON_PROMPTS: ${JSON.stringify(python)}\n`;
-
-  try {
-    const res = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "content-type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model: process.env.OPENAI_MODEL || "gpt-4o-mini",
-        messages: [
-          { role: "system", content: system },
-          { role: "user", content: user },
-        ],
-        temperature: 0.1,
-      }),
-    });
-    const data = await res.json();
-    const content: string | undefined = data?.choices?.[0]?.message?.content;
-    if (!content) return null;
-    let jsonText = content;
-    const firstBrace = content.indexOf("{");
-    const lastBrace = content.lastIndexOf("}");
-    if (firstBrace !== -1 && lastBrace !== -1) {
-      jsonText = content.slice(firstBrace, lastBrace + 1);
+  for (const [index, chunk] of chunks.entries()) {
+    input.signal?.throwIfAborted();
+    const hits = chunk.evidence.filter((e) => e.kind === "hit");
+    const prompts = chunk.evidence.filter((e) => e.kind === "prompt");
+    const record: AnalysisChunk = {
+      index,
+      scope: chunk.scope,
+      files: chunk.files.length,
+      hits: hits.length,
+      prompts: prompts.length,
+      estimatedTokens: chunk.tokens,
+      provider: input.provider.id,
+      model: input.provider.model,
+      attempts: 0,
+      status: "ok",
+    };
+    const user = [
+      `CONTEXT (slice ${index + 1} of ${chunks.length}, directory ${chunk.scope || "."}):`,
+      `- PROMPT_HITS: ${JSON.stringify(hits, omitKind)}`,
+      `- PROMPTS: ${JSON.stringify(prompts, omitKind)}`,
+      "",
+    ].join("\n");
+    const sent: RequestTally = { requests: 0 };
+    try {
+      const reply = await completeValidated(input.provider, chunkReplySchema, { system: MAP_SYSTEM, user, signal: input.signal }, sent);
+      record.summary = reply.value.summary;
+      replies.push(reply.value);
+      partials.push({ summary: reply.value.summary, logic: reply.value.logic, redundancies: reply.value.redundancies ?? [], scope: chunk.scope });
+    } catch (error: unknown) {
+      input.signal?.throwIfAborted();
+      firstError = firstError ?? error;
+      record.status = "failed";
+      record.error = error instanceof Error ? error.message : String(error);
     }
-    const parsed = JSON.parse(jsonText) as PromptModelAnalysis;
-    if (!parsed?.summary || !Array.isArray(parsed?.files)) return null;
-    return parsed;
-  } catch {
-    return null;
+    // Rejected replies were still billed, so a failed chunk's requests count too
+    record.attempts = sent.requests;
+    record.usage = sent.usage;
+    usage = addUsage(usage, sent.usage);
+    provenance.push(record);
+    input.onChunk?.(index + 1, chunks.length);
   }
-}
 
+  if (chunks.length > 0 && partials.length === 0) throw firstError;
+
+  let merged: SliceSummary;
+  if (partials.length === 0) {
+    // No evidence at all: one request with just the file tree keeps the old behaviour for prompt-free repos
+    const user = `CONTEXT:\n- FILE_PATHS_SAMPLE: ${JSON.stringify(filePaths)}\n- PROMPT_HITS: []\n- PROMPTS: []\n`;
+    const reply = await completeValidated(input.provider, chunkReplySchema, { system: MAP_SYSTEM, user, signal: input.signal });
+    usage = addUsage(usage, reply.usage);
+    replies.push(reply.value);
+    merged = { summary: reply.value.summary, logic: reply.value.logic, redundancies: reply.value.redundancies ?? [], scope: "" };
+  } else {
+    const reduced = await reducePartials(input.provider, partials, filePaths, budget, input.signal);
+    merged = reduced.partial;
+    usage = addUsage(usage, reduced.usage);
+  }
+
+  const skipped = allChunks.slice(maxChunks);
+  return {
+    summary: merged.summary,
+    logic: merged.logic,
+    files: mergeFiles(replies),
+    redundancies: merged.redundancies,
+    chunks: provenance,
+    skippedChunks: skipped.length,
+    ...(skipped.length > 0 && {
+      skippedEvidence: {
+        files: new Set(skipped.flatMap((c) => c.files)).size,
+        hits: skipped.reduce((sum, c) => sum + c.evidence.filter((e) => e.kind === "hit").length, 0),
+        prompts: skipped.reduce((sum, c) => sum + c.evidence.filter((e) => e.kind === "prompt").length, 0),
+      },
+    }),
+    usage,
+  };
+}
@@ -0,0 +1,202 @@
+import { z } from "zod";
+
+export type ExtractorLanguage = "python" | "typescript";
+
+const roleSchema = z.enum(["system", "user", "assistant", "tool", "unknown"]);
+
+// Keyword arguments (Python) and option-object properties (JS/TS) are referenced by name;
+// positional arguments by their index as a string, e.g. "0".
+export const callSiteRuleSchema = z.object({
+  id: z.string().min(1),
+  provider: z.string().min(1),
+  languages: z.array(z.enum(["python", "typescript"])).optional(),
+  // Dotted callee suffixes; "*" matches any single segment
+  callees: z.array(z.string().min(1)).min(1),
+  // Arguments carrying a list of { role, content } messages (or LangChain ("role", "text") tuples)
+  messages: z.array(z.string()).optional().default([]),
+  // Arguments carrying a single prompt string and the role it plays
+  roles: z.record(z.string(), roleSchema).optional().default({}),
+  // Argument naming the role for fields mapped to "unknown", e.g. LlamaIndex ChatMessage(role=..., content=...)
+  roleFrom: z.string().optional(),
+});
+
+export const callSitesConfigSchema = z.object({
+  useDefaults: z.boolean().optional().default(true),
+  disable: z.array(z.string()).optional().default([]),
+  rules: z.array(callSiteRuleSchema).optional().default([]),
+});
+
+export type CallSiteRule = z.infer<typeof callSiteRuleSchema>;
+export type CallSitesConfig = z.infer<typeof callSitesConfigSchema>;
+
+export type CallSiteRegistry = {
+  rules: CallSiteRule[];
+};
+
+export const DEFAULT_CALL_SITE_RULES: CallSiteRule[] = [
+  {
+    id: "openai_chat_completions",
+    provider: "openai",
+    callees: ["chat.completions.create", "chat.completions.parse", "ChatCompletion.create", "ChatCompletion.acreate"],
+    messages: ["messages"],
+    roles: {},
+  },
+  {
+    id: "openai_responses",
+    provider: "openai",
+    callees: ["responses.create", "responses.parse", "responses.stream"],
+    messages: ["input"],
+    roles: { instructions: "system", input: "user" },
+  },
+  {
+    id: "anthropic_messages",
+    provider: "anthropic",
+    callees: ["messages.create", "messages.stream"],
+    messages: ["messages"],
+    roles: { system: "system" },
+  },
+  {
+    id: "litellm_completion",
+    provider: "litellm",
+    languages: ["python"],
+    callees: ["completion", "acompletion"],
+    messages: ["messages"],
+    roles: {},
+  },
+  {
+    id: "gemini_generate_content",
+    provider: "google",
+    callees: ["generate_content", "generate_content_async", "generateContent", "generateContentStream"],
+    messages: [],
+    roles: { "0": "user", contents: "user", system_instruction: "system", systemInstruction: "system" },
+  },
+  {
+    id: "gemini_model",
+    provider: "google",
+    callees: ["GenerativeModel", "getGenerativeModel"],
+    messages: [],
+    roles: { system_instruction: "system", systemInstruction: "system" },
+  },
+  {
+    id: "cohere_chat",
+    provider: "cohere",
+    languages: ["python"],
+    callees: ["co.chat", "cohere.chat", "Client.chat", "ClientV2.chat"],
+    messages: ["messages", "chat_history"],
+    roles: { message: "user", preamble: "system" },
+  },
+  {
+    id: "vercel_ai_sdk",
+    provider: "vercel-ai",
+    languages: ["typescript"],
+    callees: ["generateText", "streamText", "generateObject", "streamObject"],
+    messages: ["messages"],
+    roles: { system: "system", prompt: "user" },
+  },
+  {
+    id: "langchain_chat_prompt_template",
+    provider: "langchain",
+    callees: ["ChatPromptTemplate.from_messages", "ChatPromptTemplate.fromMessages"],
+    messages: ["0", "messages"],
+    roles: {},
+  },
+  {
+    id: "langchain_prompt_template",
+    provider: "langchain",
+    callees: ["PromptTemplate.from_template", "PromptTemplate.fromTemplate", "ChatPromptTemplate.from_template", "ChatPromptTemplate.fromTemplate"],
+    messages: [],
+    roles: { "0": "user", template: "user" },
+  },
+  {
+    id: "langchain_system_message",
+    provider: "langchain",
+    languages: ["python"],
+    callees: ["SystemMessage", "SystemMessagePromptTemplate.from_template"],
+    messages: [],
+    roles: { "0": "system", content: "system", template: "system" },
+  },
+  {
+    id: "langchain_human_message",
+    provider: "langchain",
+    languages: ["python"],
+    callees: ["HumanMessage", "HumanMessagePromptTemplate.from_template"],
+    messages: [],
+    roles: { "0": "user", content: "user", template: "user" },
+  },
+  {
+    id: "langchain_invoke",
+    provider: "langchain",
+    callees: ["llm.invoke", "llm.ainvoke", "model.invoke", "model.ainvoke", "chat.invoke"],
+    messages: ["0"],
+    roles: { "0": "user" },
+  },
+  {
+    id: "llamaindex_chat_message",
+    provider: "llamaindex",
+    languages: ["python"],
+    callees: ["ChatMessage"],
+    messages: [],
+    roles: { content: "unknown" },
+    roleFrom: "role",
+  },
+  {
+    id: "llamaindex_prompt_template",
+    provider: "llamaindex",
+    languages: ["python"],
+    callees: ["PromptTemplate", "ChatPromptTemplate"],
+    messages: ["message_templates"],
+    roles: { "0": "user", template: "user" },
+  },
+  {
+    id: "llamaindex_llm",
+    provider: "llamaindex",
+    languages: ["python"],
+    callees: ["llm.complete", "llm.acomplete", "llm.chat", "llm.achat"],
+    messages: ["0", "messages"],
+    roles: { "0": "user", prompt: "user" },
+  },
+  {
+    id: "dspy_signature",
+    provider: "dspy",
+    languages: ["python"],
+    callees: ["dspy.Predict", "dspy.ChainOfThought", "dspy.ReAct", "dspy.Signature"],
+    messages: [],
+    roles: { "0": "system", signature: "system", instructions: "system" },
+  },
+];
+
+export function buildCallSiteRegistry(config?: CallSitesConfig | null): CallSiteRegistry {
+  const useDefaults = config?.useDefaults ?? true;
+  const disabled = new Set(config?.disable ?? []);
+  const custom = config?.rules ?? [];
+  const customIds = new Set(custom.map((r) => r.id));
+  // Repo rules with a shipped id replace the default rather than adding a second matcher
+  const base = useDefaults ? DEFAULT_CALL_SITE_RULES.filter((r) => !customIds.has(r.id)) : [];
+  return { rules: [...base, ...custom].filter((r) => !disabled.has(r.id)) };
+}
+
+export function rulesForLanguage(registry: CallSiteRegistry, language: ExtractorLanguage): CallSiteRule[] {
+  return registry.rules.filter((r) => !r.languages || r.languages.includes(language));
+}
+
+function calleeMatches(pattern: string[], callee: string[]): boolean {
+  if (callee.length < pattern.length) return false;
+  const offset = callee.length - pattern.length;
+  return pattern.every((seg, i) => seg === "*" || seg === callee[offset + i]);
+}
+
+// Picks the rule with the most specific (longest) matching callee pattern
+export function matchCallSite(rules: CallSiteRule[], callee: string[]): CallSiteRule | null {
+  let best: CallSiteRule | null = null;
+  let bestLength = 0;
+  for (const rule of rules) {
+    for (const pattern of rule.callees) {
+      const segs = pattern.split(".");
+      if (segs.length > bestLength && calleeMatches(segs, callee)) {
+        best = rule;
+        bestLength = segs.length;
+      }
+    }
+  }
+  return best;
+}
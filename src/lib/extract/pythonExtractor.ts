@@ -1,6 +1,11 @@
 import { spawn } from "node:child_process";
+import { createHash } from "node:crypto";
 import { promises as fs } from "node:fs";
 import { join } from "node:path";
+import { buildCallSiteRegistry, rulesForLanguage, type CallSiteRegistry } from "@/lib/extract/callSiteRegistry";
+import type { TokenCounts } from "@/lib/tokenCount";
+import type { PromptTemplate } from "@/lib/promptTemplate";
+import { openTraversal } from "@/lib/traversal";
 
 export type PythonPrompt = {
   role: "system" | "user" | "assistant" | "tool" | "unknown";
@@ -9,38 +14,271 @@ export type PythonPrompt = {
   line: number;
   functionName?: string;
   callSignature?: string;
+  provider?: string;
+  // Definition site of the text when it was resolved through a variable or imported constant
+  resolvedFrom?: { filePath: string; line: number; name: string };
+  // Token counts per tokenizer, added by the scan after extraction
+  tokens?: TokenCounts;
+  // Template syntax, variables and skeleton; the extractor fills in what the AST shows, annotatePromptTemplates the rest
+  template?: PromptTemplate;
 };
 
-export async function ensurePythonScript(tempDir: string): Promise<string> {
-  const scriptPath = join(tempDir, "python_prompt_extractor.py");
-  const script = `
+// Raw static call graph from the same AST pass; promptGraph.ts turns it into the prompt flow graph
+export type PythonCallGraph = {
+  modules: Array<{ name: string; filePath: string }>;
+  // id is "<module>:<qualified name>", e.g. "app.agent:Agent.run"
+  functions: Array<{ id: string; module: string; name: string; filePath: string; line: number }>;
+  // from is null for module-level code
+  calls: Array<{ from: string | null; module: string; to: string; line: number }>;
+  llmCalls: Array<{
+    id: string;
+    filePath: string;
+    line: number;
+    function: string | null;
+    module: string;
+    callSignature: string;
+    provider: string;
+    inLoop: boolean;
+  }>;
+  // Functions whose return value flows into the messages/prompt arguments of an LLM call
+  assembles: Array<{ from: string; to: string; line: number }>;
+};
+
+export type PythonExtraction = { prompts: PythonPrompt[]; graph: PythonCallGraph };
+
+// What one file contributes to the extraction; the scan cache keeps these per file
+export type PythonFileFragment = {
+  prompts: PythonPrompt[];
+  calls: PythonCallGraph["calls"];
+  llmCalls: PythonCallGraph["llmCalls"];
+  assembles: PythonCallGraph["assembles"];
+};
+
+// Raw output of one extractor run: the whole project's index plus fragments for the files it visited
+export type PythonProjectIndex = {
+  modules: PythonCallGraph["modules"];
+  functions: PythonCallGraph["functions"]; // every definition, referenced or not
+  files: Record<string, PythonFileFragment>;
+};
+
+const EXTRACTOR_SCRIPT = `
 import ast
 import json
+import re
 import sys
 import os
 
-LLM_CALLEE_NAMES = {
-    ("openai", "ChatCompletion", "create"),
-    ("openai", "chat", "completions", "create"),
-    ("client", "chat", "completions", "create"),
-    ("anthropic", "messages", "create"),
-    ("llm", "invoke"),
+ROLE_ALIASES = {
+    "system": "system", "developer": "system",
+    "user": "user", "human": "user",
+    "assistant": "assistant", "ai": "assistant", "model": "assistant", "chatbot": "assistant",
+    "tool": "tool", "function": "tool",
 }
 
+MAX_RESOLVE_DEPTH = 12
+PERCENT_FIELD = re.compile(r"%(?:\\((\\w+)\\))?[-#0 +]*\\d*(?:\\.\\d+)?[sdifrxXeEgGc]")
+FORMAT_FIELD = re.compile(r"\\{([^{}]*)\\}")
+
+
+def load_rules(path):
+    # Call-site registry written by the TS side; see callSiteRegistry.ts for the rule shape
+    with open(path, 'r', encoding='utf-8') as f:
+        rules = json.load(f)
+    for rule in rules:
+        rule["segments"] = [tuple(c.split(".")) for c in rule["callees"]]
+    return rules
+
+
+def match_rule(rules, callee):
+    best = None
+    best_len = 0
+    for rule in rules:
+        for pattern in rule["segments"]:
+            n = len(pattern)
+            if n <= best_len or len(callee) < n:
+                continue
+            tail = callee[-n:]
+            if all(p == "*" or p == c for p, c in zip(pattern, tail)):
+                best = rule
+                best_len = n
+    return best
+
+
+def normalize_role(value):
+    if not value:
+        return "unknown"
+    # MessageRole.SYSTEM and similar enum members render as their last segment
+    return ROLE_ALIASES.get(value.split(".")[-1].lower(), "unknown")
+
+
+def _walk_scope(body):
+    # Yield nodes of a statement list without descending into nested functions or classes
+    stack = list(reversed(body))
+    while stack:
+        node = stack.pop()
+        yield node
+        if isinstance(node, (ast.FunctionDef, ast.AsyncFunctionDef, ast.ClassDef, ast.Lambda)):
+            continue
+        stack.extend(reversed(list(ast.iter_child_nodes(node))))
+
+
+def collect_assignments(body):
+    """Map simple name bindings in a statement list to (value node, line), following += on strings."""
+    bindings = {}
+    for node in _walk_scope(body):
+        if isinstance(node, ast.Assign):
+            for target in node.targets:
+                if isinstance(target, ast.Name):
+                    bindings[target.id] = (node.value, node.lineno)
+        elif isinstance(node, ast.AnnAssign) and node.value is not None and isinstance(node.target, ast.Name):
+            bindings[node.target.id] = (node.value, node.lineno)
+        elif isinstance(node, ast.AugAssign) and isinstance(node.op, ast.Add) and isinstance(node.target, ast.Name):
+            prev = bindings.get(node.target.id)
+            if prev is not None:
+                combined = ast.BinOp(left=prev[0], op=ast.Add(), right=node.value)
+                ast.copy_location(combined, node)
+                bindings[node.target.id] = (combined, prev[1])
+    return bindings
+
+
+def collect_definitions(body, prefix=""):
+    """Map qualified names of functions (Class.method, outer.inner) to their line, plus the set of class names."""
+    defs = {}
+    classes = set()
+    for node in body:
+        if isinstance(node, (ast.FunctionDef, ast.AsyncFunctionDef)):
+            defs[prefix + node.name] = node.lineno
+            inner_defs, inner_classes = collect_definitions(node.body, prefix + node.name + ".")
+        elif isinstance(node, ast.ClassDef):
+            classes.add(prefix + node.name)
+            inner_defs, inner_classes = collect_definitions(node.body, prefix + node.name + ".")
+        else:
+            # Definitions under if/try/with at the same level keep the current prefix
+            inner_defs, inner_classes = collect_definitions([c for c in ast.iter_child_nodes(node) if isinstance(c, ast.stmt)], prefix)
+        defs.update(inner_defs)
+        classes.update(inner_classes)
+    return defs, classes
+
+
+class ModuleInfo:
+    def __init__(self, file_path, module_name, source, tree):
+        self.file_path = file_path
+        self.module_name = module_name
+        self.source = source
+        self.tree = tree
+        self.is_package = os.path.basename(file_path) == "__init__.py"
+        self.constants = collect_assignments(tree.body)
+        self.defs, self.classes = collect_definitions(tree.body)
+        # local name -> (module name, attribute or None for whole-module imports)
+        self.imports = {}
+        for node in ast.walk(tree):
+            if isinstance(node, ast.ImportFrom):
+                base = self._absolute_module(node.module, node.level)
+                for alias in node.names:
+                    self.imports[alias.asname or alias.name] = (base, alias.name)
+            elif isinstance(node, ast.Import):
+                for alias in node.names:
+                    if alias.asname:
+                        self.imports[alias.asname] = (alias.name, None)
+                    else:
+                        self.imports[alias.name.split(".")[0]] = (alias.name.split(".")[0], None)
+
+    def _absolute_module(self, module, level):
+        if not level:
+            return module or ""
+        parts = self.module_name.split(".") if self.module_name else []
+        if not self.is_package:
+            parts = parts[:-1]
+        if level > 1:
+            parts = parts[: len(parts) - (level - 1)] if len(parts) >= level - 1 else []
+        if module:
+            parts = parts + module.split(".")
+        return ".".join(parts)
+
+
+class ProjectIndex:
+    def __init__(self):
+        self.modules = {}
+
+    def add(self, info):
+        self.modules[info.module_name] = info
+
+    def find(self, module_name):
+        if not module_name:
+            return None
+        if module_name in self.modules:
+            return self.modules[module_name]
+        # The scan root is not always the import root (e.g. src/ layouts), so fall back to suffix matches
+        suffix = "." + module_name
+        for name, info in self.modules.items():
+            if name.endswith(suffix):
+                return info
+        return None
+
+
 class PromptVisitor(ast.NodeVisitor):
-    def __init__(self, file_path):
+    def __init__(self, file_path, module=None, index=None, rules=None):
         self.file_path = file_path
+        self.rules = rules or []
+        self.module = module
+        self.index = index
         self.results = []
         self.func_stack = []
+        self.scope_stack = []
+        # Call graph: qualified names of enclosing functions/classes, and loop nesting per function
+        self.qual_stack = []
+        self.fn_quals = []
+        self.class_quals = []
+        self.loop_stack = [0]
+        # Parameters of the enclosing functions, and the template being collected by _extract_prompt
+        self.param_stack = []
+        self.template = None
+        self.calls = []
+        self.llm_calls = []
+        self.assembles = []
 
     def visit_FunctionDef(self, node):
         self.func_stack.append(node.name)
+        self.scope_stack.append(collect_assignments(node.body))
+        self.qual_stack.append(node.name)
+        self.fn_quals.append(".".join(self.qual_stack))
+        self.loop_stack.append(0)
+        args = node.args
+        params = [a.arg for a in args.posonlyargs + args.args + args.kwonlyargs]
+        params += [a.arg for a in (args.vararg, args.kwarg) if a is not None]
+        self.param_stack.append(set(params))
         self.generic_visit(node)
+        self.param_stack.pop()
+        self.loop_stack.pop()
+        self.fn_quals.pop()
+        self.qual_stack.pop()
+        self.scope_stack.pop()
         self.func_stack.pop()
 
     def visit_AsyncFunctionDef(self, node):
         self.visit_FunctionDef(node)
 
+    def visit_ClassDef(self, node):
+        self.qual_stack.append(node.name)
+        self.class_quals.append(".".join(self.qual_stack))
+        self.generic_visit(node)
+        self.class_quals.pop()
+        self.qual_stack.pop()
+
+    def _visit_loop(self, node):
+        self.loop_stack[-1] += 1
+        self.generic_visit(node)
+        self.loop_stack[-1] -= 1
+
+    def visit_For(self, node):
+        self._visit_loop(node)
+
+    def visit_AsyncFor(self, node):
+        self._visit_loop(node)
+
+    def visit_While(self, node):
+        self._visit_loop(node)
+
     def _callee_segments(self, node):
         segs = []
         while isinstance(node, ast.Attribute):
@@ -51,139 +289,639 @@ class PromptVisitor(ast.NodeVisitor):
         segs.reverse()
         return tuple(segs)
 
-    def _extract_string(self, node):
+    def _source(self, module, node):
+        text = None
+        if module is not None:
+            try:
+                text = ast.get_source_segment(module.source, node)
+            except Exception:
+                text = None
+        if not text:
+            try:
+                text = ast.unparse(node)
+            except Exception:
+                text = "?"
+        return text
+
+    def _lookup_in_module(self, module, name, depth):
+        if module is None or depth > MAX_RESOLVE_DEPTH:
+            return None
+        if name in module.constants:
+            value, line = module.constants[name]
+            return (value, module, {"filePath": module.file_path, "line": line, "name": name})
+        if name in module.imports and self.index is not None:
+            target_module, attr = module.imports[name]
+            if attr is None:
+                return None
+            target = self.index.find(target_module)
+            if target is None:
+                # "from pkg import prompts" imports a submodule rather than a constant
+                return None
+            return self._lookup_in_module(target, attr, depth + 1)
+        return None
+
+    def _resolve_name(self, module, name, scopes, depth):
+        for scope in reversed(scopes):
+            if name in scope:
+                value, line = scope[name]
+                return (value, module, {"filePath": module.file_path if module else self.file_path, "line": line, "name": name})
+        if module is None:
+            return None
+        return self._lookup_in_module(module, name, depth)
+
+    def _resolve_attribute(self, module, node, depth):
+        # prompts.SYSTEM_PROMPT where prompts is an imported module
+        if module is None or self.index is None or not isinstance(node.value, ast.Name):
+            return None
+        entry = module.imports.get(node.value.id)
+        if entry is None:
+            return None
+        target_module, attr = entry
+        target = self.index.find(target_module if attr is None else (target_module + "." + attr if target_module else attr))
+        if target is None:
+            return None
+        return self._lookup_in_module(target, node.attr, depth + 1)
+
+    def _resolve(self, node, module, scopes, depth):
+        """Follow names to their bound values. Returns (node, module, scopes, origin)."""
+        origin = None
+        while depth <= MAX_RESOLVE_DEPTH:
+            found = None
+            if isinstance(node, ast.Name):
+                found = self._resolve_name(module, node.id, scopes, depth)
+            elif isinstance(node, ast.Attribute):
+                found = self._resolve_attribute(module, node, depth)
+            if found is None:
+                break
+            value, value_module, origin = found
+            if value_module is not module:
+                scopes = []
+            node, module = value, value_module
+            depth += 1
+        return node, module, scopes, origin
+
+    def _render(self, node, module, scopes, depth=0):
+        """Render a string expression. Returns (text or None, origin or None)."""
+        if depth > MAX_RESOLVE_DEPTH:
+            return None, None
+        node, module, scopes, origin = self._resolve(node, module, scopes, depth)
         if isinstance(node, ast.Constant) and isinstance(node.value, str):
-            return node.value
+            return node.value, origin
         if isinstance(node, ast.JoinedStr):
             parts = []
+            if any(isinstance(v, ast.FormattedValue) for v in node.values):
+                self._note_syntax("f-string")
             for v in node.values:
                 if isinstance(v, ast.Constant) and isinstance(v.value, str):
                     parts.append(v.value)
-            return "".join(parts)
+                elif isinstance(v, ast.FormattedValue):
+                    parts.append(self._placeholder(v.value, module, scopes, depth))
+            return "".join(parts), origin
+        if isinstance(node, ast.BinOp) and isinstance(node.op, ast.Add):
+            left, left_origin = self._render(node.left, module, scopes, depth + 1)
+            right, right_origin = self._render(node.right, module, scopes, depth + 1)
+            if left is None and right is None:
+                return None, None
+            if left is None or right is None:
+                self._note_syntax("concat")
+            if left is None:
+                left = self._placeholder(node.left, module, scopes, depth, syntax="concat")
+            if right is None:
+                right = self._placeholder(node.right, module, scopes, depth, syntax="concat")
+            return left + right, origin or left_origin or right_origin
+        if isinstance(node, ast.BinOp) and isinstance(node.op, ast.Mod):
+            template, template_origin = self._render(node.left, module, scopes, depth + 1)
+            if template is None:
+                return None, None
+            self._note_syntax("percent")
+            return self._render_percent(template, node.right, module, scopes, depth), origin or template_origin
+        if isinstance(node, ast.Call) and isinstance(node.func, ast.Attribute):
+            if node.func.attr == "format":
+                template, template_origin = self._render(node.func.value, module, scopes, depth + 1)
+                if template is None:
+                    return None, None
+                self._note_syntax("format")
+                return self._render_format(template, node, module, scopes, depth), origin or template_origin
+            if node.func.attr == "join" and len(node.args) == 1:
+                sep, _ = self._render(node.func.value, module, scopes, depth + 1)
+                items, items_module, items_scopes, items_origin = self._resolve(node.args[0], module, scopes, depth + 1)
+                if sep is not None and isinstance(items, (ast.List, ast.Tuple)):
+                    rendered = [self._render(e, items_module, items_scopes, depth + 1)[0] for e in items.elts]
+                    if all(r is not None for r in rendered):
+                        return sep.join(rendered), origin or items_origin
+        return None, None
+
+    def _placeholder(self, value, module, scopes, depth, name=None, syntax="f-string"):
+        text, _ = self._render(value, module, scopes, depth + 1)
+        if text is not None:
+            return text
+        expression = self._source(module, value)
+        if self.template is None:
+            return "{" + expression + "}"
+        # The skeleton names a placeholder after its template field when it has one
+        self._note_variable(name or expression, expression, syntax, value, module, scopes)
+        return "{" + (name or expression) + "}"
+
+    def _note_syntax(self, syntax):
+        if self.template is not None and syntax not in self.template["syntaxes"]:
+            self.template["syntaxes"].append(syntax)
+
+    def _variable_source(self, value, module, scopes):
+        """Where a placeholder's value comes from: (kind, definition site or None)."""
+        if isinstance(value, ast.Name):
+            for scope in reversed(scopes):
+                if value.id in scope:
+                    return "local", {"filePath": module.file_path if module else self.file_path, "line": scope[value.id][1]}
+            if module is self.module and any(value.id in params for params in self.param_stack):
+                return "parameter", None
+            if module is not None and value.id in module.constants:
+                return "module", {"filePath": module.file_path, "line": module.constants[value.id][1]}
+            if module is not None and value.id in module.imports:
+                return "import", None
+            return "unknown", None
+        if isinstance(value, ast.Attribute):
+            return "attribute", None
+        if isinstance(value, ast.Call):
+            return "call", None
+        return "expression", None
+
+    def _note_variable(self, name, expression, syntax, value, module, scopes):
+        if self.template is None:
+            return
+        source, defined_at = ("template", None) if value is None else self._variable_source(value, module, scopes)
+        variable = {"name": name, "expression": expression, "syntax": syntax, "source": source}
+        if defined_at is not None:
+            variable["definedAt"] = defined_at
+        self.template["variables"].append(variable)
+
+    def _render_percent(self, template, args, module, scopes, depth):
+        args, module, scopes, _ = self._resolve(args, module, scopes, depth + 1)
+        if isinstance(args, ast.Dict):
+            named = {}
+            for k, v in zip(args.keys, args.values):
+                if isinstance(k, ast.Constant) and isinstance(k.value, str):
+                    named[k.value] = v
+            positional = []
+        else:
+            named = {}
+            positional = list(args.elts) if isinstance(args, ast.Tuple) else [args]
+        counter = [0]
+
+        def replace(match):
+            name = match.group(1)
+            if name:
+                value = named.get(name)
+                if value is not None:
+                    rendered, _ = self._render(value, module, scopes, depth + 1)
+                    if rendered is not None:
+                        return rendered
+                self._note_variable(name, self._source(module, value) if value is not None else None, "percent", value, module, scopes)
+                return "{" + name + "}"
+            idx = counter[0]
+            counter[0] += 1
+            if idx < len(positional):
+                return self._placeholder(positional[idx], module, scopes, depth, syntax="percent")
+            self._note_variable(str(idx), None, "percent", None, module, scopes)
+            return "{" + str(idx) + "}"
+
+        return PERCENT_FIELD.sub(replace, template.replace("%%", "\\0")).replace("\\0", "%")
+
+    def _render_format(self, template, call, module, scopes, depth):
+        named = {kw.arg: kw.value for kw in call.keywords if kw.arg}
+        positional = list(call.args)
+        counter = [0]
+
+        def replace(match):
+            field = match.group(1)
+            name = re.split(r"[.\\[!:]", field, maxsplit=1)[0]
+            value = None
+            if name == "":
+                idx = counter[0]
+                counter[0] += 1
+                value = positional[idx] if idx < len(positional) else None
+            elif name.isdigit():
+                idx = int(name)
+                value = positional[idx] if idx < len(positional) else None
+            else:
+                value = named.get(name)
+            if value is None:
+                # Left for a later .format()/partial() call to fill
+                self._note_variable(name or field, None, "format", None, module, scopes)
+                return "{" + (name or field) + "}"
+            return self._placeholder(value, module, scopes, depth, name=name if name and not name.isdigit() else None, syntax="format")
+
+        escaped = template.replace("{{", "\\0").replace("}}", "\\1")
+        return FORMAT_FIELD.sub(replace, escaped).replace("\\0", "{").replace("\\1", "}")
+
+    def _extract_string(self, node):
+        return self._render(node, self.module, self.scope_stack, 0)
+
+    def _extract_prompt(self, node):
+        """Like _extract_string, plus the template: syntax seen, variables and a skeleton with placeholders kept by name."""
+        text, origin = self._extract_string(node)
+        if not text:
+            return text, origin, None
+        self.template = {"syntaxes": [], "variables": []}
+        try:
+            skeleton, _ = self._render(node, self.module, self.scope_stack, 0)
+            template = self.template
+        finally:
+            self.template = None
+        template["skeleton"] = skeleton if skeleton is not None else text
+        return text, origin, template
+
+    def _role_value(self, node):
+        text, _ = self._extract_string(node)
+        if text is None:
+            node, _, _, _ = self._resolve(node, self.module, self.scope_stack, 0)
+            if isinstance(node, (ast.Attribute, ast.Name)):
+                text = ".".join(self._callee_segments(node))
+        return normalize_role(text)
+
+    def _add_result(self, role, text, origin, node, callee, rule, template=None):
+        item = {
+            "role": role,
+            "text": text,
+            "filePath": self.file_path,
+            "line": node.lineno,
+            "functionName": self.func_stack[-1] if self.func_stack else None,
+            "callSignature": ".".join(callee),
+            "provider": rule["provider"],
+        }
+        if origin is not None:
+            item["resolvedFrom"] = origin
+        if template is not None:
+            item["template"] = template
+        self.results.append(item)
+
+    def _extract_message_dict(self, d, node, callee, rule):
+        keys = [k.value if isinstance(k, ast.Constant) else None for k in d.keys]
+        if not keys or "role" not in keys or "content" not in keys:
+            return
+        role = None
+        text = None
+        origin = None
+        template = None
+        for k, v in zip(keys, d.values):
+            if k == "role":
+                role = self._role_value(v)
+            if k == "content":
+                text, origin, template = self._extract_prompt(v)
+        if text:
+            self._add_result(role or "unknown", text, origin, node, callee, rule, template)
+
+    def _extract_messages(self, value, node, callee, rule):
+        resolved, _, _, _ = self._resolve(value, self.module, self.scope_stack, 0)
+        if isinstance(resolved, ast.Dict):
+            self._extract_message_dict(resolved, node, callee, rule)
+            return True
+        if isinstance(resolved, (ast.List, ast.Tuple)):
+            for elt in resolved.elts:
+                elt, _, _, _ = self._resolve(elt, self.module, self.scope_stack, 0)
+                if isinstance(elt, ast.Dict):
+                    self._extract_message_dict(elt, node, callee, rule)
+                elif isinstance(elt, ast.Tuple) and len(elt.elts) == 2:
+                    # LangChain ("system", "...") tuples
+                    text, origin, template = self._extract_prompt(elt.elts[1])
+                    if text:
+                        self._add_result(self._role_value(elt.elts[0]), text, origin, node, callee, rule, template)
+            return True
+        return False
+
+    def _extract_argument(self, key, value, node, callee, rule):
+        if key in rule["messages"] and self._extract_messages(value, node, callee, rule):
+            return
+        role = rule["roles"].get(key)
+        if not role:
+            return
+        text, origin, template = self._extract_prompt(value)
+        if not text:
+            return
+        if role == "unknown" and rule.get("roleFrom"):
+            for kw in node.keywords:
+                if kw.arg == rule["roleFrom"]:
+                    role = self._role_value(kw.value)
+        self._add_result(role, text, origin, node, callee, rule, template)
+
+    def _module_name(self, module):
+        return module.module_name if module is not None else ""
+
+    def _function_id(self, module, qualname):
+        return self._module_name(module) + ":" + qualname
+
+    def _current_function(self):
+        return self._function_id(self.module, self.fn_quals[-1]) if self.fn_quals else None
+
+    def _lookup_def(self, module, name, depth):
+        """(module, qualified name) of a function or class defined in or imported into a module."""
+        if module is None or depth > MAX_RESOLVE_DEPTH:
+            return None
+        if name in module.defs or name in module.classes:
+            return module, name
+        if name in module.imports and self.index is not None:
+            target_module, attr = module.imports[name]
+            if attr is not None:
+                return self._lookup_def(self.index.find(target_module), attr, depth + 1)
         return None
 
-    def _infer_role_from_kw(self, kwarg_name):
-        if kwarg_name in ("system", "system_prompt"): return "system"
-        if kwarg_name in ("user", "prompt", "input"): return "user"
-        if kwarg_name in ("tool", "tools_prompt"): return "tool"
-        return "unknown"
+    def _method_id(self, module, class_qual, attr):
+        qualname = class_qual + "." + attr
+        return self._function_id(module, qualname) if qualname in module.defs else None
+
+    def _callable_id(self, found):
+        # Calling a class runs its constructor
+        if found is None:
+            return None
+        module, qualname = found
+        if qualname in module.defs:
+            return self._function_id(module, qualname)
+        return self._method_id(module, qualname, "__init__")
+
+    def _instance_class(self, node, module, in_context):
+        """(module, class) for Cls() or a name bound to Cls() in the current scope."""
+        if isinstance(node, ast.Name) and in_context:
+            node, value_module, _, _ = self._resolve(node, module, self.scope_stack, 0)
+            if value_module is not module:
+                return None
+        if not isinstance(node, ast.Call) or not isinstance(node.func, ast.Name):
+            return None
+        found = self._lookup_def(module, node.func.id, 0)
+        if found is None or found[1] not in found[0].classes:
+            return None
+        return found
+
+    def _resolve_function(self, func, module, in_context):
+        """Function id a call expression targets within the project, or None (library calls, dynamic dispatch)."""
+        if module is None:
+            return None
+        if isinstance(func, ast.Name):
+            if in_context:
+                # Nested helpers shadow module-level functions
+                for prefix in reversed(self.fn_quals):
+                    if prefix + "." + func.id in module.defs:
+                        return self._function_id(module, prefix + "." + func.id)
+            return self._callable_id(self._lookup_def(module, func.id, 0))
+        if not isinstance(func, ast.Attribute):
+            return None
+        attr = func.attr
+        base = func.value
+        if isinstance(base, ast.Name):
+            head = base.id
+            if in_context and head in ("self", "cls") and self.class_quals:
+                return self._method_id(module, self.class_quals[-1], attr)
+            entry = module.imports.get(head)
+            if entry is not None and self.index is not None:
+                target_module, name = entry
+                # "import pkg.mod as m" / "from pkg import mod": a function of that module
+                target = self.index.find(target_module if name is None else target_module + "." + name if target_module else name)
+                if target is not None:
+                    return self._callable_id(self._lookup_def(target, attr, 0))
+            found = self._lookup_def(module, head, 0)
+            if found is not None and found[1] in found[0].classes:
+                # Cls.method(...)
+                return self._method_id(found[0], found[1], attr)
+        # Cls().method(...) or obj.method(...) with obj = Cls(...)
+        found = self._instance_class(base, module, in_context)
+        if found is not None:
+            return self._method_id(found[0], found[1], attr)
+        return None
+
+    def _feeders(self, node, module, scopes, depth, out, budget):
+        """Collect project functions whose results flow into an expression, following local and imported bindings."""
+        if depth > MAX_RESOLVE_DEPTH or budget[0] <= 0:
+            return
+        budget[0] -= 1
+        node, value_module, scopes, _ = self._resolve(node, module, scopes, depth)
+        if isinstance(node, ast.Call):
+            target = self._resolve_function(node.func, value_module, value_module is self.module)
+            if target is not None:
+                out.append(target)
+        for child in ast.iter_child_nodes(node):
+            if isinstance(child, ast.expr) and not isinstance(child, ast.Lambda):
+                self._feeders(child, value_module, scopes, depth + 1, out, budget)
+
+    def _record_llm_call(self, node, callee, rule):
+        current = self._current_function()
+        call_id = self.file_path + ":" + str(node.lineno)
+        self.llm_calls.append({
+            "id": call_id,
+            "filePath": self.file_path,
+            "line": node.lineno,
+            "function": current,
+            "module": self._module_name(self.module),
+            "callSignature": ".".join(callee),
+            "provider": rule["provider"],
+            "inLoop": self.loop_stack[-1] > 0,
+        })
+        feeders = []
+        arguments = [(kw.arg, kw.value) for kw in node.keywords if kw.arg] + [(str(i), a) for i, a in enumerate(node.args)]
+        for key, value in arguments:
+            if key in rule["messages"] or key in rule["roles"]:
+                self._feeders(value, self.module, self.scope_stack, 0, feeders, [200])
+        for feeder in dict.fromkeys(feeders):
+            if feeder != current:
+                self.assembles.append({"from": feeder, "to": call_id, "line": node.lineno})
 
     def visit_Call(self, node):
         callee = self._callee_segments(node.func)
-        # Look for probable LLM call patterns
-        if any(callee[-len(s):] == s for s in LLM_CALLEE_NAMES if len(callee) >= len(s)):
-            # kwarg-based
+        rule = match_rule(self.rules, callee) if callee else None
+        if rule is not None:
             for kw in node.keywords:
-                text = self._extract_string(kw.value)
-                if text:
-                    self.results.append({
-                        "role": self._infer_role_from_kw(kw.arg) if kw.arg else "unknown",
-                        "text": text,
-                        "filePath": self.file_path,
-                        "line": node.lineno,
-                        "functionName": self.func_stack[-1] if self.func_stack else None,
-                        "callSignature": ".".join(callee),
-                    })
-            # args-based: look for list/dict with role/text
-            for arg in node.args:
-                if isinstance(arg, ast.Dict):
-                    keys = [k.s if isinstance(k, ast.Constant) else None for k in arg.keys]
-                    values = arg.values
-                    role = None
-                    text = None
-                    if keys and "role" in keys and "content" in keys:
-                        for k, v in zip(keys, values):
-                            if k == "role":
-                                if isinstance(v, ast.Constant) and isinstance(v.value, str):
-                                    role = v.value
-                            if k == "content":
-                                text = self._extract_string(v)
-                        if text:
-                            self.results.append({
-                                "role": role or "unknown",
-                                "text": text,
-                                "filePath": self.file_path,
-                                "line": node.lineno,
-                                "functionName": self.func_stack[-1] if self.func_stack else None,
-                                "callSignature": ".".join(callee),
-                            })
-                elif isinstance(arg, ast.List):
-                    for elt in arg.elts:
-                        if isinstance(elt, ast.Dict):
-                            keys = [k.s if isinstance(k, ast.Constant) else None for k in elt.keys]
-                            values = elt.values
-                            role = None
-                            text = None
-                            if keys and "role" in keys and "content" in keys:
-                                for k, v in zip(keys, values):
-                                    if k == "role":
-                                        if isinstance(v, ast.Constant) and isinstance(v.value, str):
-                                            role = v.value
-                                    if k == "content":
-                                        text = self._extract_string(v)
-                                if text:
-                                    self.results.append({
-                                        "role": role or "unknown",
-                                        "text": text,
-                                        "filePath": self.file_path,
-                                        "line": node.lineno,
-                                        "functionName": self.func_stack[-1] if self.func_stack else None,
-                                        "callSignature": ".".join(callee),
-                                    })
+                if kw.arg:
+                    self._extract_argument(kw.arg, kw.value, node, callee, rule)
+            for i, arg in enumerate(node.args):
+                self._extract_argument(str(i), arg, node, callee, rule)
+            self._record_llm_call(node, callee, rule)
+        else:
+            target = self._resolve_function(node.func, self.module, True)
+            current = self._current_function()
+            if target is not None and target != current:
+                self.calls.append({"from": current, "module": self._module_name(self.module), "to": target, "line": node.lineno})
         self.generic_visit(node)
 
 
-def extract_from_file(file_path):
+def module_name_for(root, file_path):
+    rel = os.path.relpath(file_path, root)
+    parts = rel[:-3].split(os.sep)
+    if parts[-1] == "__init__":
+        parts = parts[:-1]
+    return ".".join(parts)
+
+
+def load_module(root, file_path):
     try:
         with open(file_path, 'r', encoding='utf-8') as f:
             source = f.read()
         tree = ast.parse(source)
-        v = PromptVisitor(file_path)
-        v.visit(tree)
-        return v.results
+        return ModuleInfo(file_path, module_name_for(root, file_path), source, tree)
     except Exception:
-        return []
+        return None
+
+
+def extract_from_module(info, index, rules):
+    try:
+        v = PromptVisitor(info.file_path, info, index, rules)
+        v.visit(info.tree)
+        return v
+    except Exception:
+        return None
+
+
+def file_fragment(v):
+    calls = {}
+    for call in v.calls:
+        # One edge per caller/callee pair, at the first call line
+        calls.setdefault((call["from"], call["to"]), call)
+    return {"prompts": v.results, "calls": list(calls.values()), "llmCalls": v.llm_calls, "assembles": v.assembles}
+
+
+def import_names(info):
+    names = set()
+    for base, attr in info.imports.values():
+        if base:
+            names.add(base)
+            if attr:
+                names.add(base + "." + attr)
+    return names
+
+
+def visit_targets(root, index, options):
+    """Modules to extract: all of them, or the changed files, modules without a known fragment and every module
+    importing those (transitively), since importers resolve their constants and functions. Over-matching is harmless."""
+    if options is None:
+        return list(index.modules.values())
+    by_path = {info.file_path: info for info in index.modules.values()}
+    known = set(options.get("known", []))
+    dirty = {info.module_name for info in index.modules.values() if info.file_path not in known}
+    for path in options.get("changed", []):
+        info = by_path.get(path)
+        dirty.add(info.module_name if info is not None else module_name_for(root, path))
+    frontier = set(dirty)
+    while frontier:
+        found = set()
+        for info in index.modules.values():
+            if info.module_name in dirty:
+                continue
+            for name in import_names(info):
+                if any(d == name or d.endswith("." + name) or d.startswith(name + ".") for d in frontier):
+                    found.add(info.module_name)
+                    break
+        dirty.update(found)
+        frontier = found
+    return [info for info in index.modules.values() if info.module_name in dirty]
 
 
-def walk_dir(root):
-    results = []
-    for dirpath, _, filenames in os.walk(root):
-        for name in filenames:
-            if name.endswith('.py'):
-                path = os.path.join(dirpath, name)
-                results.extend(extract_from_file(path))
-    return results
+def extract_project(root, rules, paths, options=None):
+    """Indexes the given .py files (the caller's traversal decides which) and extracts the targets among them."""
+    index = ProjectIndex()
+    for path in paths:
+        info = load_module(root, path)
+        if info is not None:
+            index.add(info)
+    files = {}
+    for info in visit_targets(root, index, options):
+        v = extract_from_module(info, index, rules)
+        files[info.file_path] = file_fragment(v) if v is not None else {"prompts": [], "calls": [], "llmCalls": [], "assembles": []}
+    modules = [{"name": info.module_name, "filePath": info.file_path} for info in index.modules.values()]
+    functions = []
+    for info in index.modules.values():
+        for qualname, line in info.defs.items():
+            functions.append({"id": info.module_name + ":" + qualname, "module": info.module_name, "name": qualname, "filePath": info.file_path, "line": line})
+    return {"modules": modules, "functions": functions, "files": files}
 
 
 def main():
     root = sys.argv[1]
-    items = walk_dir(root)
-    print(json.dumps(items))
+    rules = load_rules(sys.argv[2])
+    with open(sys.argv[3], 'r', encoding='utf-8') as f:
+        options = json.load(f)
+    print(json.dumps(extract_project(root, rules, options["files"], options.get("incremental"))))
 
 
 if __name__ == '__main__':
     main()
 `;
+
+export async function ensurePythonScript(tempDir: string): Promise<string> {
+  const scriptPath = join(tempDir, "python_prompt_extractor.py");
   await fs.mkdir(tempDir, { recursive: true });
-  await fs.writeFile(scriptPath, script, "utf8");
+  await fs.writeFile(scriptPath, EXTRACTOR_SCRIPT, "utf8");
   return scriptPath;
 }
 
-export async function extractPythonPrompts(projectRoot: string): Promise<PythonPrompt[]> {
-  const tempDir = join(projectRoot, ".tmp-extractor");
-  const script = await ensurePythonScript(tempDir);
-  return new Promise<PythonPrompt[]>((resolve, reject) => {
-    const proc = spawn("python3", [script, projectRoot], { stdio: ["ignore", "pipe", "pipe"] });
+// Changes whenever the script or the Python call-site rules do, invalidating cached fragments
+export function pythonExtractorFingerprint(registry: CallSiteRegistry = buildCallSiteRegistry()): string {
+  return createHash("sha256")
+    .update(EXTRACTOR_SCRIPT)
+    .update(JSON.stringify(rulesForLanguage(registry, "python")))
+    .digest("hex");
+}
+
+export async function extractPythonPrompts(
+  projectRoot: string,
+  registry: CallSiteRegistry = buildCallSiteRegistry(),
+  signal?: AbortSignal,
+  files?: string[]
+): Promise<PythonPrompt[]> {
+  return (await extractPythonProject(projectRoot, registry, signal, files)).prompts;
+}
+
+// Prompts plus the call graph linking LLM call sites to the functions that reach them.
+// `files` is the scan's traversal listing; without it the root is walked with the default rules.
+export async function extractPythonProject(
+  projectRoot: string,
+  registry: CallSiteRegistry = buildCallSiteRegistry(),
+  signal?: AbortSignal,
+  files?: string[]
+): Promise<PythonExtraction> {
+  const listed = files ?? (await (await openTraversal(projectRoot)).listFiles()).files;
+  const index = await runPythonExtractor(projectRoot, listed, registry, signal);
+  return assemblePythonExtraction(index, index.files);
+}
+
+// Files the caller has fragments for (`known`) and which of them changed since (`changed`, deleted ones included)
+export type PythonIncrementalOptions = { known: string[]; changed: string[] };
+
+// Runs the AST pass over the .py files among `files`. Every module is indexed, but with `incremental` only changed
+// or unknown files and their importers are extracted; the rest of the fragments come from the caller's cache.
+export async function runPythonExtractor(
+  projectRoot: string,
+  files: string[],
+  registry: CallSiteRegistry = buildCallSiteRegistry(),
+  signal?: AbortSignal,
+  incremental?: PythonIncrementalOptions
+): Promise<PythonProjectIndex> {
+  // Each run gets its own directory, so concurrent scans of one root never read each other's rules or options
+  const baseDir = join(projectRoot, ".tmp-extractor");
+  await fs.mkdir(baseDir, { recursive: true });
+  const tempDir = await fs.mkdtemp(join(baseDir, "run-"));
+  try {
+    const script = await ensurePythonScript(tempDir);
+    const rulesPath = join(tempDir, "call_site_rules.json");
+    await fs.writeFile(rulesPath, JSON.stringify(rulesForLanguage(registry, "python")), "utf8");
+    const optionsPath = join(tempDir, "options.json");
+    const options = { files: files.filter((file) => file.endsWith(".py")), incremental: incremental ?? null };
+    await fs.writeFile(optionsPath, JSON.stringify(options), "utf8");
+    return await spawnExtractor([script, projectRoot, rulesPath, optionsPath], signal);
+  } finally {
+    await fs.rm(tempDir, { recursive: true, force: true }).catch(() => {});
+  }
+}
+
+function spawnExtractor(args: string[], signal?: AbortSignal): Promise<PythonProjectIndex> {
+  return new Promise<PythonProjectIndex>((resolve, reject) => {
+    const proc = spawn("python3", args, { stdio: ["ignore", "pipe", "pipe"], signal });
     let out = "";
     let err = "";
     proc.stdout.on("data", (d) => (out += d.toString()));
     proc.stderr.on("data", (d) => (err += d.toString()));
+    proc.on("error", reject);
     proc.on("close", (code) => {
       if (code !== 0) {
         return reject(new Error(`Extractor failed: ${err}`));
       }
       try {
-        const parsed = JSON.parse(out) as PythonPrompt[];
+        const parsed = JSON.parse(out) as PythonProjectIndex;
         resolve(parsed);
       } catch (e) {
         reject(e);
@@ -192,3 +930,41 @@ export async function extractPythonPrompts(projectRoot: string): Promise<PythonP
   });
 }
 
+// Joins per-file fragments in module order; calls are deduplicated and only functions on some edge are kept
+export function assemblePythonExtraction(
+  index: Pick<PythonProjectIndex, "modules" | "functions">,
+  fragments: Record<string, PythonFileFragment>
+): PythonExtraction {
+  const prompts: PythonPrompt[] = [];
+  const calls = new Map<string, PythonCallGraph["calls"][number]>();
+  const llmCalls: PythonCallGraph["llmCalls"] = [];
+  const assembles: PythonCallGraph["assembles"] = [];
+  for (const { filePath } of index.modules) {
+    const fragment = fragments[filePath];
+    if (!fragment) continue;
+    prompts.push(...fragment.prompts);
+    for (const call of fragment.calls) {
+      const key = `${call.from ?? ""}\0${call.module}\0${call.to}`;
+      if (!calls.has(key)) calls.set(key, call);
+    }
+    llmCalls.push(...fragment.llmCalls);
+    assembles.push(...fragment.assembles);
+  }
+  const referenced = new Set<string>();
+  for (const call of calls.values()) {
+    if (call.from) referenced.add(call.from);
+    referenced.add(call.to);
+  }
+  for (const llm of llmCalls) if (llm.function) referenced.add(llm.function);
+  for (const edge of assembles) referenced.add(edge.from);
+  return {
+    prompts,
+    graph: {
+      modules: index.modules,
+      functions: index.functions.filter((f) => referenced.has(f.id)),
+      calls: [...calls.values()],
+      llmCalls,
+      assembles,
+    },
+  };
+}
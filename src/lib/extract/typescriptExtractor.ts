@@ -0,0 +1,419 @@
+import ts from "typescript";
+import { promises as fs } from "node:fs";
+import { relative } from "node:path";
+import type { PythonPrompt } from "@/lib/extract/pythonExtractor";
+import {
+  buildCallSiteRegistry,
+  matchCallSite,
+  rulesForLanguage,
+  type CallSiteRegistry,
+  type CallSiteRule,
+} from "@/lib/extract/callSiteRegistry";
+import { looksBinary, openTraversal } from "@/lib/traversal";
+import type { SkippedFile } from "@/lib/fileScan";
+
+// Same record shape as the Python extractor so the UI and model analysis can treat both alike
+export type TypeScriptPrompt = PythonPrompt;
+
+type PromptRole = TypeScriptPrompt["role"];
+
+const SOURCE_EXTENSIONS = [".ts", ".tsx", ".js", ".jsx", ".mjs", ".cjs", ".mts", ".cts"];
+
+const LANGCHAIN_MESSAGE_CLASSES: Record<string, PromptRole> = {
+  SystemMessage: "system",
+  HumanMessage: "user",
+  AIMessage: "assistant",
+  ToolMessage: "tool",
+  SystemMessagePromptTemplate: "system",
+  HumanMessagePromptTemplate: "user",
+  AIMessagePromptTemplate: "assistant",
+};
+
+function normalizeRole(value: string | null | undefined): PromptRole {
+  switch ((value || "").toLowerCase()) {
+    case "system":
+    case "developer":
+      return "system";
+    case "user":
+    case "human":
+      return "user";
+    case "assistant":
+    case "ai":
+      return "assistant";
+    case "tool":
+    case "function":
+      return "tool";
+    default:
+      return "unknown";
+  }
+}
+
+function propertyNameText(name: ts.PropertyName): string | null {
+  if (ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNoSubstitutionTemplateLiteral(name)) return name.text;
+  return null;
+}
+
+type CallSite = { call: ts.CallExpression; callee: string[]; rule: CallSiteRule };
+
+class FileExtractor {
+  private readonly results: TypeScriptPrompt[] = [];
+  // Flat per-file symbol table; good enough for the common "const SYSTEM = `...`" and helper patterns
+  private readonly bindings = new Map<string, ts.Expression>();
+  private readonly functions = new Map<string, ts.SignatureDeclaration & { body?: ts.ConciseBody }>();
+
+  constructor(
+    private readonly sourceFile: ts.SourceFile,
+    private readonly filePath: string,
+    private readonly rules: CallSiteRule[]
+  ) {}
+
+  run(): TypeScriptPrompt[] {
+    this.collectBindings(this.sourceFile);
+    this.visit(this.sourceFile);
+    return this.results;
+  }
+
+  private collectBindings(node: ts.Node) {
+    if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && node.initializer) {
+      const init = node.initializer;
+      if (ts.isArrowFunction(init) || ts.isFunctionExpression(init)) {
+        this.functions.set(node.name.text, init);
+      } else if (!this.bindings.has(node.name.text)) {
+        this.bindings.set(node.name.text, init);
+      }
+    } else if (ts.isFunctionDeclaration(node) && node.name && node.body) {
+      this.functions.set(node.name.text, node);
+    }
+    ts.forEachChild(node, (child) => this.collectBindings(child));
+  }
+
+  private lineOf(node: ts.Node): number {
+    return this.sourceFile.getLineAndCharacterOfPosition(node.getStart(this.sourceFile)).line + 1;
+  }
+
+  private calleeSegments(expr: ts.Expression): string[] {
+    const segs: string[] = [];
+    let current: ts.Expression = expr;
+    while (true) {
+      if (ts.isPropertyAccessExpression(current)) {
+        segs.push(current.name.text);
+        current = current.expression;
+      } else if (ts.isCallExpression(current)) {
+        // e.g. new OpenAI().chat... or getClient().messages.create
+        current = current.expression;
+      } else if (ts.isNonNullExpression(current) || ts.isParenthesizedExpression(current)) {
+        current = current.expression;
+      } else {
+        break;
+      }
+    }
+    if (ts.isIdentifier(current)) segs.push(current.text);
+    else if (current.kind === ts.SyntaxKind.ThisKeyword) segs.push("this");
+    return segs.reverse();
+  }
+
+  private enclosingFunctionName(node: ts.Node): string | undefined {
+    let current: ts.Node | undefined = node.parent;
+    while (current) {
+      if ((ts.isFunctionDeclaration(current) || ts.isMethodDeclaration(current)) && current.name) {
+        return current.name.getText(this.sourceFile);
+      }
+      if ((ts.isArrowFunction(current) || ts.isFunctionExpression(current)) && ts.isVariableDeclaration(current.parent) && ts.isIdentifier(current.parent.name)) {
+        return current.parent.name.text;
+      }
+      current = current.parent;
+    }
+    return undefined;
+  }
+
+  private unwrap(expr: ts.Expression): ts.Expression {
+    let current = expr;
+    while (ts.isParenthesizedExpression(current) || ts.isAsExpression(current) || ts.isSatisfiesExpression(current) || ts.isNonNullExpression(current)) {
+      current = current.expression;
+    }
+    return current;
+  }
+
+  private resolve(expr: ts.Expression, depth = 0): ts.Expression {
+    const node = this.unwrap(expr);
+    if (depth > 8) return node;
+    if (ts.isIdentifier(node)) {
+      const bound = this.bindings.get(node.text);
+      if (bound) return this.resolve(bound, depth + 1);
+    }
+    if (ts.isCallExpression(node) && ts.isIdentifier(node.expression)) {
+      // messages built by a local helper: follow its returned expression
+      const fn = this.functions.get(node.expression.text);
+      const returned = fn ? this.returnedExpression(fn) : null;
+      if (returned) return this.resolve(returned, depth + 1);
+    }
+    return node;
+  }
+
+  private returnedExpression(fn: ts.SignatureDeclaration & { body?: ts.ConciseBody }): ts.Expression | null {
+    if (!fn.body) return null;
+    if (!ts.isBlock(fn.body)) return fn.body;
+    for (const stmt of fn.body.statements) {
+      if (ts.isReturnStatement(stmt) && stmt.expression) return stmt.expression;
+    }
+    return null;
+  }
+
+  private extractString(expr: ts.Expression, depth = 0): string | null {
+    const node = this.resolve(expr);
+    if (depth > 8) return null;
+    if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) return node.text;
+    if (ts.isTemplateExpression(node)) {
+      let out = node.head.text;
+      for (const span of node.templateSpans) {
+        const inner = this.extractString(span.expression, depth + 1);
+        out += inner ?? `\${${span.expression.getText(this.sourceFile)}}`;
+        out += span.literal.text;
+      }
+      return out;
+    }
+    if (ts.isBinaryExpression(node) && node.operatorToken.kind === ts.SyntaxKind.PlusToken) {
+      const left = this.extractString(node.left, depth + 1);
+      const right = this.extractString(node.right, depth + 1);
+      if (left === null && right === null) return null;
+      return (left ?? `\${${node.left.getText(this.sourceFile)}}`) + (right ?? `\${${node.right.getText(this.sourceFile)}}`);
+    }
+    if (ts.isArrayLiteralExpression(node)) {
+      // e.g. [...].join("\n") resolved elsewhere; plain arrays of strings are joined
+      const parts = node.elements.map((el) => this.extractString(el, depth + 1));
+      if (parts.length && parts.every((p) => p !== null)) return parts.join("\n");
+      return null;
+    }
+    if (ts.isCallExpression(node) && ts.isPropertyAccessExpression(node.expression) && node.expression.name.text === "join") {
+      const target = this.resolve(node.expression.expression);
+      if (ts.isArrayLiteralExpression(target)) {
+        const sepArg = node.arguments[0];
+        const sep = sepArg ? this.extractString(sepArg, depth + 1) ?? "," : ",";
+        const parts = target.elements.map((el) => this.extractString(el, depth + 1));
+        if (parts.every((p) => p !== null)) return parts.join(sep);
+      }
+    }
+    return null;
+  }
+
+  private push(role: PromptRole, text: string, site: CallSite) {
+    if (!text) return;
+    const { call, callee, rule } = site;
+    this.results.push({
+      role,
+      text,
+      filePath: this.filePath,
+      line: this.lineOf(call),
+      functionName: this.enclosingFunctionName(call),
+      callSignature: callee.join("."),
+      provider: rule.provider,
+    });
+  }
+
+  private extractMessageElement(element: ts.Expression, site: CallSite) {
+    const node = this.resolve(element);
+    if (ts.isObjectLiteralExpression(node)) {
+      let role: PromptRole | null = null;
+      let content: ts.Expression | null = null;
+      for (const prop of node.properties) {
+        if (ts.isPropertyAssignment(prop)) {
+          const key = propertyNameText(prop.name);
+          if (key === "role") {
+            const value = this.extractString(prop.initializer);
+            role = normalizeRole(value);
+          } else if (key === "content") {
+            content = prop.initializer;
+          }
+        } else if (ts.isShorthandPropertyAssignment(prop) && prop.name.text === "content") {
+          content = prop.name;
+        }
+      }
+      if (content) {
+        const text = this.extractContent(content);
+        if (text) this.push(role ?? "unknown", text, site);
+      }
+      return;
+    }
+    // LangChain tuple form: ["system", "You are ..."]
+    if (ts.isArrayLiteralExpression(node) && node.elements.length === 2) {
+      const role = this.extractString(node.elements[0]);
+      const text = this.extractString(node.elements[1]);
+      if (role && text) this.push(normalizeRole(role), text, site);
+      return;
+    }
+    // LangChain message classes: new SystemMessage("...") / SystemMessagePromptTemplate.fromTemplate("...")
+    if (ts.isNewExpression(node) && ts.isIdentifier(node.expression)) {
+      const role = LANGCHAIN_MESSAGE_CLASSES[node.expression.text];
+      const arg = node.arguments?.[0];
+      if (role && arg) {
+        const text = this.extractContent(arg);
+        if (text) this.push(role, text, site);
+      }
+      return;
+    }
+    if (ts.isCallExpression(node) && ts.isPropertyAccessExpression(node.expression) && ts.isIdentifier(node.expression.expression)) {
+      const role = LANGCHAIN_MESSAGE_CLASSES[node.expression.expression.text];
+      const arg = node.arguments[0];
+      if (role && arg) {
+        const text = this.extractContent(arg);
+        if (text) this.push(role, text, site);
+      }
+    }
+  }
+
+  // Message content is either a string or an array of content parts ({ type: "text", text })
+  private extractContent(expr: ts.Expression): string | null {
+    const direct = this.extractString(expr);
+    if (direct !== null) return direct;
+    const node = this.resolve(expr);
+    if (ts.isObjectLiteralExpression(node)) {
+      for (const prop of node.properties) {
+        if (ts.isPropertyAssignment(prop) && propertyNameText(prop.name) === "content") {
+          return this.extractString(prop.initializer);
+        }
+      }
+    }
+    if (!ts.isArrayLiteralExpression(node)) return null;
+    const parts: string[] = [];
+    for (const el of node.elements) {
+      const part = this.resolve(el);
+      if (!ts.isObjectLiteralExpression(part)) continue;
+      for (const prop of part.properties) {
+        if (ts.isPropertyAssignment(prop) && propertyNameText(prop.name) === "text") {
+          const text = this.extractString(prop.initializer);
+          if (text) parts.push(text);
+        }
+      }
+    }
+    return parts.length ? parts.join("\n") : null;
+  }
+
+  private extractMessages(expr: ts.Expression, site: CallSite) {
+    const node = this.resolve(expr);
+    if (!ts.isArrayLiteralExpression(node)) return;
+    for (const element of node.elements) {
+      if (ts.isSpreadElement(element)) {
+        this.extractMessages(element.expression, site);
+      } else {
+        this.extractMessageElement(element, site);
+      }
+    }
+  }
+
+  // Option objects (openai.chat.completions.create({ ... })) play the role of Python keyword arguments
+  private extractOptions(expr: ts.Expression, site: CallSite) {
+    const node = this.resolve(expr);
+    if (!ts.isObjectLiteralExpression(node)) return;
+    const entries: Array<[string, ts.Expression]> = [];
+    for (const prop of node.properties) {
+      if (ts.isPropertyAssignment(prop)) {
+        const key = propertyNameText(prop.name);
+        if (key) entries.push([key, prop.initializer]);
+      } else if (ts.isShorthandPropertyAssignment(prop)) {
+        entries.push([prop.name.text, prop.name]);
+      } else if (ts.isSpreadAssignment(prop)) {
+        this.extractOptions(prop.expression, site);
+      }
+    }
+    const roleEntry = site.rule.roleFrom ? entries.find(([key]) => key === site.rule.roleFrom) : undefined;
+    const dynamicRole = roleEntry ? normalizeRole(this.extractString(roleEntry[1])) : undefined;
+    for (const [key, value] of entries) {
+      this.extractArgument(key, value, site, dynamicRole);
+    }
+  }
+
+  private extractArgument(key: string, value: ts.Expression, site: CallSite, dynamicRole?: PromptRole): boolean {
+    const { rule } = site;
+    if (rule.messages.includes(key)) {
+      const resolved = this.resolve(value);
+      if (ts.isArrayLiteralExpression(resolved)) {
+        this.extractMessages(resolved, site);
+        return true;
+      }
+    }
+    const role = rule.roles[key];
+    if (!role) return false;
+    const text = this.extractContent(value);
+    if (!text) return false;
+    this.push(role === "unknown" && dynamicRole ? dynamicRole : role, text, site);
+    return true;
+  }
+
+  private visit(node: ts.Node) {
+    if (ts.isCallExpression(node)) {
+      const callee = this.calleeSegments(node.expression);
+      const rule = callee.length ? matchCallSite(this.rules, callee) : null;
+      if (rule) {
+        const site: CallSite = { call: node, callee, rule };
+        node.arguments.forEach((arg, index) => {
+          if (this.extractArgument(String(index), arg, site)) return;
+          if (ts.isObjectLiteralExpression(this.resolve(arg))) this.extractOptions(arg, site);
+        });
+      }
+    }
+    ts.forEachChild(node, (child) => this.visit(child));
+  }
+}
+
+function scriptKindFor(filePath: string): ts.ScriptKind {
+  if (filePath.endsWith(".tsx")) return ts.ScriptKind.TSX;
+  if (filePath.endsWith(".jsx")) return ts.ScriptKind.JSX;
+  if (/\.[cm]?js$/.test(filePath)) return ts.ScriptKind.JS;
+  return ts.ScriptKind.TS;
+}
+
+export function extractTypeScriptPromptsFromText(
+  text: string,
+  filePath: string,
+  registry: CallSiteRegistry = buildCallSiteRegistry()
+): TypeScriptPrompt[] {
+  const sourceFile = ts.createSourceFile(filePath, text, ts.ScriptTarget.Latest, true, scriptKindFor(filePath));
+  return new FileExtractor(sourceFile, filePath, rulesForLanguage(registry, "typescript")).run();
+}
+
+function isSourceFile(filePath: string): boolean {
+  return SOURCE_EXTENSIONS.some((ext) => filePath.endsWith(ext)) && !filePath.endsWith(".d.ts");
+}
+
+export type TypeScriptExtraction = { prompts: TypeScriptPrompt[]; skipped: SkippedFile[] };
+
+// `files` is the scan's traversal listing, already within its file count and size limits; without it the root
+// is walked with the default rules. Binary and unreadable files are returned in `skipped`.
+export async function extractTypeScriptProject(
+  projectRoot: string,
+  registry: CallSiteRegistry = buildCallSiteRegistry(),
+  files?: string[]
+): Promise<TypeScriptExtraction> {
+  const listed = files ?? (await (await openTraversal(projectRoot)).listFiles()).files;
+  const prompts: TypeScriptPrompt[] = [];
+  const skipped: SkippedFile[] = [];
+  for (const file of listed.filter(isSourceFile)) {
+    const path = relative(projectRoot, file);
+    let buffer: Buffer;
+    try {
+      buffer = await fs.readFile(file);
+    } catch (error: unknown) {
+      const code = (error as NodeJS.ErrnoException).code;
+      skipped.push({ path, reason: "unreadable", detail: code ?? (error instanceof Error ? error.message : String(error)) });
+      continue;
+    }
+    if (looksBinary(buffer)) {
+      skipped.push({ path, reason: "binary", size: buffer.length });
+      continue;
+    }
+    try {
+      prompts.push(...extractTypeScriptPromptsFromText(buffer.toString("utf8"), file, registry));
+    } catch (error: unknown) {
+      skipped.push({ path, reason: "unreadable", detail: `could not parse: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  }
+  return { prompts, skipped };
+}
+
+export async function extractTypeScriptPrompts(
+  projectRoot: string,
+  registry: CallSiteRegistry = buildCallSiteRegistry(),
+  files?: string[]
+): Promise<TypeScriptPrompt[]> {
+  return (await extractTypeScriptProject(projectRoot, registry, files)).prompts;
+}
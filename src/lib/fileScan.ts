@@ -0,0 +1,107 @@
+import { createHash } from "node:crypto";
+import { createReadStream, promises as fs } from "node:fs";
+import { createInterface } from "node:readline";
+import { scanTextForSecrets, type SecretFinding, type SecretScanOptions } from "@/lib/secretsScan";
+import { scanTextForPromptKeywords, type PromptKeywordHit } from "@/lib/promptKeywordScan";
+import { isBinaryFile, looksBinary } from "@/lib/traversal";
+
+// One file of the keyword and secret pass; plain data so it can be posted to a worker thread
+export type FileScanTask = {
+  path: string;
+  secretOptions: SecretScanOptions;
+  maxBytes: number; // larger files are skipped
+  streamAboveBytes: number; // larger files are read line by line instead of whole
+  knownHash?: string; // cached content hash; a match skips scanning
+};
+
+export type SkippedFileReason = "too-large" | "binary" | "unreadable" | "file-limit" | "ignored";
+
+// A file the keyword and secret pass did not look at; path is relative to the scanned root
+export type SkippedFile = { path: string; reason: SkippedFileReason; size?: number; detail?: string };
+
+export type FileScanOutcome =
+  | { status: "scanned"; hash: string; keywords: PromptKeywordHit[]; secrets: SecretFinding[] }
+  | { status: "unchanged"; hash: string }
+  | { status: "skipped"; reason: SkippedFileReason; size?: number; detail?: string };
+
+// Streamed files are scanned in windows of lines; the overlap keeps multi-line prompts and
+// context lines that straddle a window boundary, and duplicates from it are dropped
+const WINDOW_LINES = 5000;
+const OVERLAP_LINES = 100;
+
+export async function hashFile(path: string): Promise<string> {
+  const hash = createHash("sha256");
+  for await (const chunk of createReadStream(path)) hash.update(chunk as Buffer);
+  return hash.digest("hex");
+}
+
+async function scanStreamed(task: FileScanTask): Promise<FileScanOutcome> {
+  const hash = createHash("sha256");
+  const input = createReadStream(task.path);
+  input.on("data", (chunk) => hash.update(chunk as Buffer));
+  const keywords: PromptKeywordHit[] = [];
+  const secrets: SecretFinding[] = [];
+  const seen = new Set<string>();
+  const secretAt = new Map<string, number>(); // dedupe key to index in `secrets`
+  let window: string[] = [];
+  let windowStart = 1; // line number of window[0]
+  // The last line of a window lacks its following context line; the next window, which overlaps it, reports it
+  const scanWindow = (final: boolean) => {
+    const text = window.join("\n");
+    const offset = windowStart - 1;
+    for (const finding of scanTextForSecrets(text, task.path, task.secretOptions)) {
+      const key = `s:${finding.rule}:${finding.line + offset}:${finding.column}`;
+      const at = secretAt.get(key);
+      // A key block cut off at the end of one window is found whole by the next, which overlaps it
+      if (at !== undefined && finding.match.length > secrets[at].match.length) secrets[at] = { ...finding, line: finding.line + offset };
+      if (at !== undefined) continue;
+      secretAt.set(key, secrets.length);
+      secrets.push({ ...finding, line: finding.line + offset });
+    }
+    for (const hit of scanTextForPromptKeywords(text, task.path)) {
+      if (!final && hit.line === window.length) continue;
+      const key = `k:${hit.matchLabel}:${hit.line + offset}:${hit.column}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      keywords.push({ ...hit, line: hit.line + offset });
+    }
+  };
+  for await (const line of createInterface({ input, crlfDelay: Infinity })) {
+    window.push(line);
+    if (window.length >= WINDOW_LINES) {
+      scanWindow(false);
+      const kept = window.slice(-OVERLAP_LINES);
+      windowStart += window.length - kept.length;
+      window = kept;
+    }
+  }
+  if (window.length > 0) scanWindow(true); // also when only the overlap is left, for its last line
+  return { status: "scanned", hash: hash.digest("hex"), keywords, secrets };
+}
+
+// Reads and scans one file. Results are complete: no per-file caps, callers page through them.
+export async function scanFile(task: FileScanTask): Promise<FileScanOutcome> {
+  try {
+    const { size } = await fs.stat(task.path);
+    if (size > task.maxBytes) return { status: "skipped", reason: "too-large", size, detail: `over ${task.maxBytes} bytes` };
+    if (size > task.streamAboveBytes) {
+      if (await isBinaryFile(task.path)) return { status: "skipped", reason: "binary", size };
+      if (task.knownHash && (await hashFile(task.path)) === task.knownHash) return { status: "unchanged", hash: task.knownHash };
+      return await scanStreamed(task);
+    }
+    const buffer = await fs.readFile(task.path);
+    if (looksBinary(buffer)) return { status: "skipped", reason: "binary", size };
+    const hash = createHash("sha256").update(buffer).digest("hex");
+    if (hash === task.knownHash) return { status: "unchanged", hash };
+    const content = buffer.toString("utf8");
+    return {
+      status: "scanned",
+      hash,
+      keywords: scanTextForPromptKeywords(content, task.path),
+      secrets: scanTextForSecrets(content, task.path, task.secretOptions),
+    };
+  } catch (error: unknown) {
+    const code = (error as NodeJS.ErrnoException).code;
+    return { status: "skipped", reason: "unreadable", detail: code ?? (error instanceof Error ? error.message : String(error)) };
+  }
+}
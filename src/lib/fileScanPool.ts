@@ -0,0 +1,91 @@
+import { Worker } from "node:worker_threads";
+import { availableParallelism } from "node:os";
+import { join } from "node:path";
+import { scanFile, type FileScanOutcome, type FileScanTask } from "@/lib/fileScan";
+
+export type FileScanPool = {
+  threads: number; // 0 when files are scanned on the calling thread
+  run(task: FileScanTask): Promise<FileScanOutcome>;
+  close(): Promise<void>;
+};
+
+type WorkerHandle = { run(task: FileScanTask): Promise<FileScanOutcome>; terminate(): Promise<number> };
+
+const MAX_WORKERS = 16;
+const STARTUP_TIMEOUT_MS = 30_000;
+
+const inProcessPool: FileScanPool = { threads: 0, run: scanFile, close: async () => {} };
+
+// SCAN_FILE_WORKERS=0 keeps scanning on the calling thread; the default leaves a core for the server
+export function defaultFileScanWorkers(): number {
+  const value = Number.parseInt(process.env.SCAN_FILE_WORKERS ?? "", 10);
+  if (Number.isInteger(value) && value >= 0) return Math.min(value, MAX_WORKERS);
+  return Math.min(4, Math.max(1, availableParallelism() - 1));
+}
+
+// The package's own files; the CLI runs from inside the scanned repository and says where it lives
+function packageRoot(): string {
+  return process.env.PROMPT_EXPLORER_HOME ?? process.cwd();
+}
+
+function startWorker(): Promise<WorkerHandle> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(join(packageRoot(), "src", "lib", "fileScanWorkerEntry.mjs"));
+    const pending = new Map<number, { resolve(outcome: FileScanOutcome): void; reject(error: Error): void }>();
+    let nextId = 0;
+    let failure: Error | null = null;
+    const fail = (error: Error) => {
+      failure ??= error;
+      clearTimeout(startup);
+      for (const task of pending.values()) task.reject(error);
+      pending.clear();
+      reject(error);
+    };
+    const startup = setTimeout(() => {
+      fail(new Error("File scan worker did not start"));
+      void worker.terminate();
+    }, STARTUP_TIMEOUT_MS);
+    const handle: WorkerHandle = {
+      run(task) {
+        return new Promise((resolveTask, rejectTask) => {
+          if (failure) return rejectTask(failure);
+          const id = nextId++;
+          pending.set(id, { resolve: resolveTask, reject: rejectTask });
+          worker.postMessage({ id, task });
+        });
+      },
+      terminate: () => worker.terminate(),
+    };
+    worker.on("message", (message: { ready: true } | { id: number; outcome: FileScanOutcome }) => {
+      if ("ready" in message) {
+        clearTimeout(startup);
+        resolve(handle);
+        return;
+      }
+      pending.get(message.id)?.resolve(message.outcome);
+      pending.delete(message.id);
+    });
+    worker.on("error", fail);
+    worker.on("exit", (code) => fail(new Error(`File scan worker exited with code ${code}`)));
+  });
+}
+
+// Starts `size` worker threads for the keyword and secret pass. When they cannot start (no tsx, no sources
+// next to the server) or one dies mid-scan, files are scanned on the calling thread instead.
+export async function createFileScanPool(size = defaultFileScanWorkers()): Promise<FileScanPool> {
+  if (size < 1) return inProcessPool;
+  const started = await Promise.allSettled(Array.from({ length: size }, () => startWorker()));
+  const workers = started.flatMap((s) => (s.status === "fulfilled" ? [s.value] : []));
+  if (workers.length === 0) return inProcessPool;
+  let next = 0;
+  return {
+    threads: workers.length,
+    run(task) {
+      const worker = workers[next++ % workers.length];
+      return worker.run(task).catch(() => scanFile(task));
+    },
+    async close() {
+      await Promise.all(workers.map((w) => w.terminate()));
+    },
+  };
+}
@@ -0,0 +1,8 @@
+import { parentPort } from "node:worker_threads";
+import { scanFile, type FileScanTask } from "@/lib/fileScan";
+
+// Entry point of the file-scan worker threads started by fileScanPool.ts: one message per file, answered in any order
+parentPort?.on("message", async ({ id, task }: { id: number; task: FileScanTask }) => {
+  parentPort?.postMessage({ id, outcome: await scanFile(task) });
+});
+parentPort?.postMessage({ ready: true });
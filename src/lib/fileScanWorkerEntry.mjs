@@ -0,0 +1,4 @@
+// Worker-thread entry started by fileScanPool.ts. Loads the TypeScript worker through tsx, as bin/prompt-explorer.mjs
+// does for the CLI, so the threads work the same under the dev server, `next start` and the CLI.
+const { tsImport } = await import("tsx/esm/api");
+await tsImport("./fileScanWorker.ts", import.meta.url);
@@ -0,0 +1,53 @@
+import type { ScanResult } from "@/lib/scanRepository";
+import type { SecretFinding } from "@/lib/secretsScan";
+import type { PromptKeywordHit } from "@/lib/promptKeywordScan";
+import type { SkippedFile } from "@/lib/fileScan";
+
+// Lists that grow with the repository. API responses carry the first page of each;
+// GET /api/scans/<id>?findings=<kind>&offset=<n> serves the rest from the stored scan.
+export const FINDING_KINDS = ["keywords", "secrets", "skippedFiles"] as const;
+
+export type FindingKind = (typeof FINDING_KINDS)[number];
+
+type FindingItem = { keywords: PromptKeywordHit; secrets: SecretFinding; skippedFiles: SkippedFile };
+
+export type FindingPage = { total: number; offset: number; limit: number; nextOffset: number | null };
+
+export const DEFAULT_PAGE_SIZE = 200;
+export const MAX_PAGE_SIZE = 1000;
+
+function itemsOf<K extends FindingKind>(result: ScanResult, kind: K): FindingItem[K][] {
+  const lists: { [Kind in FindingKind]: FindingItem[Kind][] } = {
+    keywords: result.prompts.keywords,
+    secrets: result.secrets,
+    skippedFiles: result.skippedFiles ?? [],
+  };
+  return lists[kind];
+}
+
+export function findingsPage<K extends FindingKind>(
+  result: ScanResult,
+  kind: K,
+  offset = 0,
+  limit = DEFAULT_PAGE_SIZE
+): { items: FindingItem[K][]; page: FindingPage } {
+  const all = itemsOf(result, kind);
+  const items = all.slice(offset, offset + limit);
+  const end = offset + items.length;
+  return { items, page: { total: all.length, offset, limit, nextOffset: end < all.length ? end : null } };
+}
+
+// The result with only the first page of each list and `pages` describing what is left.
+// Apply after redaction: redacting keyword snippets needs every secret value.
+export function firstPages(result: ScanResult, limit = DEFAULT_PAGE_SIZE): ScanResult {
+  const keywords = findingsPage(result, "keywords", 0, limit);
+  const secrets = findingsPage(result, "secrets", 0, limit);
+  const skippedFiles = findingsPage(result, "skippedFiles", 0, limit);
+  return {
+    ...result,
+    secrets: secrets.items,
+    prompts: { ...result.prompts, keywords: keywords.items },
+    skippedFiles: skippedFiles.items,
+    pages: { keywords: keywords.page, secrets: secrets.page, skippedFiles: skippedFiles.page },
+  };
+}
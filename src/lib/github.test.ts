@@ -0,0 +1,62 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { execFileSync } from "node:child_process";
+import { promises as fs } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { deepenHistory } from "@/lib/github";
+
+const git = (cwd: string, ...args: string[]) => execFileSync("git", args, { cwd, encoding: "utf8" }).trim();
+const commitCount = (dir: string) => Number(git(dir, "rev-list", "--count", "HEAD"));
+
+// An origin with ten commits, one a day through January 2024, and a clone of its last two
+async function shallowClone(): Promise<{ base: string; clone: string }> {
+  const base = await fs.mkdtemp(join(tmpdir(), "deepen-"));
+  const origin = join(base, "origin");
+  await fs.mkdir(origin);
+  git(origin, "init", "-q");
+  for (let day = 1; day <= 10; day += 1) {
+    await fs.writeFile(join(origin, "file.txt"), `${day}\n`);
+    git(origin, "add", "file.txt");
+    const date = `2024-01-${String(day).padStart(2, "0")}T12:00:00Z`;
+    execFileSync("git", ["-c", "user.name=t", "-c", "user.email=t@example.com", "commit", "-qm", `day ${day}`], {
+      cwd: origin,
+      env: { ...process.env, GIT_AUTHOR_DATE: date, GIT_COMMITTER_DATE: date },
+    });
+  }
+  git(base, "clone", "-q", "--depth", "2", `file://${origin}`, "clone");
+  return { base, clone: join(base, "clone") };
+}
+
+test("deepenHistory fetches up to the requested depth", async (t) => {
+  const { base, clone } = await shallowClone();
+  t.after(() => fs.rm(base, { recursive: true, force: true }));
+  assert.equal(commitCount(clone), 2);
+
+  await deepenHistory(clone, { depth: 5 });
+  assert.equal(commitCount(clone), 5);
+  await deepenHistory(clone, { depth: 5 });
+  assert.equal(commitCount(clone), 5);
+});
+
+test("deepenHistory never makes a deeper clone shallower", async (t) => {
+  const { base, clone } = await shallowClone();
+  t.after(() => fs.rm(base, { recursive: true, force: true }));
+
+  await deepenHistory(clone, { depth: 8 });
+  await deepenHistory(clone, { depth: 3 });
+  assert.equal(commitCount(clone), 8);
+  await deepenHistory(clone, { since: "2024-01-06" });
+  assert.equal(commitCount(clone), 8);
+});
+
+test("deepenHistory fetches back to a date and unshallows without options", async (t) => {
+  const { base, clone } = await shallowClone();
+  t.after(() => fs.rm(base, { recursive: true, force: true }));
+
+  await deepenHistory(clone, { since: "2024-01-06T00:00:00Z" });
+  assert.equal(commitCount(clone), 5);
+  await deepenHistory(clone);
+  assert.equal(commitCount(clone), 10);
+  assert.equal(git(clone, "rev-parse", "--is-shallow-repository"), "false");
+});
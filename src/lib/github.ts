@@ -1,24 +1,40 @@
 import simpleGit from "simple-git";
-import { join } from "node:path";
+import { createHash } from "node:crypto";
+import { dirname, join } from "node:path";
 import { existsSync, promises as fs } from "node:fs";
 
 export type CloneOptions = {
   repoUrl: string;
-  destDir: string;
+  destDir: string; // the worktree itself; replaced when it already exists
   branch?: string;
   sshKey?: string; // Private SSH key for authentication
   githubToken?: string; // GitHub personal access token for HTTPS auth
+  signal?: AbortSignal; // Kills the running git process when aborted
+  fullHistory?: boolean; // Clone (or unshallow) with full history instead of --depth 1
 };
 
-export async function cloneOrPullRepo({ repoUrl, destDir, branch = "main", sshKey, githubToken }: CloneOptions): Promise<void> {
-  if (!existsSync(destDir)) {
-    await fs.mkdir(destDir, { recursive: true });
-  }
-  const repoName = repoUrl.split("/").pop()?.replace(/\.git$/, "") || "repo";
-  const target = join(destDir, repoName);
+// Where a repository's working copy lives under `reposBase`: one directory per host, owner and name, so forks
+// and same-named repositories of different owners never share a clone. Credentials in the URL are ignored.
+export function repoCheckoutDir(reposBase: string, repoUrl: string): string {
+  const match =
+    /^[a-z][a-z0-9+.-]*:\/\/(?:[^@/]*@)?([^/:]+)(?::\d+)?\/(.+)$/i.exec(repoUrl) ?? /^(?:[^@/]+@)?([^/:]+):(.+)$/.exec(repoUrl);
+  const segments = match ? [match[1], ...match[2].replace(/\.git\/?$/, "").split("/")] : [];
+  const safe = segments
+    .filter(Boolean)
+    .map((segment) => segment.replace(/[^A-Za-z0-9._-]/g, "_"))
+    .filter((segment) => segment !== "." && segment !== "..");
+  if (safe.length < 2) return join(reposBase, "by-url", createHash("sha256").update(repoUrl).digest("hex").slice(0, 32));
+  // Owner and name (with any subgroups) form one directory, so no clone ends up nested inside another
+  const [host, ...path] = safe;
+  return join(reposBase, host, path.join("__"));
+}
+
+export async function cloneOrPullRepo({ repoUrl, destDir, branch = "main", sshKey, githubToken, signal, fullHistory }: CloneOptions): Promise<void> {
+  const target = repoCheckoutDir(destDir, repoUrl);
+  await fs.mkdir(dirname(target), { recursive: true });
   
   // Configure git with authentication if provided
-  const git = simpleGit();
+  const git = simpleGit({ abort: signal });
   
   if (sshKey) {
     // Set up SSH key for authentication
@@ -38,11 +54,135 @@ export async function cloneOrPullRepo({ repoUrl, destDir, branch = "main", sshKe
   }
 
   if (!existsSync(target)) {
-    await git.clone(repoUrl, target, ["--branch", branch, "--depth", "1"]);
+    await git.clone(repoUrl, target, fullHistory ? ["--branch", branch] : ["--branch", branch, "--depth", "1"]);
   } else {
-    await simpleGit(target).fetch();
-    await simpleGit(target).reset(["--hard", `origin/${branch}`]);
-    await simpleGit(target).pull("origin", branch);
+    const repo = simpleGit(target, { abort: signal });
+    if (fullHistory) await deepenHistory(target, { signal });
+    await repo.fetch();
+    await repo.reset(["--hard", `origin/${branch}`]);
+    await repo.pull("origin", branch);
+  }
+}
+
+// Network-level git failures that are worth retrying; authentication errors and missing refs or repositories are not
+const TRANSIENT_GIT_ERRORS = [
+  /could not resolve host/i,
+  /connection (timed out|reset|refused)/i,
+  /operation timed out/i,
+  /the remote end hung up unexpectedly/i,
+  /early eof/i,
+  /rpc failed/i,
+  /unexpected disconnect/i,
+  /gnutls|ssl_read|tls connection/i,
+  /http\/?\S* (429|500|502|503|504)|returned error: (429|500|502|503|504)/i,
+  /temporary failure/i,
+];
+
+export function isTransientGitError(message: string): boolean {
+  return TRANSIENT_GIT_ERRORS.some((re) => re.test(message));
+}
+
+// HEAD commit of a working copy, or null when the directory is not a git repository
+export async function getHeadCommit(dir: string): Promise<string | null> {
+  try {
+    return (await simpleGit(dir).revparse(["HEAD"])).trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+export type WorkingTreeStatus = {
+  clean: Set<string>; // tracked files without uncommitted changes
+  changedSince: Set<string> | null; // files touched between `since` and HEAD; null when that commit is not available
+};
+
+// File states relative to `dir` (which may be a subdirectory of the repository), or null outside a git repository
+export async function getWorkingTreeStatus(dir: string, since: string | null): Promise<WorkingTreeStatus | null> {
+  const git = simpleGit(dir);
+  const names = (out: string) => out.split("\0").filter(Boolean);
+  let clean: Set<string>;
+  try {
+    const dirty = new Set(names(await git.raw(["diff", "--name-only", "-z", "--relative", "HEAD"])));
+    clean = new Set(names(await git.raw(["ls-files", "-z"])).filter((f) => !dirty.has(f)));
+  } catch {
+    return null;
+  }
+  let changedSince: Set<string> | null = null;
+  if (since) {
+    try {
+      changedSince = new Set(names(await git.raw(["diff", "--name-only", "-z", "--relative", since, "HEAD"])));
+    } catch {
+      // Pruned or never fetched, e.g. a shallow clone that jumped ahead
+    }
   }
+  return { clean, changedSince };
 }
 
+export type RefCheckout = { ref: string; commit: string; dir: string };
+
+// Materialises a branch, tag or commit of an existing clone as a detached worktree.
+// Shallow clones only carry the branch they were cloned at, so unknown refs are fetched first.
+export async function checkoutRef({ repoDir, ref, destDir, signal }: {
+  repoDir: string;
+  ref: string;
+  destDir: string; // the worktree itself; replaced when it already exists
+  signal?: AbortSignal;
+}): Promise<RefCheckout> {
+  const git = simpleGit(repoDir, { abort: signal });
+  let commit: string | null = null;
+  for (const candidate of [ref, `origin/${ref}`]) {
+    try {
+      commit = (await git.revparse(["--verify", "--quiet", `${candidate}^{commit}`])).trim();
+      if (commit) break;
+    } catch {}
+  }
+  if (!commit) {
+    await git.fetch(["--depth", "1", "origin", ref]);
+    commit = (await git.revparse(["--verify", "FETCH_HEAD^{commit}"])).trim();
+  }
+  if (existsSync(destDir)) {
+    await removeWorktree(repoDir, destDir);
+  }
+  await fs.mkdir(join(destDir, ".."), { recursive: true });
+  await git.raw(["worktree", "add", "--force", "--detach", destDir, commit]);
+  return { ref, commit, dir: destDir };
+}
+
+export async function removeWorktree(repoDir: string, worktreeDir: string): Promise<void> {
+  try {
+    await simpleGit(repoDir).raw(["worktree", "remove", "--force", worktreeDir]);
+  } catch {
+    await fs.rm(worktreeDir, { recursive: true, force: true });
+    try {
+      await simpleGit(repoDir).raw(["worktree", "prune"]);
+    } catch {}
+  }
+}
+
+export async function isShallowRepository(dir: string): Promise<boolean> {
+  try {
+    return (await simpleGit(dir).revparse(["--is-shallow-repository"])).trim() === "true";
+  } catch {
+    return false;
+  }
+}
+
+// Fetches missing history for a shallow clone: at least the last `depth` commits, everything after `since`,
+// or everything when neither is given. Only ever deepens: a window that already reaches far enough is left
+// alone, so an earlier, deeper fetch is never cut back.
+export async function deepenHistory(
+  dir: string,
+  options?: { depth?: number; since?: string; signal?: AbortSignal }
+): Promise<void> {
+  if (!(await isShallowRepository(dir))) return;
+  const git = simpleGit(dir, { abort: options?.signal });
+  if (options?.since) {
+    const older = Number((await git.raw(["rev-list", "--count", `--before=${options.since}`, "HEAD"])).trim());
+    if (older === 0) await git.fetch([`--shallow-since=${options.since}`]);
+  } else if (options?.depth) {
+    const present = Number((await git.raw(["rev-list", "--count", "HEAD"])).trim());
+    if (options.depth > present) await git.fetch([`--deepen=${options.depth - present}`]);
+  } else {
+    await git.fetch(["--unshallow"]);
+  }
+}
@@ -0,0 +1,45 @@
+// Regex source for a glob: `**` spans directories, `*` and `?` stay within one segment
+function globSource(normalized: string): string {
+  let source = "";
+  for (let i = 0; i < normalized.length; i += 1) {
+    const ch = normalized[i];
+    if (ch === "*") {
+      if (normalized[i + 1] === "*") {
+        // "**/" matches zero or more directories; a trailing "**" matches everything below
+        if (normalized[i + 2] === "/") {
+          source += "(?:.*/)?";
+          i += 2;
+        } else {
+          source += ".*";
+          i += 1;
+        }
+      } else {
+        source += "[^/]*";
+      }
+    } else if (ch === "?") {
+      source += "[^/]";
+    } else {
+      source += ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return source;
+}
+
+// Minimal glob matching for config patterns.
+// A pattern without a slash matches the basename at any depth (like .gitignore).
+export function globToRegExp(pattern: string): RegExp {
+  const normalized = pattern.replace(/^\.\//, "").replace(/\/$/, "/**");
+  const source = globSource(normalized);
+  const anchored = normalized.includes("/") ? `^${source}$` : `(?:^|/)${source}$`;
+  return new RegExp(anchored);
+}
+
+// The pattern matched against the whole relative path, with or without a slash (a leading "/" in .gitignore)
+export function anchoredGlobToRegExp(pattern: string): RegExp {
+  return new RegExp(`^${globSource(pattern.replace(/^\.?\//, "").replace(/\/$/, "/**"))}$`);
+}
+
+// True when the relative, slash-separated path matches any of the patterns
+export function matchesAnyGlob(relativePath: string, patterns: RegExp[]): boolean {
+  return patterns.some((re) => re.test(relativePath));
+}
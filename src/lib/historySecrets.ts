@@ -0,0 +1,116 @@
+import { spawn } from "node:child_process";
+import { createInterface } from "node:readline";
+import { promises as fs } from "node:fs";
+import { join } from "node:path";
+import { deepenHistory } from "@/lib/github";
+import { scanTextForSecrets, type SecretFinding, type SecretScanOptions } from "@/lib/secretsScan";
+
+export type HistorySecretFinding = SecretFinding & {
+  commit: string; // commit that introduced the value in this file (oldest one walked)
+  author: string;
+  email: string;
+  date: string; // ISO 8601 author date
+  message: string;
+  presentAtHead: boolean; // false when the value has since been removed (but is still in history)
+};
+
+export type HistorySecretScanRequest = {
+  repoDir: string;
+  depth?: number; // number of commits to walk (default 500)
+  since?: string; // only walk commits after this date (anything `git log --since` accepts)
+  options?: SecretScanOptions;
+  headSecrets?: SecretFinding[]; // working-tree findings; a value found there counts as present at HEAD
+  signal?: AbortSignal;
+};
+
+const DEFAULT_DEPTH = 500;
+const MAX_LINE_LENGTH = 4000; // minified bundles and lockfiles produce huge lines with little signal
+const MAX_FINDINGS = 500;
+const COMMIT_MARKER = "\u001e";
+const FIELD_SEP = "\u001f";
+
+type CommitInfo = Pick<HistorySecretFinding, "commit" | "author" | "email" | "date" | "message">;
+
+// Walks `git log -p` output line by line so large histories never sit in memory as one string
+async function walkAddedLines(
+  request: HistorySecretScanRequest,
+  onLine: (commit: CommitInfo, filePath: string, line: number, text: string) => void
+): Promise<void> {
+  const args = [
+    "log",
+    "-p",
+    "--no-color",
+    "--no-ext-diff",
+    "--unified=0",
+    "--diff-filter=AM",
+    "--no-merges",
+    `--format=${COMMIT_MARKER}%H${FIELD_SEP}%an${FIELD_SEP}%ae${FIELD_SEP}%aI${FIELD_SEP}%s`,
+  ];
+  if (request.since) args.push(`--since=${request.since}`);
+  if (request.depth || !request.since) args.push(`--max-count=${request.depth ?? DEFAULT_DEPTH}`);
+
+  const proc = spawn("git", args, { cwd: request.repoDir, stdio: ["ignore", "pipe", "pipe"], signal: request.signal });
+  let stderr = "";
+  proc.stderr.on("data", (d) => (stderr += d.toString()));
+  const exited = new Promise<number | null>((resolve, reject) => {
+    proc.on("error", reject);
+    proc.on("close", resolve);
+  });
+
+  let commit: CommitInfo | null = null;
+  let filePath: string | null = null;
+  let nextLine = 0;
+  for await (const raw of createInterface({ input: proc.stdout, crlfDelay: Infinity })) {
+    if (raw.startsWith(COMMIT_MARKER)) {
+      const [sha, author, email, date, message] = raw.slice(1).split(FIELD_SEP);
+      commit = { commit: sha, author: author ?? "", email: email ?? "", date: date ?? "", message: message ?? "" };
+      filePath = null;
+    } else if (raw.startsWith("+++ ")) {
+      filePath = raw === "+++ /dev/null" ? null : raw.slice(4).replace(/^b\//, "");
+    } else if (raw.startsWith("@@")) {
+      const hunk = /^@@ -\d+(?:,\d+)? \+(\d+)/.exec(raw);
+      nextLine = hunk ? Number(hunk[1]) : 0;
+    } else if (raw.startsWith("+") && commit && filePath) {
+      if (raw.length <= MAX_LINE_LENGTH + 1) onLine(commit, filePath, nextLine, raw.slice(1));
+      nextLine += 1;
+    }
+  }
+  const code = await exited;
+  if (code !== 0) throw new Error(`git log failed: ${stderr.trim() || `exit code ${code}`}`);
+}
+
+// Scans lines added in past commits; each (file, value) pair is reported once, at the commit that introduced it
+export async function scanHistoryForSecrets(request: HistorySecretScanRequest): Promise<HistorySecretFinding[]> {
+  // Shallow clones only carry the tip, so fetch the window being scanned first
+  await deepenHistory(request.repoDir, {
+    depth: request.since ? undefined : request.depth ?? DEFAULT_DEPTH,
+    since: request.since,
+    signal: request.signal,
+  });
+
+  const found = new Map<string, HistorySecretFinding>();
+  await walkAddedLines(request, (commit, filePath, line, text) => {
+    const absolute = join(request.repoDir, filePath);
+    for (const finding of scanTextForSecrets(text, absolute, request.options)) {
+      const key = `${filePath}\u0000${finding.match}`;
+      // git log walks newest first, so a later sighting is an older (earlier-introducing) commit
+      if (!found.has(key) && found.size >= MAX_FINDINGS) continue;
+      found.set(key, { ...finding, line, ...commit, presentAtHead: false });
+    }
+  });
+
+  const headValues = new Set((request.headSecrets ?? []).map((s) => s.match));
+  const headFiles = new Map<string, string | null>();
+  const findings = [...found.values()];
+  for (const finding of findings) {
+    if (headValues.has(finding.match)) {
+      finding.presentAtHead = true;
+      continue;
+    }
+    if (!headFiles.has(finding.filePath)) {
+      headFiles.set(finding.filePath, await fs.readFile(finding.filePath, "utf8").catch(() => null));
+    }
+    finding.presentAtHead = headFiles.get(finding.filePath)?.includes(finding.match) ?? false;
+  }
+  return findings.sort((a, b) => Number(a.presentAtHead) - Number(b.presentAtHead) || b.date.localeCompare(a.date));
+}
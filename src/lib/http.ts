@@ -0,0 +1,49 @@
+import { requireJwtFromRequest } from "@/lib/auth";
+import { checkRateLimit } from "@/lib/rateLimit";
+
+export function jsonResponse(body: unknown, status = 200, headers?: Record<string, string>): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json", ...headers },
+  });
+}
+
+// Raw secret values need both a server-side opt-in (ALLOW_SECRET_REVEAL=true) and a JWT that grants
+// them (a `reveal_secrets: true` claim or the `secrets:reveal` scope). Returns a 403 response otherwise.
+export function authorizeSecretReveal(req: Request): Response | null {
+  if (process.env.ALLOW_SECRET_REVEAL !== "true") {
+    return jsonResponse({ error: "Revealing secrets is disabled on this server" }, 403);
+  }
+  try {
+    const claims = requireJwtFromRequest(req);
+    const scopes = typeof claims.scope === "string" ? claims.scope.split(" ") : [];
+    if (claims.reveal_secrets === true || scopes.includes("secrets:reveal")) return null;
+  } catch {}
+  return jsonResponse({ error: "Token is not allowed to reveal secrets" }, 403);
+}
+
+// Returns a 401 response when the request lacks a valid JWT, otherwise null
+export function authorizeRequest(req: Request): Response | null {
+  try {
+    requireJwtFromRequest(req);
+    return null;
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Unauthorized";
+    return jsonResponse({ error: message }, 401);
+  }
+}
+
+export function getClientIp(req: Request): string {
+  const xff = req.headers.get("x-forwarded-for");
+  if (xff) return xff.split(",")[0]?.trim() || "unknown";
+  const realIp = req.headers.get("x-real-ip");
+  if (realIp) return realIp;
+  return "local";
+}
+
+// Returns a 429 response when the caller's IP is over the limit, otherwise null
+export function enforceRateLimit(req: Request): Response | null {
+  const rate = checkRateLimit(getClientIp(req));
+  if (rate.ok) return null;
+  return jsonResponse({ error: "Rate limit exceeded" }, 429, { "retry-after": String(rate.retryAfterSeconds) });
+}
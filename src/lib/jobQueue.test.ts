@@ -0,0 +1,87 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { JobQueue, KeyedLock } from "@/lib/jobQueue";
+
+// A job that records when it starts and ends and finishes when `finish` is called
+function gate(log: string[], name: string) {
+  let finish!: () => void;
+  const done = new Promise<void>((resolve) => (finish = resolve));
+  return {
+    finish: () => finish(),
+    job: async () => {
+      log.push(`start ${name}`);
+      await done;
+      log.push(`end ${name}`);
+      return name;
+    },
+  };
+}
+
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+test("JobQueue runs at most `concurrency` jobs, in the order they were added", async () => {
+  const queue = new JobQueue(2);
+  const log: string[] = [];
+  const [a, b, c] = ["a", "b", "c"].map((name) => gate(log, name));
+  const results = [queue.add(a.job), queue.add(b.job), queue.add(c.job)];
+  await tick();
+  assert.deepEqual([queue.active, queue.pending], [2, 1]);
+  assert.deepEqual(log, ["start a", "start b"]);
+
+  b.finish();
+  await tick();
+  assert.deepEqual(log, ["start a", "start b", "end b", "start c"]);
+  a.finish();
+  c.finish();
+  assert.deepEqual(await Promise.all(results), ["a", "b", "c"]);
+  assert.deepEqual([queue.active, queue.pending], [0, 0]);
+});
+
+test("JobQueue drops a waiting job whose signal aborts", async () => {
+  const queue = new JobQueue(1);
+  const log: string[] = [];
+  const first = gate(log, "first");
+  const running = queue.add(first.job);
+  const controller = new AbortController();
+  const dropped = queue.add(gate(log, "dropped").job, controller.signal);
+  controller.abort(new Error("cancelled"));
+  await assert.rejects(dropped, /cancelled/);
+  assert.equal(queue.pending, 0);
+
+  first.finish();
+  await running;
+  assert.deepEqual(log, ["start first", "end first"]);
+  assert.equal(queue.active, 0);
+});
+
+test("KeyedLock runs jobs for one key one after another and other keys freely", async () => {
+  const lock = new KeyedLock();
+  const log: string[] = [];
+  const [a1, a2, b1] = ["a1", "a2", "b1"].map((name) => gate(log, name));
+  const results = [lock.run("a", a1.job), lock.run("a", a2.job), lock.run("b", b1.job)];
+  await tick();
+  assert.deepEqual(log, ["start a1", "start b1"]);
+
+  a1.finish();
+  await tick();
+  assert.deepEqual(log, ["start a1", "start b1", "end a1", "start a2"]);
+  a2.finish();
+  b1.finish();
+  assert.deepEqual(await Promise.all(results), ["a1", "a2", "b1"]);
+});
+
+test("KeyedLock drops a waiting job whose signal aborts and keeps the key usable", async () => {
+  const lock = new KeyedLock();
+  const log: string[] = [];
+  const first = gate(log, "first");
+  const running = lock.run("repo", first.job);
+  const controller = new AbortController();
+  const dropped = lock.run("repo", gate(log, "dropped").job, controller.signal);
+  controller.abort(new Error("cancelled"));
+  await assert.rejects(dropped, /cancelled/);
+
+  first.finish();
+  await running;
+  assert.equal(await lock.run("repo", async () => "next"), "next");
+  assert.deepEqual(log, ["start first", "end first"]);
+});
@@ -0,0 +1,82 @@
+// In-process queue that runs at most `concurrency` jobs at a time, in the order they were added.
+// Aborting a job's signal drops it if it has not started yet; a running job sees the abort through its own signal.
+export class JobQueue {
+  private running = 0;
+  private readonly waiting: Array<() => void> = [];
+
+  constructor(readonly concurrency: number) {
+    if (!Number.isInteger(concurrency) || concurrency < 1) throw new Error("concurrency must be a positive integer");
+  }
+
+  get pending(): number {
+    return this.waiting.length;
+  }
+
+  get active(): number {
+    return this.running;
+  }
+
+  async add<T>(job: (signal?: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    signal?.throwIfAborted();
+    // A finishing job hands its slot straight to the next waiter, so `running` never overshoots
+    if (this.running >= this.concurrency) await this.slot(signal);
+    else this.running += 1;
+    try {
+      return await job(signal);
+    } finally {
+      const next = this.waiting.shift();
+      if (next) next();
+      else this.running -= 1;
+    }
+  }
+
+  private slot(signal?: AbortSignal): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      const start = () => {
+        signal?.removeEventListener("abort", drop);
+        resolve();
+      };
+      const drop = () => {
+        const index = this.waiting.indexOf(start);
+        if (index >= 0) this.waiting.splice(index, 1);
+        reject(signal?.reason);
+      };
+      this.waiting.push(start);
+      signal?.addEventListener("abort", drop, { once: true });
+    });
+  }
+}
+
+// Runs jobs that share a key one after another (in the order they were added) and jobs with different keys freely.
+// Aborting a waiting job's signal drops it; keys are forgotten once nothing holds or waits on them.
+export class KeyedLock {
+  private readonly tails = new Map<string, Promise<void>>();
+
+  async run<T>(key: string, job: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    signal?.throwIfAborted();
+    const previous = this.tails.get(key) ?? Promise.resolve();
+    let release!: () => void;
+    const tail = new Promise<void>((resolve) => (release = resolve));
+    const chained = previous.then(() => tail);
+    this.tails.set(key, chained);
+    try {
+      await waitFor(previous, signal);
+      return await job();
+    } finally {
+      release();
+      if (this.tails.get(key) === chained) this.tails.delete(key);
+    }
+  }
+}
+
+function waitFor(turn: Promise<void>, signal?: AbortSignal): Promise<void> {
+  if (!signal) return turn;
+  return new Promise<void>((resolve, reject) => {
+    const drop = () => reject(signal.reason);
+    signal.addEventListener("abort", drop, { once: true });
+    turn.then(() => {
+      signal.removeEventListener("abort", drop);
+      resolve();
+    });
+  });
+}
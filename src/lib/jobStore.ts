@@ -0,0 +1,99 @@
+import { join } from "node:path";
+import { promises as fs } from "node:fs";
+
+export type JobKind = "scan" | "orgScan";
+
+export type JobStatus = "queued" | "running" | "succeeded" | "failed" | "cancelled";
+
+export type JobProgress = {
+  phases?: Record<string, { status: "start" | "done" | "skipped"; detail?: string }>; // scan phases
+  files?: { scanned: number; total: number; keywordHits: number; secrets: number };
+  repos?: Record<string, { status: "queued" | "running" | "scanned" | "failed"; detail?: string }>; // organisation scans
+};
+
+// What a job leaves behind: the stored scan or organisation inventory, read back through their own stores
+export type JobResultRef = { scanId?: string; orgId?: string };
+
+export type JobRecord = {
+  id: string;
+  kind: JobKind;
+  label: string; // repository or organisation, for listings
+  status: JobStatus;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  attempts: number;
+  maxAttempts: number;
+  progress: JobProgress;
+  result: JobResultRef | null;
+  error: { message: string; status: number; retryable: boolean } | null; // the last attempt's failure
+};
+
+// Where job records live; credentials from the request are never part of a record
+export type JobStore = {
+  save(job: JobRecord): Promise<void>;
+  get(id: string): Promise<JobRecord | null>;
+  list(limit?: number): Promise<JobRecord[]>; // newest first
+};
+
+const DEFAULT_LIST_LIMIT = 50;
+
+function newestFirst(a: JobRecord, b: JobRecord): number {
+  return b.createdAt.localeCompare(a.createdAt);
+}
+
+// Records are lost with the process; for tests and single-shot deployments
+export function memoryJobStore(): JobStore {
+  const jobs = new Map<string, JobRecord>();
+  return {
+    async save(job) {
+      jobs.set(job.id, structuredClone(job));
+    },
+    async get(id) {
+      const job = jobs.get(id);
+      return job ? structuredClone(job) : null;
+    },
+    async list(limit = DEFAULT_LIST_LIMIT) {
+      return [...jobs.values()].sort(newestFirst).slice(0, limit).map((j) => structuredClone(j));
+    },
+  };
+}
+
+// One JSON file per job under `dir`, written atomically
+export function fileJobStore(dir: string): JobStore {
+  const pathOf = (id: string) => join(dir, `${id}.json`);
+  const read = async (file: string): Promise<JobRecord | null> => {
+    try {
+      return JSON.parse(await fs.readFile(file, "utf8")) as JobRecord;
+    } catch {
+      return null;
+    }
+  };
+  return {
+    async save(job) {
+      await fs.mkdir(dir, { recursive: true });
+      const tmp = `${pathOf(job.id)}.${process.pid}.tmp`;
+      await fs.writeFile(tmp, JSON.stringify(job), "utf8");
+      await fs.rename(tmp, pathOf(job.id));
+    },
+    async get(id) {
+      return read(pathOf(id));
+    },
+    async list(limit = DEFAULT_LIST_LIMIT) {
+      let names: string[];
+      try {
+        names = (await fs.readdir(dir)).filter((n) => n.endsWith(".json"));
+      } catch {
+        return [];
+      }
+      const jobs = await Promise.all(names.map((n) => read(join(dir, n))));
+      return jobs.filter((j): j is JobRecord => j !== null).sort(newestFirst).slice(0, limit);
+    },
+  };
+}
+
+// JOB_STORE=memory keeps jobs in process; the default persists them in .data/jobs
+export function createJobStore(): JobStore {
+  if (process.env.JOB_STORE?.trim() === "memory") return memoryJobStore();
+  return fileJobStore(join(process.cwd(), ".data", "jobs"));
+}
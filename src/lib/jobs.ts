@@ -0,0 +1,211 @@
+import { randomUUID } from "node:crypto";
+import { JobQueue } from "@/lib/jobQueue";
+import { createJobStore, type JobKind, type JobProgress, type JobRecord, type JobResultRef, type JobStore } from "@/lib/jobStore";
+import { ScanError, type ScanEvent } from "@/lib/scanRepository";
+import { secretValuesIn } from "@/lib/redact";
+
+export type JobContext = {
+  signal: AbortSignal;
+  attempt: number; // 1-based
+  progress(update: JobProgress): void; // merged into the record's progress
+  event(event: ScanEvent): void; // buffered for pollers and folded into progress
+};
+
+export type JobHandler = (context: JobContext) => Promise<JobResultRef>;
+
+// A job currently held by this process; events are only buffered while it is live
+type LiveJob = { record: JobRecord; controller: AbortController; events: ScanEvent[] };
+
+type JobRunner = { store: JobStore; queue: JobQueue; live: Map<string, LiveJob>; recovered: Promise<void> };
+
+const ID_PATTERN = /^[a-f0-9-]{8,64}$/;
+const DEFAULT_WORKERS = 2;
+const DEFAULT_MAX_ATTEMPTS = 3;
+const RETRY_BASE_MS = 2000;
+const MAX_EVENTS_PER_POLL = 200;
+
+function envInt(name: string, fallback: number, max: number): number {
+  const value = Number.parseInt(process.env[name] ?? "", 10);
+  return Number.isInteger(value) && value >= 1 ? Math.min(value, max) : fallback;
+}
+
+// Jobs that were queued or running when the process stopped have no worker left; they are failed, not resumed
+async function recoverInterrupted(store: JobStore): Promise<void> {
+  try {
+    for (const job of await store.list(Number.MAX_SAFE_INTEGER)) {
+      if (job.status !== "queued" && job.status !== "running") continue;
+      await store.save({
+        ...job,
+        status: "failed",
+        finishedAt: new Date().toISOString(),
+        error: { message: "Interrupted by a server restart", status: 500, retryable: false },
+      });
+    }
+  } catch {}
+}
+
+// One runner per process, kept on globalThis so dev-server module reloads do not orphan running jobs
+function runner(): JobRunner {
+  const global = globalThis as typeof globalThis & { __promptExplorerJobs?: JobRunner };
+  if (!global.__promptExplorerJobs) {
+    const store = createJobStore();
+    global.__promptExplorerJobs = {
+      store,
+      queue: new JobQueue(envInt("SCAN_WORKERS", DEFAULT_WORKERS, 16)),
+      live: new Map(),
+      recovered: recoverInterrupted(store),
+    };
+  }
+  return global.__promptExplorerJobs;
+}
+
+export function isValidJobId(id: string): boolean {
+  return ID_PATTERN.test(id);
+}
+
+function isRetryable(error: unknown): boolean {
+  return error instanceof ScanError && error.retryable;
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", stop);
+      resolve();
+    }, ms);
+    const stop = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    signal.addEventListener("abort", stop, { once: true });
+  });
+}
+
+function applyEvent(progress: JobProgress, event: ScanEvent): JobProgress {
+  if (event.type === "phase") {
+    return { ...progress, phases: { ...progress.phases, [event.phase]: { status: event.status, detail: event.detail } } };
+  }
+  if (event.type === "progress") {
+    return { ...progress, files: { scanned: event.filesScanned, total: event.totalFiles, keywordHits: event.keywordHits, secrets: event.secrets } };
+  }
+  return progress;
+}
+
+async function execute(live: LiveJob, handler: JobHandler, store: JobStore): Promise<void> {
+  const { record, controller } = live;
+  const signal = controller.signal;
+  record.status = "running";
+  record.startedAt = new Date().toISOString();
+  await store.save(record).catch(() => {});
+  for (;;) {
+    record.attempts += 1;
+    try {
+      record.result = await handler({
+        signal,
+        attempt: record.attempts,
+        progress: (update) => {
+          record.progress = { ...record.progress, ...update };
+        },
+        event: (event) => {
+          live.events.push(event);
+          record.progress = applyEvent(record.progress, event);
+        },
+      });
+      record.status = "succeeded";
+      record.error = null;
+      return;
+    } catch (error: unknown) {
+      if (signal.aborted) {
+        record.status = "cancelled";
+        return;
+      }
+      const retryable = isRetryable(error);
+      record.error = {
+        message: error instanceof Error ? error.message : String(error),
+        status: error instanceof ScanError ? error.status : 500,
+        retryable,
+      };
+      if (!retryable || record.attempts >= record.maxAttempts) {
+        record.status = "failed";
+        return;
+      }
+      await store.save(record).catch(() => {});
+      try {
+        await sleep(RETRY_BASE_MS * 2 ** (record.attempts - 1), signal);
+      } catch {
+        record.status = "cancelled";
+        return;
+      }
+    }
+  }
+}
+
+// Queues a job on the in-process worker pool (SCAN_WORKERS, default 2) and returns its record straight away.
+// Failures marked retryable (transient clone errors) are retried with backoff up to JOB_MAX_ATTEMPTS times.
+export async function submitJob(kind: JobKind, label: string, handler: JobHandler): Promise<JobRecord> {
+  const { store, queue, live, recovered } = runner();
+  await recovered;
+  const record: JobRecord = {
+    id: randomUUID(),
+    kind,
+    label,
+    status: "queued",
+    createdAt: new Date().toISOString(),
+    startedAt: null,
+    finishedAt: null,
+    attempts: 0,
+    maxAttempts: envInt("JOB_MAX_ATTEMPTS", DEFAULT_MAX_ATTEMPTS, 10),
+    progress: {},
+    result: null,
+    error: null,
+  };
+  const job: LiveJob = { record, controller: new AbortController(), events: [] };
+  live.set(record.id, job);
+  await store.save(record);
+  queue
+    .add(() => execute(job, handler, store), job.controller.signal)
+    .catch(() => {
+      // Cancelled before a worker picked it up
+      record.status = "cancelled";
+    })
+    .finally(async () => {
+      record.finishedAt = new Date().toISOString();
+      await store.save(record).catch(() => {});
+      live.delete(record.id);
+    });
+  return structuredClone(record);
+}
+
+export async function getJob(id: string): Promise<JobRecord | null> {
+  if (!isValidJobId(id)) return null;
+  const { store, live, recovered } = runner();
+  await recovered;
+  const job = live.get(id);
+  return job ? structuredClone(job.record) : store.get(id);
+}
+
+// Scan events after `after` while the job is live; `next` is the cursor for the following poll
+// `secretValues` covers every buffered event, so a poll can mask secrets the job reported after an earlier partial
+export function getJobEvents(id: string, after: number): { events: ScanEvent[]; next: number; secretValues: string[] } {
+  const job = runner().live.get(id);
+  if (!job) return { events: [], next: after, secretValues: [] };
+  const events = job.events.slice(after, after + MAX_EVENTS_PER_POLL);
+  return { events, next: after + events.length, secretValues: secretValuesIn(job.events) };
+}
+
+export async function listJobs(limit?: number): Promise<JobRecord[]> {
+  const { store, live, recovered } = runner();
+  await recovered;
+  return (await store.list(limit)).map((job) => {
+    const current = live.get(job.id);
+    return current ? structuredClone(current.record) : job;
+  });
+}
+
+// Aborts a queued or running job; the record turns "cancelled" once its worker has stopped
+export async function cancelJob(id: string): Promise<JobRecord | null> {
+  const job = runner().live.get(id);
+  if (!job) return getJob(id);
+  job.controller.abort();
+  return structuredClone(job.record);
+}
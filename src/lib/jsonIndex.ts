@@ -0,0 +1,38 @@
+import { randomUUID } from "node:crypto";
+import { dirname } from "node:path";
+import { promises as fs } from "node:fs";
+import { KeyedLock } from "@/lib/jobQueue";
+
+// An index kept as one JSON array on disk, as the scan and organisation stores use
+export type JsonIndex<T> = {
+  read(): Promise<T[]>; // empty when the file is missing or unreadable
+  write(entries: T[]): Promise<void>; // via a temporary file and a rename, so readers never see half an index
+  withLock<R>(fn: () => Promise<R>): Promise<R>; // serialises read-modify-write cycles within this process
+};
+
+const indexLocks = new KeyedLock();
+
+export function createJsonIndex<T>(file: string): JsonIndex<T> {
+  return {
+    async read() {
+      try {
+        return JSON.parse(await fs.readFile(file, "utf8")) as T[];
+      } catch {
+        return [];
+      }
+    },
+    async write(entries) {
+      await fs.mkdir(dirname(file), { recursive: true });
+      const tmp = `${file}.${process.pid}.${randomUUID()}.tmp`;
+      try {
+        await fs.writeFile(tmp, JSON.stringify(entries), "utf8");
+        await fs.rename(tmp, file);
+      } finally {
+        await fs.rm(tmp, { force: true });
+      }
+    },
+    withLock(fn) {
+      return indexLocks.run(file, fn);
+    },
+  };
+}
@@ -0,0 +1,306 @@
+import { createHash } from "node:crypto";
+
+export const MODEL_PROVIDERS = ["openai", "anthropic", "azure", "mock"] as const;
+
+export type ModelProviderId = (typeof MODEL_PROVIDERS)[number];
+
+export type ModelConfig = {
+  provider: ModelProviderId;
+  model: string;
+  baseUrl?: string; // openai-compatible base (…/v1), Anthropic API root or Azure resource endpoint
+  apiKey?: string;
+  apiVersion?: string; // Azure only
+};
+
+// What a caller may pick per request; endpoints and keys only ever come from the server environment
+export type ModelSelection = { provider?: ModelProviderId; model?: string };
+
+export type ChatRequest = {
+  system: string; // empty means no system message
+  user: string;
+  temperature?: number;
+  maxTokens?: number;
+  signal?: AbortSignal;
+};
+
+export type ChatCompletion = {
+  text: string;
+  provider: ModelProviderId;
+  model: string;
+  usage?: { inputTokens: number; outputTokens: number };
+};
+
+export type ModelProvider = {
+  id: ModelProviderId;
+  model: string;
+  complete(request: ChatRequest): Promise<ChatCompletion>;
+};
+
+export type ModelErrorCode = "not_configured" | "http_error" | "network" | "invalid_response";
+
+export type ModelErrorInfo = { provider: ModelProviderId | null; code: ModelErrorCode; status?: number; message: string };
+
+// Surfaced in scan responses (as `analysisError`) instead of being swallowed
+export class ModelProviderError extends Error {
+  constructor(
+    message: string,
+    readonly provider: ModelProviderId | null,
+    readonly code: ModelErrorCode,
+    readonly status?: number
+  ) {
+    super(message);
+    this.name = "ModelProviderError";
+  }
+
+  toJSON(): ModelErrorInfo {
+    return { provider: this.provider, code: this.code, status: this.status, message: this.message };
+  }
+}
+
+const DEFAULT_MODELS: Record<ModelProviderId, string> = {
+  openai: "gpt-4o-mini",
+  anthropic: "claude-3-5-haiku-latest",
+  azure: "gpt-4o-mini",
+  mock: "mock-1",
+};
+
+const ANTHROPIC_VERSION = "2023-06-01";
+const AZURE_API_VERSION = "2024-10-21";
+const ERROR_BODY_CHARS = 300;
+
+function env(name: string): string | undefined {
+  const value = process.env[name]?.trim();
+  return value ? value : undefined;
+}
+
+// First provider with credentials in the environment (MODEL_PROVIDER wins when set)
+function defaultProvider(): ModelProviderId | null {
+  const explicit = env("MODEL_PROVIDER");
+  if (explicit) return (MODEL_PROVIDERS as readonly string[]).includes(explicit) ? (explicit as ModelProviderId) : null;
+  if (env("OPENAI_API_KEY") || env("OPENAI_BASE_URL")) return "openai";
+  if (env("ANTHROPIC_API_KEY")) return "anthropic";
+  if (env("AZURE_OPENAI_ENDPOINT")) return "azure";
+  return null;
+}
+
+// Resolves the provider for a request from the environment; null when nothing is configured
+export function resolveModelConfig(selection?: ModelSelection): ModelConfig | null {
+  const provider = selection?.provider ?? defaultProvider();
+  if (!provider) return null;
+  switch (provider) {
+    case "openai": {
+      const baseUrl = env("OPENAI_BASE_URL") ?? "https://api.openai.com/v1";
+      const apiKey = env("OPENAI_API_KEY");
+      // Local OpenAI-compatible servers (Ollama, vLLM) usually need no key, but the public API does
+      if (!apiKey && !env("OPENAI_BASE_URL")) return null;
+      return { provider, baseUrl, apiKey, model: selection?.model ?? env("OPENAI_MODEL") ?? DEFAULT_MODELS.openai };
+    }
+    case "anthropic": {
+      const apiKey = env("ANTHROPIC_API_KEY");
+      if (!apiKey) return null;
+      const baseUrl = env("ANTHROPIC_BASE_URL") ?? "https://api.anthropic.com";
+      return { provider, baseUrl, apiKey, model: selection?.model ?? env("ANTHROPIC_MODEL") ?? DEFAULT_MODELS.anthropic };
+    }
+    case "azure": {
+      const baseUrl = env("AZURE_OPENAI_ENDPOINT");
+      const apiKey = env("AZURE_OPENAI_API_KEY");
+      if (!baseUrl || !apiKey) return null;
+      return {
+        provider,
+        baseUrl,
+        apiKey,
+        apiVersion: env("AZURE_OPENAI_API_VERSION") ?? AZURE_API_VERSION,
+        // Azure addresses deployments, not models; the deployment name goes in `model`
+        model: selection?.model ?? env("AZURE_OPENAI_DEPLOYMENT") ?? DEFAULT_MODELS.azure,
+      };
+    }
+    case "mock":
+      return { provider, model: selection?.model ?? DEFAULT_MODELS.mock };
+  }
+}
+
+async function postJson(
+  provider: ModelProviderId,
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  signal?: AbortSignal
+): Promise<unknown> {
+  let res: Response;
+  try {
+    res = await fetch(url, {
+      method: "POST",
+      headers: { "content-type": "application/json", ...headers },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (error: unknown) {
+    signal?.throwIfAborted();
+    const message = error instanceof Error ? error.message : String(error);
+    throw new ModelProviderError(`Request to ${provider} failed: ${message}`, provider, "network");
+  }
+  const text = await res.text();
+  if (!res.ok) {
+    throw new ModelProviderError(
+      `${provider} returned HTTP ${res.status}: ${text.slice(0, ERROR_BODY_CHARS)}`,
+      provider,
+      "http_error",
+      res.status
+    );
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new ModelProviderError(`${provider} returned a non-JSON body`, provider, "invalid_response", res.status);
+  }
+}
+
+type OpenAiChatResponse = {
+  choices?: Array<{ message?: { content?: string | null } }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+};
+
+function fromOpenAiResponse(provider: ModelProviderId, model: string, data: unknown): ChatCompletion {
+  const response = data as OpenAiChatResponse;
+  const text = response?.choices?.[0]?.message?.content;
+  if (typeof text !== "string") {
+    throw new ModelProviderError(`${provider} response has no message content`, provider, "invalid_response");
+  }
+  const usage = response.usage
+    ? { inputTokens: response.usage.prompt_tokens ?? 0, outputTokens: response.usage.completion_tokens ?? 0 }
+    : undefined;
+  return { text, provider, model, usage };
+}
+
+function openAiMessages(request: ChatRequest) {
+  return [
+    ...(request.system ? [{ role: "system", content: request.system }] : []),
+    { role: "user", content: request.user },
+  ];
+}
+
+function openAiProvider(config: ModelConfig): ModelProvider {
+  const base = (config.baseUrl ?? "").replace(/\/+$/, "");
+  return {
+    id: "openai",
+    model: config.model,
+    async complete(request) {
+      const data = await postJson(
+        "openai",
+        `${base}/chat/completions`,
+        config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {},
+        {
+          model: config.model,
+          messages: openAiMessages(request),
+          temperature: request.temperature ?? 0.1,
+          ...(request.maxTokens ? { max_tokens: request.maxTokens } : {}),
+        },
+        request.signal
+      );
+      return fromOpenAiResponse("openai", config.model, data);
+    },
+  };
+}
+
+function azureProvider(config: ModelConfig): ModelProvider {
+  const base = (config.baseUrl ?? "").replace(/\/+$/, "");
+  const url = `${base}/openai/deployments/${encodeURIComponent(config.model)}/chat/completions?api-version=${config.apiVersion}`;
+  return {
+    id: "azure",
+    model: config.model,
+    async complete(request) {
+      const data = await postJson(
+        "azure",
+        url,
+        { "api-key": config.apiKey ?? "" },
+        {
+          messages: openAiMessages(request),
+          temperature: request.temperature ?? 0.1,
+          ...(request.maxTokens ? { max_tokens: request.maxTokens } : {}),
+        },
+        request.signal
+      );
+      return fromOpenAiResponse("azure", config.model, data);
+    },
+  };
+}
+
+type AnthropicMessageResponse = {
+  content?: Array<{ type: string; text?: string }>;
+  usage?: { input_tokens?: number; output_tokens?: number };
+};
+
+function anthropicProvider(config: ModelConfig): ModelProvider {
+  const base = (config.baseUrl ?? "").replace(/\/+$/, "");
+  return {
+    id: "anthropic",
+    model: config.model,
+    async complete(request) {
+      const data = (await postJson(
+        "anthropic",
+        `${base}/v1/messages`,
+        { "x-api-key": config.apiKey ?? "", "anthropic-version": ANTHROPIC_VERSION },
+        {
+          model: config.model,
+          ...(request.system ? { system: request.system } : {}),
+          messages: [{ role: "user", content: request.user }],
+          max_tokens: request.maxTokens ?? 2048, // required by the Messages API
+          temperature: request.temperature ?? 0.1,
+        },
+        request.signal
+      )) as AnthropicMessageResponse;
+      const text = (data?.content ?? []).filter((c) => c.type === "text").map((c) => c.text ?? "").join("");
+      if (!text) throw new ModelProviderError("anthropic response has no text content", "anthropic", "invalid_response");
+      const usage = data.usage ? { inputTokens: data.usage.input_tokens ?? 0, outputTokens: data.usage.output_tokens ?? 0 } : undefined;
+      return { text, provider: "anthropic", model: config.model, usage };
+    },
+  };
+}
+
+// Deterministic offline provider for tests and demos. MOCK_MODEL_RESPONSE fixes the reply; otherwise the
+// reply is a minimal analysis JSON keyed by a digest of the input, so identical input gives identical output.
+export function mockProvider(config?: Partial<ModelConfig>, respond?: (request: ChatRequest) => string): ModelProvider {
+  const model = config?.model ?? DEFAULT_MODELS.mock;
+  return {
+    id: "mock",
+    model,
+    async complete(request) {
+      request.signal?.throwIfAborted();
+      const digest = createHash("sha256").update(`${request.system}\u0000${request.user}`).digest("hex").slice(0, 12);
+      const text =
+        respond?.(request) ??
+        env("MOCK_MODEL_RESPONSE") ??
+        JSON.stringify({ summary: `Mock analysis ${digest}`, logic: "", files: [], redundancies: [] });
+      // Rough 4-characters-per-token estimate keeps usage numbers plausible
+      const usage = { inputTokens: Math.ceil((request.system.length + request.user.length) / 4), outputTokens: Math.ceil(text.length / 4) };
+      return { text, provider: "mock", model, usage };
+    },
+  };
+}
+
+export function createModelProvider(config: ModelConfig): ModelProvider {
+  switch (config.provider) {
+    case "openai":
+      return openAiProvider(config);
+    case "anthropic":
+      return anthropicProvider(config);
+    case "azure":
+      return azureProvider(config);
+    case "mock":
+      return mockProvider(config);
+  }
+}
+
+// Provider for a request, or a not_configured error naming what is missing
+export function getModelProvider(selection?: ModelSelection): ModelProvider {
+  const config = resolveModelConfig(selection);
+  if (!config) {
+    const requested = selection?.provider ?? env("MODEL_PROVIDER") ?? null;
+    const known = requested && (MODEL_PROVIDERS as readonly string[]).includes(requested) ? (requested as ModelProviderId) : null;
+    const message = requested
+      ? `Model provider "${requested}" is not configured on the server`
+      : "No model provider is configured (set OPENAI_API_KEY, OPENAI_BASE_URL, ANTHROPIC_API_KEY or AZURE_OPENAI_ENDPOINT)";
+    throw new ModelProviderError(message, known, "not_configured");
+  }
+  return createModelProvider(config);
+}
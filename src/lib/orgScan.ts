@@ -0,0 +1,336 @@
+import { basename, relative } from "node:path";
+import { JobQueue } from "@/lib/jobQueue";
+import { getRepoHostClient, RepoHostError, type RepoHostId } from "@/lib/repoHosts";
+import { runScan, ScanError, type ScanResult } from "@/lib/scanRepository";
+import { saveScan } from "@/lib/scanStore";
+import { clusterPrompts, type ClusterKind, type ClusterMember } from "@/lib/promptClusters";
+import type { PythonPrompt } from "@/lib/extract/pythonExtractor";
+import type { SecretFinding } from "@/lib/secretsScan";
+import type { TokenizerId } from "@/lib/tokenCount";
+
+// A repository registered by hand; `name` defaults to the last path segment
+export type OrgRepoTarget = { name?: string; repoUrl?: string; localPath?: string; branch?: string };
+
+// An organisation enumerated through a host client at scan time
+export type OrgHostSource = { host: RepoHostId; org: string; includeForks?: boolean; includeArchived?: boolean; limit?: number };
+
+export type OrgDefinition = { id: string; name: string; repositories: OrgRepoTarget[]; source: OrgHostSource | null };
+
+export type OrgScanOptions = {
+  branch?: string; // for registered repositories without their own; host repositories use their default branch
+  concurrency?: number; // repositories scanned at once
+  sshKey?: string;
+  githubToken?: string; // cloning and, for the github host, listing private repositories
+  tokenizers?: TokenizerId[];
+};
+
+export type OrgRepoRollup = {
+  name: string;
+  url: string | null;
+  path: string | null;
+  branch: string;
+  commit: string | null;
+  scanId: string | null; // the repository's own entry in scan history
+  status: "scanned" | "failed";
+  error?: string;
+  prompts: number;
+  callSites: number;
+  secrets: number;
+  lint: number;
+  promptTokens: number;
+  providers: string[];
+  durationMs: number;
+};
+
+// Paths are relative to the repository root
+export type InventoryPrompt = {
+  repo: string;
+  filePath: string;
+  line: number;
+  language: "python" | "typescript";
+  role: PythonPrompt["role"];
+  functionName: string | null;
+  callSignature: string | null;
+  provider: string | null;
+  text: string;
+};
+
+export type InventoryCallSite = {
+  repo: string;
+  filePath: string;
+  line: number;
+  functionName: string | null;
+  callSignature: string | null;
+  provider: string | null;
+  prompts: number;
+  tokens: number;
+};
+
+export type InventorySecret = SecretFinding & { repo: string };
+
+export type CrossRepoDuplicate = {
+  id: string;
+  kind: ClusterKind;
+  similarity: number;
+  repos: string[];
+  members: Array<ClusterMember & { repo: string }>; // representative first
+};
+
+export type OrgInventory = {
+  orgId: string;
+  name: string;
+  startedAt: string;
+  finishedAt: string;
+  source: OrgHostSource | null;
+  totals: {
+    repositories: number;
+    scanned: number;
+    failed: number;
+    prompts: number;
+    callSites: number;
+    secrets: number;
+    duplicates: number;
+    promptTokens: number;
+  };
+  repositories: OrgRepoRollup[];
+  prompts: InventoryPrompt[];
+  callSites: InventoryCallSite[];
+  secrets: InventorySecret[];
+  duplicates: CrossRepoDuplicate[];
+};
+
+export type OrgScanEvent =
+  | { type: "repos"; repositories: Array<{ name: string; branch: string }> }
+  | { type: "repo"; name: string; status: "running" | "scanned" | "failed"; detail?: string };
+
+type ResolvedTarget = { name: string; repoUrl?: string; localPath?: string; branch: string };
+
+export const DEFAULT_ORG_CONCURRENCY = 2;
+export const MAX_ORG_CONCURRENCY = 8;
+
+function targetName(target: OrgRepoTarget): string {
+  const source = (target.repoUrl ?? target.localPath ?? "repo").replace(/\/+$/, "");
+  return target.name || basename(source).replace(/\.git$/, "") || "repo";
+}
+
+function hostStatus(error: RepoHostError): number {
+  if (error.code === "not_found") return 404;
+  if (error.code === "not_configured") return 400;
+  return 502;
+}
+
+// Registered repositories first, then the host's; the same URL or path is scanned once and names are made unique
+async function resolveTargets(org: OrgDefinition, options: OrgScanOptions, signal?: AbortSignal): Promise<ResolvedTarget[]> {
+  const targets: ResolvedTarget[] = org.repositories.map((t) => ({
+    name: targetName(t),
+    repoUrl: t.repoUrl,
+    localPath: t.localPath,
+    branch: t.branch ?? options.branch ?? "main",
+  }));
+  if (org.source) {
+    const { host, org: hostOrg, ...listOptions } = org.source;
+    try {
+      const repos = await getRepoHostClient(host).listRepositories(hostOrg, { ...listOptions, token: options.githubToken, signal });
+      for (const r of repos) {
+        targets.push({ name: r.name, repoUrl: r.cloneUrl ?? undefined, localPath: r.localPath ?? undefined, branch: r.defaultBranch });
+      }
+    } catch (error: unknown) {
+      signal?.throwIfAborted();
+      if (error instanceof RepoHostError) {
+        const transient = error.code === "network" || (error.status !== undefined && error.status >= 500);
+        throw new ScanError(error.message, hostStatus(error), transient);
+      }
+      throw error;
+    }
+  }
+  const seen = new Set<string>();
+  const names = new Map<string, number>();
+  const out: ResolvedTarget[] = [];
+  for (const t of targets) {
+    const key = t.localPath ?? t.repoUrl ?? t.name;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    // Names prefix paths in the duplicate clustering, so they must not contain a slash
+    const name = t.name.replace(/\//g, "-");
+    const count = (names.get(name) ?? 0) + 1;
+    names.set(name, count);
+    out.push({ ...t, name: count > 1 ? `${name}-${count}` : name });
+  }
+  return out;
+}
+
+function toInventoryPrompt(repo: string, root: string, p: PythonPrompt, language: InventoryPrompt["language"]): InventoryPrompt {
+  return {
+    repo,
+    filePath: relative(root, p.filePath),
+    line: p.line,
+    language,
+    role: p.role,
+    functionName: p.functionName ?? null,
+    callSignature: p.callSignature ?? null,
+    provider: p.provider ?? null,
+    text: p.text,
+  };
+}
+
+// Folds one finished scan into the inventory; the full result stays in scan history under `scanId`
+function collect(inventory: OrgInventory, target: ResolvedTarget, result: ScanResult, durationMs: number): OrgRepoRollup {
+  const root = result.repo.path;
+  const prompts = [
+    ...result.extracted.python.map((p) => toInventoryPrompt(target.name, root, p, "python")),
+    ...result.extracted.typescript.map((p) => toInventoryPrompt(target.name, root, p, "typescript")),
+  ];
+  const callSites: InventoryCallSite[] = (result.prompts.tokens?.byCallSite ?? []).map((c) => ({
+    repo: target.name,
+    filePath: relative(root, c.filePath),
+    line: c.line,
+    functionName: c.functionName,
+    callSignature: c.callSignature,
+    provider: c.provider,
+    prompts: c.prompts,
+    tokens: c.tokens,
+  }));
+  const secrets = result.secrets.map((s) => ({ ...s, repo: target.name, filePath: relative(root, s.filePath) }));
+  inventory.prompts.push(...prompts);
+  inventory.callSites.push(...callSites);
+  inventory.secrets.push(...secrets);
+  return {
+    name: target.name,
+    url: result.repo.url,
+    path: target.localPath ?? null,
+    branch: result.repo.branch,
+    commit: result.repo.commit,
+    scanId: result.scanId ?? null,
+    status: "scanned",
+    prompts: prompts.length,
+    callSites: callSites.length,
+    secrets: secrets.length,
+    lint: result.prompts.lint?.length ?? 0,
+    promptTokens: result.prompts.tokens?.totalTokens ?? 0,
+    providers: [...new Set(prompts.map((p) => p.provider).filter((p): p is string => Boolean(p)))].sort(),
+    durationMs,
+  };
+}
+
+// Clusters every prompt of the organisation and keeps the clusters that span more than one repository.
+// Paths are prefixed with the repository name for clustering and split back afterwards.
+function crossRepoDuplicates(prompts: InventoryPrompt[]): CrossRepoDuplicate[] {
+  const asPrompt = (p: InventoryPrompt): PythonPrompt => ({
+    role: p.role,
+    text: p.text,
+    filePath: `${p.repo}/${p.filePath}`,
+    line: p.line,
+    functionName: p.functionName ?? undefined,
+    callSignature: p.callSignature ?? undefined,
+  });
+  const report = clusterPrompts({
+    python: prompts.filter((p) => p.language === "python").map(asPrompt),
+    typescript: prompts.filter((p) => p.language === "typescript").map(asPrompt),
+  });
+  const duplicates: CrossRepoDuplicate[] = [];
+  for (const cluster of report.clusters) {
+    const members = cluster.members.map((m) => {
+      const slash = m.filePath.indexOf("/");
+      return { ...m, repo: m.filePath.slice(0, slash), filePath: m.filePath.slice(slash + 1) };
+    });
+    const repos = [...new Set(members.map((m) => m.repo))];
+    if (repos.length < 2) continue;
+    duplicates.push({ id: cluster.id, kind: cluster.kind, similarity: cluster.similarity, repos, members });
+  }
+  return duplicates.sort((a, b) => b.repos.length - a.repos.length || b.members.length - a.members.length);
+}
+
+// Scans every repository of an organisation through a bounded job queue. Each repository is saved to scan
+// history on its own; one failing repository is reported in its rollup and does not stop the batch.
+export async function runOrgScan(
+  org: OrgDefinition,
+  options: OrgScanOptions,
+  hooks?: { signal?: AbortSignal; onEvent?: (event: OrgScanEvent) => void }
+): Promise<OrgInventory> {
+  const signal = hooks?.signal;
+  const emit = hooks?.onEvent ?? (() => {});
+  const startedAt = new Date().toISOString();
+  const targets = await resolveTargets(org, options, signal);
+  emit({ type: "repos", repositories: targets.map((t) => ({ name: t.name, branch: t.branch })) });
+
+  const inventory: OrgInventory = {
+    orgId: org.id,
+    name: org.name,
+    startedAt,
+    finishedAt: startedAt,
+    source: org.source,
+    totals: { repositories: targets.length, scanned: 0, failed: 0, prompts: 0, callSites: 0, secrets: 0, duplicates: 0, promptTokens: 0 },
+    repositories: [],
+    prompts: [],
+    callSites: [],
+    secrets: [],
+    duplicates: [],
+  };
+  const queue = new JobQueue(Math.min(Math.max(options.concurrency ?? DEFAULT_ORG_CONCURRENCY, 1), MAX_ORG_CONCURRENCY));
+  const rollups = await Promise.all(
+    targets.map((target) =>
+      queue.add(async (jobSignal) => {
+        emit({ type: "repo", name: target.name, status: "running" });
+        const started = Date.now();
+        try {
+          if (!target.repoUrl && !target.localPath) throw new ScanError("Repository has neither a clone URL nor a local path", 400);
+          const result = await runScan(
+            {
+              repoUrl: target.repoUrl,
+              localPath: target.localPath,
+              branch: target.branch,
+              useModel: false,
+              sshKey: options.sshKey,
+              githubToken: options.githubToken,
+              tokenizers: options.tokenizers,
+            },
+            { signal: jobSignal }
+          );
+          let scanId: string | undefined;
+          try {
+            scanId = (await saveScan(result)).id;
+          } catch {}
+          const rollup = collect(inventory, target, { ...result, scanId }, Date.now() - started);
+          emit({ type: "repo", name: target.name, status: "scanned", detail: `${rollup.prompts} prompts, ${rollup.secrets} secrets` });
+          return rollup;
+        } catch (error: unknown) {
+          jobSignal?.throwIfAborted();
+          const message = error instanceof Error ? error.message : String(error);
+          emit({ type: "repo", name: target.name, status: "failed", detail: message });
+          return {
+            name: target.name,
+            url: target.repoUrl ?? null,
+            path: target.localPath ?? null,
+            branch: target.branch,
+            commit: null,
+            scanId: null,
+            status: "failed",
+            error: message,
+            prompts: 0,
+            callSites: 0,
+            secrets: 0,
+            lint: 0,
+            promptTokens: 0,
+            providers: [],
+            durationMs: Date.now() - started,
+          } satisfies OrgRepoRollup;
+        }
+      }, signal)
+    )
+  );
+
+  inventory.repositories = rollups;
+  inventory.duplicates = crossRepoDuplicates(inventory.prompts);
+  inventory.finishedAt = new Date().toISOString();
+  inventory.totals = {
+    repositories: rollups.length,
+    scanned: rollups.filter((r) => r.status === "scanned").length,
+    failed: rollups.filter((r) => r.status === "failed").length,
+    prompts: inventory.prompts.length,
+    callSites: inventory.callSites.length,
+    secrets: inventory.secrets.length,
+    duplicates: inventory.duplicates.length,
+    promptTokens: rollups.reduce((sum, r) => sum + r.promptTokens, 0),
+  };
+  return inventory;
+}
@@ -0,0 +1,78 @@
+import { randomUUID } from "node:crypto";
+import { join } from "node:path";
+import { promises as fs } from "node:fs";
+import { createJsonIndex } from "@/lib/jsonIndex";
+import type { OrgDefinition, OrgInventory } from "@/lib/orgScan";
+
+export type OrgRegistration = OrgDefinition & {
+  createdAt: string;
+  updatedAt: string;
+  lastScan: { finishedAt: string; totals: OrgInventory["totals"] } | null;
+};
+
+const ORGS_DIR = join(process.cwd(), ".data", "orgs");
+const index = createJsonIndex<OrgRegistration>(join(ORGS_DIR, "index.json"));
+const ID_PATTERN = /^[a-f0-9-]{8,64}$/;
+
+// Latest inventory of an organisation; each scan replaces it
+function inventoryPath(id: string): string {
+  return join(ORGS_DIR, `${id}.inventory.json`);
+}
+
+export function isValidOrgId(id: string): boolean {
+  return ID_PATTERN.test(id);
+}
+
+export async function registerOrg(definition: Omit<OrgDefinition, "id">): Promise<OrgRegistration> {
+  const now = new Date().toISOString();
+  const org: OrgRegistration = { id: randomUUID(), ...definition, createdAt: now, updatedAt: now, lastScan: null };
+  await index.withLock(async () => {
+    const entries = await index.read();
+    entries.unshift(org);
+    await index.write(entries);
+  });
+  return org;
+}
+
+export async function listOrgs(): Promise<OrgRegistration[]> {
+  return index.read();
+}
+
+export async function getOrg(id: string): Promise<OrgRegistration | null> {
+  if (!isValidOrgId(id)) return null;
+  return (await index.read()).find((e) => e.id === id) ?? null;
+}
+
+export async function deleteOrg(id: string): Promise<boolean> {
+  if (!isValidOrgId(id)) return false;
+  return index.withLock(async () => {
+    const entries = await index.read();
+    const remaining = entries.filter((e) => e.id !== id);
+    await fs.rm(inventoryPath(id), { force: true });
+    if (remaining.length === entries.length) return false;
+    await index.write(remaining);
+    return true;
+  });
+}
+
+// Stores the inventory and records its totals on the registration; dropped if the organisation was deleted meanwhile
+export async function saveOrgInventory(inventory: OrgInventory): Promise<void> {
+  await index.withLock(async () => {
+    const entries = await index.read();
+    const org = entries.find((e) => e.id === inventory.orgId);
+    if (!org) return;
+    await fs.writeFile(inventoryPath(inventory.orgId), JSON.stringify(inventory), "utf8");
+    org.updatedAt = inventory.finishedAt;
+    org.lastScan = { finishedAt: inventory.finishedAt, totals: inventory.totals };
+    await index.write(entries);
+  });
+}
+
+export async function getOrgInventory(id: string): Promise<OrgInventory | null> {
+  if (!isValidOrgId(id)) return null;
+  try {
+    return JSON.parse(await fs.readFile(inventoryPath(id), "utf8")) as OrgInventory;
+  } catch {
+    return null;
+  }
+}
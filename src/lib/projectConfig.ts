@@ -0,0 +1,42 @@
+import { z } from "zod";
+import { join } from "node:path";
+import { promises as fs } from "node:fs";
+import { callSitesConfigSchema } from "@/lib/extract/callSiteRegistry";
+import { secretsConfigSchema } from "@/lib/secretsScan";
+import { promptLintConfigSchema } from "@/lib/promptLint";
+import { tokensConfigSchema } from "@/lib/tokenCount";
+import { traversalConfigSchema } from "@/lib/traversal";
+
+export const PROJECT_CONFIG_FILE = ".prompt-explorer.json";
+
+const projectConfigSchema = z.object({
+  callSites: callSitesConfigSchema.optional(),
+  secrets: secretsConfigSchema.optional(),
+  lint: promptLintConfigSchema.optional(),
+  tokens: tokensConfigSchema.optional(),
+  files: traversalConfigSchema.optional(),
+});
+
+export type ProjectConfig = z.infer<typeof projectConfigSchema>;
+
+// Per-repo overrides live in .prompt-explorer.json at the scanned root; a missing file means defaults.
+export async function loadProjectConfig(root: string): Promise<ProjectConfig> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(join(root, PROJECT_CONFIG_FILE), "utf8");
+  } catch {
+    return {};
+  }
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid ${PROJECT_CONFIG_FILE}: ${message}`);
+  }
+  const parsed = projectConfigSchema.safeParse(json);
+  if (!parsed.success) {
+    throw new Error(`Invalid ${PROJECT_CONFIG_FILE}: ${parsed.error.message}`);
+  }
+  return parsed.data;
+}
@@ -0,0 +1,271 @@
+import type { PythonPrompt } from "@/lib/extract/pythonExtractor";
+import { normalizeText, wordDiff, type WordDiffOp } from "@/lib/textDiff";
+
+export type ClusterKind = "exact" | "template" | "near";
+
+export type ClusterMember = {
+  filePath: string;
+  line: number;
+  role: PythonPrompt["role"];
+  functionName: string | null;
+  language: "python" | "typescript";
+  text: string;
+  similarity: number; // shingle Jaccard against the representative (1 for the representative itself)
+  diff?: WordDiffOp[]; // against the representative; absent for exact copies
+  callSites?: number; // when several call sites reuse one definition: how many; filePath and line are the definition's
+};
+
+export type PromptCluster = {
+  id: string;
+  kind: ClusterKind; // exact: identical text; template: identical once placeholders are ignored; near: similar text
+  similarity: number; // lowest member similarity to the representative
+  files: number;
+  members: ClusterMember[]; // representative first
+};
+
+export type BoilerplateBlock = {
+  text: string;
+  prompts: number;
+  files: number;
+  occurrences: Array<{ filePath: string; line: number }>;
+};
+
+export type PromptClusterReport = {
+  clusters: PromptCluster[];
+  boilerplate: BoilerplateBlock[];
+};
+
+type ClusterInput = PythonPrompt & { language: "python" | "typescript"; callSites?: number };
+
+// Prompts shorter than this (in words) are only clustered when identical
+const MIN_NEAR_WORDS = 8;
+const SHINGLE_WORDS = 3;
+const NUM_HASHES = 64;
+const BANDS = 16; // 16 bands of 4 rows: pairs around 0.6 Jaccard and above become candidates
+const NEAR_MIN_SIMILARITY = 0.6;
+const MAX_MEMBERS_WITH_DIFF = 25;
+const MAX_DIFF_CHARS = 6000;
+const MIN_BLOCK_WORDS = 8;
+const MAX_BLOCKS = 50;
+
+// `{expr}` / `${expr}` placeholders as the extractors render interpolations
+const PLACEHOLDER = /\$?\{[^{}\n]{0,80}\}/g;
+
+function templateKey(text: string): string {
+  return normalizeText(text.replace(PLACEHOLDER, "{}")).toLowerCase();
+}
+
+// FNV-1a with a seed; deterministic across runs so cluster ids stay stable
+function hash32(value: string, seed: number): number {
+  let h = (0x811c9dc5 ^ seed) >>> 0;
+  for (let i = 0; i < value.length; i += 1) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193) >>> 0;
+  }
+  return h >>> 0;
+}
+
+function shingles(text: string): Set<string> {
+  const words = templateKey(text).split(" ").filter(Boolean);
+  const out = new Set<string>();
+  if (words.length < SHINGLE_WORDS) {
+    if (words.length) out.add(words.join(" "));
+    return out;
+  }
+  for (let i = 0; i + SHINGLE_WORDS <= words.length; i += 1) out.add(words.slice(i, i + SHINGLE_WORDS).join(" "));
+  return out;
+}
+
+function minhash(set: Set<string>): Uint32Array {
+  const sig = new Uint32Array(NUM_HASHES).fill(0xffffffff);
+  for (const s of set) {
+    for (let k = 0; k < NUM_HASHES; k += 1) {
+      const h = hash32(s, k * 0x9e3779b1);
+      if (h < sig[k]) sig[k] = h;
+    }
+  }
+  return sig;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  for (const s of a) if (b.has(s)) shared += 1;
+  return shared / (a.size + b.size - shared);
+}
+
+class UnionFind {
+  private parent: number[];
+  constructor(size: number) {
+    this.parent = Array.from({ length: size }, (_, i) => i);
+  }
+  find(i: number): number {
+    while (this.parent[i] !== i) {
+      this.parent[i] = this.parent[this.parent[i]];
+      i = this.parent[i];
+    }
+    return i;
+  }
+  union(a: number, b: number) {
+    const ra = this.find(a);
+    const rb = this.find(b);
+    if (ra !== rb) this.parent[Math.max(ra, rb)] = Math.min(ra, rb);
+  }
+}
+
+// Paragraphs (or lines, for single-paragraph prompts) long enough to be worth sharing as a template block
+function blocksOf(text: string): string[] {
+  const paragraphs = text.split(/\n\s*\n/);
+  const parts = paragraphs.length > 1 ? paragraphs : text.split(/\n/);
+  return parts.map(normalizeText).filter((p) => p.split(" ").length >= MIN_BLOCK_WORDS);
+}
+
+function findBoilerplate(prompts: ClusterInput[]): BoilerplateBlock[] {
+  type Entry = { text: string; prompts: number; texts: Set<string>; occurrences: BoilerplateBlock["occurrences"] };
+  const blocks = new Map<string, Entry>();
+  for (const p of prompts) {
+    for (const block of new Set(blocksOf(p.text))) {
+      const key = block.toLowerCase();
+      const entry = blocks.get(key) ?? { text: block, prompts: 0, texts: new Set<string>(), occurrences: [] };
+      entry.prompts += 1;
+      entry.texts.add(normalizeText(p.text));
+      entry.occurrences.push({ filePath: p.filePath, line: p.line });
+      blocks.set(key, entry);
+    }
+  }
+  // Copies of one whole prompt are already a cluster; a block is boilerplate when different prompts share it
+  return [...blocks.values()]
+    .filter((b) => b.prompts >= 2 && b.texts.size > 1)
+    .sort((a, b) => b.prompts * b.text.length - a.prompts * a.text.length)
+    .slice(0, MAX_BLOCKS)
+    .map((b) => ({
+      text: b.text,
+      prompts: b.prompts,
+      files: new Set(b.occurrences.map((o) => o.filePath)).size,
+      occurrences: b.occurrences,
+    }));
+}
+
+// Call sites that resolve their text to one definition (a shared constant) use a single prompt rather than copy it,
+// so they count once, at the definition
+function mergeSharedDefinitions(prompts: ClusterInput[]): ClusterInput[] {
+  const byDefinition = new Map<string, ClusterInput>();
+  const out: ClusterInput[] = [];
+  for (const p of prompts) {
+    if (!p.resolvedFrom) {
+      out.push(p);
+      continue;
+    }
+    const key = `${p.resolvedFrom.filePath}\u0000${p.resolvedFrom.line}\u0000${p.resolvedFrom.name}`;
+    const first = byDefinition.get(key);
+    if (!first) {
+      const entry = { ...p };
+      byDefinition.set(key, entry);
+      out.push(entry);
+    } else {
+      first.callSites = (first.callSites ?? 1) + 1;
+      first.filePath = p.resolvedFrom.filePath;
+      first.line = p.resolvedFrom.line;
+      first.functionName = undefined;
+    }
+  }
+  return out;
+}
+
+// Groups exact copies, template variants (same text once placeholders are ignored) and near duplicates
+// (MinHash over word shingles, verified with exact Jaccard), then finds paragraphs repeated across prompts.
+export function clusterPrompts(extracted: { python: PythonPrompt[]; typescript: PythonPrompt[] }): PromptClusterReport {
+  const prompts = mergeSharedDefinitions(
+    [
+      ...extracted.python.map((p) => ({ ...p, language: "python" as const })),
+      ...extracted.typescript.map((p) => ({ ...p, language: "typescript" as const })),
+    ].filter((p) => normalizeText(p.text || "").length > 0)
+  );
+
+  const uf = new UnionFind(prompts.length);
+  const sets = prompts.map((p) => shingles(p.text));
+
+  // Exact and template matches by key
+  const byTemplate = new Map<string, number>();
+  prompts.forEach((p, i) => {
+    const key = templateKey(p.text);
+    const first = byTemplate.get(key);
+    if (first === undefined) byTemplate.set(key, i);
+    else uf.union(first, i);
+  });
+
+  // Near duplicates via LSH banding over MinHash signatures
+  const rows = NUM_HASHES / BANDS;
+  const buckets = new Map<string, number[]>();
+  prompts.forEach((p, i) => {
+    // Template copies are already joined; hashing one of each keeps buckets small
+    if (byTemplate.get(templateKey(p.text)) !== i) return;
+    if (normalizeText(p.text).split(" ").length < MIN_NEAR_WORDS) return;
+    const sig = minhash(sets[i]);
+    for (let b = 0; b < BANDS; b += 1) {
+      const key = `${b}:${Array.from(sig.subarray(b * rows, (b + 1) * rows)).join(",")}`;
+      const bucket = buckets.get(key);
+      if (bucket) bucket.push(i);
+      else buckets.set(key, [i]);
+    }
+  });
+  const checked = new Set<string>();
+  for (const members of buckets.values()) {
+    for (let x = 0; x < members.length; x += 1) {
+      for (let y = x + 1; y < members.length; y += 1) {
+        const [a, b] = [members[x], members[y]];
+        const pair = `${a}:${b}`;
+        if (checked.has(pair)) continue;
+        checked.add(pair);
+        if (uf.find(a) !== uf.find(b) && jaccard(sets[a], sets[b]) >= NEAR_MIN_SIMILARITY) uf.union(a, b);
+      }
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  prompts.forEach((_, i) => {
+    const root = uf.find(i);
+    const group = groups.get(root);
+    if (group) group.push(i);
+    else groups.set(root, [i]);
+  });
+
+  const clusters: PromptCluster[] = [];
+  for (const indexes of groups.values()) {
+    if (indexes.length < 2) continue;
+    // The representative is the longest prompt, so the others read as deletions from it
+    const rep = [...indexes].sort((a, b) => prompts[b].text.length - prompts[a].text.length || a - b)[0];
+    const repText = normalizeText(prompts[rep].text);
+    const members = [rep, ...indexes.filter((i) => i !== rep)].map((i, position): ClusterMember => {
+      const p = prompts[i];
+      const identical = normalizeText(p.text) === repText;
+      const withDiff = !identical && position < MAX_MEMBERS_WITH_DIFF && p.text.length + repText.length <= MAX_DIFF_CHARS;
+      return {
+        filePath: p.filePath,
+        line: p.line,
+        role: p.role,
+        functionName: p.functionName ?? null,
+        language: p.language,
+        text: p.text,
+        similarity: i === rep ? 1 : Math.round(jaccard(sets[rep], sets[i]) * 1000) / 1000,
+        diff: withDiff ? wordDiff(prompts[rep].text, p.text) : undefined,
+        callSites: p.callSites,
+      };
+    });
+    const kind: ClusterKind = members.every((m) => normalizeText(m.text) === repText)
+      ? "exact"
+      : indexes.every((i) => templateKey(prompts[i].text) === templateKey(prompts[rep].text))
+        ? "template"
+        : "near";
+    clusters.push({
+      id: hash32(templateKey(prompts[rep].text), 0).toString(16).padStart(8, "0"),
+      kind,
+      similarity: Math.min(...members.map((m) => m.similarity)),
+      files: new Set(members.map((m) => m.filePath)).size,
+      members,
+    });
+  }
+  clusters.sort((a, b) => b.members.length - a.members.length || b.files - a.files || a.id.localeCompare(b.id));
+
+  return { clusters, boilerplate: findBoilerplate(prompts) };
+}
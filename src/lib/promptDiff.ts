@@ -0,0 +1,171 @@
+import { randomUUID } from "node:crypto";
+import { basename, join, relative } from "node:path";
+import type { PythonPrompt } from "@/lib/extract/pythonExtractor";
+import { normalizeText, textSimilarity, wordDiff, type WordDiffOp } from "@/lib/textDiff";
+import { checkoutRef, removeWorktree } from "@/lib/github";
+import { extractPrompts, resolveTargetDir, ScanError, withCheckoutLock, type ExtractedPrompts, type ScanRequest } from "@/lib/scanRepository";
+
+export type DiffPrompt = PythonPrompt & { language: "python" | "typescript" };
+
+export type { WordDiffOp };
+
+export type PromptChangeStatus = "added" | "removed" | "modified" | "moved" | "unchanged";
+
+export type PromptChange = {
+  status: PromptChangeStatus;
+  base?: DiffPrompt;
+  head?: DiffPrompt;
+  similarity: number; // 0..1 text similarity between base and head
+  textDiff?: WordDiffOp[]; // present whenever the text changed
+};
+
+export type PromptDiff = {
+  summary: Record<PromptChangeStatus, number>;
+  changes: PromptChange[];
+};
+
+// Same identity = same file, function, call site and role; text may have changed
+const MODIFIED_MIN_SIMILARITY = 0.3;
+// Different identity but near-identical text = the prompt moved
+const MOVED_MIN_SIMILARITY = 0.75;
+
+function identityKey(p: DiffPrompt): string {
+  return [p.filePath, p.functionName ?? "", p.callSignature ?? "", p.role].join("\u0000");
+}
+
+// Flattens extractor output and makes file paths relative so two checkouts line up
+export function toDiffPrompts(extracted: Pick<ExtractedPrompts, "python" | "typescript">, root: string): DiffPrompt[] {
+  const rel = (p: DiffPrompt): DiffPrompt => ({
+    ...p,
+    filePath: relative(root, p.filePath),
+    resolvedFrom: p.resolvedFrom ? { ...p.resolvedFrom, filePath: relative(root, p.resolvedFrom.filePath) } : undefined,
+  });
+  return [
+    ...extracted.python.map((p) => rel({ ...p, language: "python" })),
+    ...extracted.typescript.map((p) => rel({ ...p, language: "typescript" })),
+  ];
+}
+
+export function diffPrompts(base: DiffPrompt[], head: DiffPrompt[], options?: { includeUnchanged?: boolean }): PromptDiff {
+  const changes: PromptChange[] = [];
+  const baseLeft = new Set(base.map((_, i) => i));
+  const headLeft = new Set(head.map((_, i) => i));
+
+  const match = (bi: number, hi: number, status: PromptChangeStatus, similarity: number) => {
+    baseLeft.delete(bi);
+    headLeft.delete(hi);
+    const b = base[bi];
+    const h = head[hi];
+    const textChanged = normalizeText(b.text) !== normalizeText(h.text);
+    changes.push({ status, base: b, head: h, similarity, textDiff: textChanged ? wordDiff(b.text, h.text) : undefined });
+  };
+
+  // Pass 1: same identity, same text
+  const headByKey = new Map<string, number[]>();
+  head.forEach((p, i) => {
+    const key = `${identityKey(p)}\u0000${normalizeText(p.text)}`;
+    headByKey.set(key, [...(headByKey.get(key) ?? []), i]);
+  });
+  base.forEach((p, bi) => {
+    const candidates = headByKey.get(`${identityKey(p)}\u0000${normalizeText(p.text)}`);
+    const hi = candidates?.shift();
+    if (hi !== undefined) match(bi, hi, "unchanged", 1);
+  });
+
+  // Pass 2: identical text somewhere else
+  for (const bi of [...baseLeft]) {
+    const text = normalizeText(base[bi].text);
+    const hi = [...headLeft].find((h) => normalizeText(head[h].text) === text);
+    if (hi !== undefined) match(bi, hi, "moved", 1);
+  }
+
+  // Pass 3: same identity, edited text (best candidate first)
+  for (const bi of [...baseLeft]) {
+    const key = identityKey(base[bi]);
+    let best: { hi: number; score: number } | null = null;
+    for (const hi of headLeft) {
+      if (identityKey(head[hi]) !== key) continue;
+      const score = textSimilarity(base[bi].text, head[hi].text);
+      if (score >= MODIFIED_MIN_SIMILARITY && (!best || score > best.score)) best = { hi, score };
+    }
+    if (best) match(bi, best.hi, "modified", best.score);
+  }
+
+  // Pass 4: near-identical text with the same role at a different location
+  for (const bi of [...baseLeft]) {
+    let best: { hi: number; score: number } | null = null;
+    for (const hi of headLeft) {
+      if (head[hi].role !== base[bi].role) continue;
+      const score = textSimilarity(base[bi].text, head[hi].text);
+      if (score >= MOVED_MIN_SIMILARITY && (!best || score > best.score)) best = { hi, score };
+    }
+    if (best) match(bi, best.hi, "moved", best.score);
+  }
+
+  for (const bi of baseLeft) changes.push({ status: "removed", base: base[bi], similarity: 0 });
+  for (const hi of headLeft) changes.push({ status: "added", head: head[hi], similarity: 0 });
+
+  const summary: Record<PromptChangeStatus, number> = { added: 0, removed: 0, modified: 0, moved: 0, unchanged: 0 };
+  for (const c of changes) summary[c.status] += 1;
+
+  const order: Record<PromptChangeStatus, number> = { modified: 0, added: 1, removed: 2, moved: 3, unchanged: 4 };
+  const visible = options?.includeUnchanged ? changes : changes.filter((c) => c.status !== "unchanged");
+  visible.sort((x, y) => {
+    const px = (x.head ?? x.base) as DiffPrompt;
+    const py = (y.head ?? y.base) as DiffPrompt;
+    return order[x.status] - order[y.status] || px.filePath.localeCompare(py.filePath) || px.line - py.line;
+  });
+  return { summary, changes: visible };
+}
+
+export type RefDiffRequest = Pick<ScanRequest, "repoUrl" | "localPath" | "branch" | "sshKey" | "githubToken"> & {
+  base: string;
+  head: string;
+  includeUnchanged?: boolean;
+};
+
+export type RefDiffResult = PromptDiff & {
+  ok: true;
+  repo: { url: string | null; path: string };
+  base: { ref: string; commit: string };
+  head: { ref: string; commit: string };
+};
+
+// Extracts prompts at two refs of the same repository (via temporary worktrees) and diffs them
+export async function diffRefs(request: RefDiffRequest, signal?: AbortSignal): Promise<RefDiffResult> {
+  return withCheckoutLock(request, () => diffCheckoutRefs(request, signal), signal);
+}
+
+async function diffCheckoutRefs(request: RefDiffRequest, signal?: AbortSignal): Promise<RefDiffResult> {
+  const repoDir = await resolveTargetDir(request, signal);
+  const worktreesBase = join(process.cwd(), ".data", "worktrees");
+  const runId = randomUUID().slice(0, 8);
+  const sides: Array<{ ref: string; commit: string; prompts: DiffPrompt[] }> = [];
+  const created: string[] = [];
+  try {
+    for (const [label, ref] of [["base", request.base], ["head", request.head]] as const) {
+      const destDir = join(worktreesBase, `${basename(repoDir)}-${runId}-${label}`);
+      let checkout;
+      try {
+        checkout = await checkoutRef({ repoDir, ref, destDir, signal });
+      } catch (error: unknown) {
+        signal?.throwIfAborted();
+        const message = error instanceof Error ? error.message : String(error);
+        throw new ScanError(`Failed to check out ${label} ref "${ref}": ${message}`, 400);
+      }
+      created.push(destDir);
+      const extracted = await extractPrompts(checkout.dir, signal);
+      sides.push({ ref, commit: checkout.commit, prompts: toDiffPrompts(extracted, checkout.dir) });
+    }
+  } finally {
+    for (const dir of created) await removeWorktree(repoDir, dir);
+  }
+  const [base, head] = sides;
+  return {
+    ok: true,
+    repo: { url: request.repoUrl ?? null, path: repoDir },
+    base: { ref: base.ref, commit: base.commit },
+    head: { ref: head.ref, commit: head.commit },
+    ...diffPrompts(base.prompts, head.prompts, { includeUnchanged: request.includeUnchanged }),
+  };
+}
@@ -0,0 +1,220 @@
+import { basename } from "node:path";
+import type { PythonCallGraph, PythonPrompt } from "@/lib/extract/pythonExtractor";
+
+export type FlowNodeKind = "module" | "function" | "llm_call";
+
+// calls: function -> function; invokes: the function (or module-level code) making an LLM call;
+// assembles: a function whose result feeds the call's messages; defines: a module holding a prompt constant the call uses
+export type FlowEdgeKind = "calls" | "invokes" | "assembles" | "defines";
+
+export type FlowNode = {
+  id: string;
+  kind: FlowNodeKind;
+  label: string;
+  module: string;
+  filePath: string | null;
+  line: number | null;
+  level: number; // column in a left-to-right layout: callers before callees
+  entry?: boolean; // nothing in the graph calls it
+  reaches?: number; // LLM calls reachable from here (functions and modules)
+  provider?: string;
+  callSignature?: string;
+  prompts?: number; // extracted prompts at this call site
+  roles?: string[];
+  inLoop?: boolean; // LLM call inside a for/while loop, typical of agent loops
+  chain?: string[]; // longest caller chain, entry point first and this call last
+};
+
+export type FlowEdge = { from: string; to: string; kind: FlowEdgeKind; line: number | null };
+
+export type PromptFlowGraph = {
+  nodes: FlowNode[];
+  edges: FlowEdge[];
+  stats: { llmCalls: number; functions: number; entryPoints: number; multiStep: number; loops: number; longestChain: number };
+  truncated: boolean; // node cap hit; the calls with the most prompts were kept
+};
+
+const MAX_NODES = 400;
+const CHAIN_EDGES = new Set<FlowEdgeKind>(["calls", "invokes"]);
+
+const functionNodeId = (id: string) => `fn:${id}`;
+const moduleNodeId = (name: string) => `module:${name}`;
+const llmNodeId = (id: string) => `llm:${id}`;
+
+// Assigns columns by longest path from the sources; a cycle (recursion) is broken at its smallest remaining node
+function assignLevels(ids: string[], edges: FlowEdge[]): Map<string, number> {
+  const indegree = new Map(ids.map((id) => [id, 0]));
+  const out = new Map<string, string[]>(ids.map((id) => [id, []]));
+  for (const e of edges) {
+    indegree.set(e.to, (indegree.get(e.to) ?? 0) + 1);
+    out.get(e.from)?.push(e.to);
+  }
+  const level = new Map(ids.map((id) => [id, 0]));
+  const done = new Set<string>();
+  const queue = ids.filter((id) => indegree.get(id) === 0);
+  while (done.size < ids.length) {
+    if (queue.length === 0) queue.push([...ids].filter((id) => !done.has(id)).sort()[0]);
+    const id = queue.shift() as string;
+    if (done.has(id)) continue;
+    done.add(id);
+    for (const next of out.get(id) ?? []) {
+      if (done.has(next)) continue;
+      level.set(next, Math.max(level.get(next) ?? 0, (level.get(id) ?? 0) + 1));
+      indegree.set(next, (indegree.get(next) ?? 0) - 1);
+      if (indegree.get(next) === 0) queue.push(next);
+    }
+  }
+  return level;
+}
+
+// Links every Python LLM call site to the functions and modules that reach it, keeping only that part of the call graph
+export function buildPromptGraph(raw: PythonCallGraph, prompts: PythonPrompt[]): PromptFlowGraph {
+  const nodes = new Map<string, FlowNode>();
+  const edges = new Map<string, FlowEdge>();
+  const functions = new Map(raw.functions.map((f) => [f.id, f]));
+  const moduleFiles = new Map(raw.modules.map((m) => [m.name, m.filePath]));
+  const fileModules = new Map(raw.modules.map((m) => [m.filePath, m.name]));
+
+  const addEdge = (from: string, to: string, kind: FlowEdgeKind, line: number | null) => {
+    const key = `${from}\u0000${to}\u0000${kind}`;
+    if (!edges.has(key)) edges.set(key, { from, to, kind, line });
+  };
+  const moduleNode = (name: string): string => {
+    const id = moduleNodeId(name);
+    if (!nodes.has(id)) {
+      const filePath = moduleFiles.get(name) ?? null;
+      nodes.set(id, { id, kind: "module", label: name || (filePath ? basename(filePath) : "<root>"), module: name, filePath, line: null, level: 0 });
+    }
+    return id;
+  };
+  const functionNode = (fid: string): string | null => {
+    const fn = functions.get(fid);
+    if (!fn) return null;
+    const id = functionNodeId(fid);
+    if (!nodes.has(id)) nodes.set(id, { id, kind: "function", label: fn.name, module: fn.module, filePath: fn.filePath, line: fn.line, level: 0 });
+    return id;
+  };
+  const callerNode = (fid: string | null, module: string) => (fid ? functionNode(fid) : moduleNode(module));
+
+  const promptsAt = new Map<string, PythonPrompt[]>();
+  for (const p of prompts) {
+    const key = `${p.filePath}:${p.line}`;
+    promptsAt.set(key, [...(promptsAt.get(key) ?? []), p]);
+  }
+
+  for (const call of raw.llmCalls) {
+    const id = llmNodeId(call.id);
+    const here = promptsAt.get(call.id) ?? [];
+    nodes.set(id, {
+      id,
+      kind: "llm_call",
+      label: call.callSignature,
+      module: call.module,
+      filePath: call.filePath,
+      line: call.line,
+      level: 0,
+      provider: call.provider,
+      callSignature: call.callSignature,
+      prompts: here.length,
+      roles: [...new Set(here.map((p) => p.role))].sort(),
+      inLoop: call.inLoop,
+    });
+    const caller = callerNode(call.function, call.module);
+    if (caller) addEdge(caller, id, "invokes", call.line);
+    for (const p of here) {
+      // Prompt constants imported from another module tie that module to the call
+      const source = p.resolvedFrom && p.resolvedFrom.filePath !== p.filePath ? fileModules.get(p.resolvedFrom.filePath) : undefined;
+      if (source !== undefined) addEdge(moduleNode(source), id, "defines", p.resolvedFrom?.line ?? null);
+    }
+  }
+  for (const call of raw.calls) {
+    const from = callerNode(call.from, call.module);
+    const to = functionNode(call.to);
+    if (from && to) addEdge(from, to, "calls", call.line);
+  }
+  for (const edge of raw.assembles) {
+    const from = functionNode(edge.from);
+    if (from && nodes.has(llmNodeId(edge.to))) addEdge(from, llmNodeId(edge.to), "assembles", edge.line);
+  }
+
+  // Keep what reaches an LLM call, walking back from the calls with the most prompts first
+  const incoming = new Map<string, FlowEdge[]>();
+  for (const e of edges.values()) incoming.set(e.to, [...(incoming.get(e.to) ?? []), e]);
+  const llmIds = [...nodes.values()]
+    .filter((n) => n.kind === "llm_call")
+    .sort((a, b) => (b.prompts ?? 0) - (a.prompts ?? 0) || a.id.localeCompare(b.id))
+    .map((n) => n.id);
+  const kept = new Set<string>();
+  let truncated = false;
+  for (const start of llmIds) {
+    const stack = [start];
+    while (stack.length) {
+      const id = stack.pop() as string;
+      if (kept.has(id)) continue;
+      if (kept.size >= MAX_NODES) {
+        truncated = true;
+        break;
+      }
+      kept.add(id);
+      for (const e of incoming.get(id) ?? []) stack.push(e.from);
+    }
+  }
+
+  const keptEdges = [...edges.values()].filter((e) => kept.has(e.from) && kept.has(e.to));
+  const keptNodes = [...kept].map((id) => nodes.get(id) as FlowNode);
+  const levels = assignLevels([...kept].sort(), keptEdges);
+  const outgoing = new Map<string, string[]>();
+  const callers = new Map<string, string[]>();
+  for (const e of keptEdges) {
+    outgoing.set(e.from, [...(outgoing.get(e.from) ?? []), e.to]);
+    if (CHAIN_EDGES.has(e.kind)) callers.set(e.to, [...(callers.get(e.to) ?? []), e.from]);
+  }
+
+  for (const node of keptNodes) {
+    node.level = levels.get(node.id) ?? 0;
+    if (node.kind === "llm_call") continue;
+    node.entry = node.kind === "module" || !(callers.get(node.id) ?? []).length;
+    const seen = new Set<string>([node.id]);
+    const stack = [...(outgoing.get(node.id) ?? [])];
+    let reaches = 0;
+    while (stack.length) {
+      const id = stack.pop() as string;
+      if (seen.has(id)) continue;
+      seen.add(id);
+      if (nodes.get(id)?.kind === "llm_call") reaches += 1;
+      else stack.push(...(outgoing.get(id) ?? []));
+    }
+    node.reaches = reaches;
+  }
+  for (const node of keptNodes) {
+    if (node.kind !== "llm_call") continue;
+    // Follow the deepest caller at each step; the levels make that the longest path back to an entry point
+    const chain = [node.id];
+    let current = node.id;
+    while (chain.length <= kept.size) {
+      const next = (callers.get(current) ?? [])
+        .filter((id) => !chain.includes(id))
+        .sort((a, b) => (levels.get(b) ?? 0) - (levels.get(a) ?? 0) || a.localeCompare(b))[0];
+      if (!next) break;
+      chain.unshift(next);
+      current = next;
+    }
+    node.chain = chain;
+  }
+
+  keptNodes.sort((a, b) => a.level - b.level || a.id.localeCompare(b.id));
+  const llmNodes = keptNodes.filter((n) => n.kind === "llm_call");
+  return {
+    nodes: keptNodes,
+    edges: keptEdges,
+    stats: {
+      llmCalls: llmNodes.length,
+      functions: keptNodes.filter((n) => n.kind === "function").length,
+      entryPoints: keptNodes.filter((n) => n.entry).length,
+      multiStep: keptNodes.filter((n) => n.entry && (n.reaches ?? 0) > 1).length,
+      loops: llmNodes.filter((n) => n.inLoop).length,
+      longestChain: Math.max(0, ...llmNodes.map((n) => n.chain?.length ?? 0)),
+    },
+    truncated,
+  };
+}
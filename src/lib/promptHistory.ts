@@ -0,0 +1,165 @@
+import simpleGit from "simple-git";
+import { isAbsolute, relative, resolve } from "node:path";
+import { promises as fs } from "node:fs";
+import { deepenHistory, isShallowRepository } from "@/lib/github";
+
+export type PromptCommit = {
+  commit: string;
+  author: string;
+  email: string;
+  date: string; // ISO 8601 author date
+  message: string;
+  patch: string; // changes to the tracked line range in this commit
+};
+
+export type BlameLine = {
+  line: number;
+  commit: string;
+  author: string;
+  date: string;
+  summary: string;
+  content: string;
+};
+
+export type PromptHistory = {
+  filePath: string; // relative to the repository root
+  startLine: number;
+  endLine: number;
+  shallow: boolean; // true when history is truncated by a shallow clone
+  commits: PromptCommit[];
+  blame: BlameLine[];
+};
+
+export type PromptHistoryRequest = {
+  repoDir: string;
+  filePath: string;
+  line: number;
+  endLine?: number;
+  text?: string; // prompt text; used to widen the range to the lines the text spans
+  maxCommits?: number;
+  deepen?: boolean | number; // unshallow (true) or make sure at least the last N commits are present before reading history
+  signal?: AbortSignal;
+};
+
+const MAX_PATCH_CHARS = 8000;
+const RECORD_SEP = "\u001e";
+const FIELD_SEP = "\u001f";
+
+// Prompt records point at the call site; find where the text itself starts near that line
+function locateRange(content: string, line: number, text?: string): { start: number; end: number } {
+  const lines = content.split(/\r?\n/);
+  const clamp = (n: number) => Math.min(Math.max(n, 1), Math.max(lines.length, 1));
+  if (!text) return { start: clamp(line), end: clamp(line) };
+  const textLines = text.split(/\r?\n/);
+  const firstLine = textLines.find((l) => l.trim().length > 0)?.trim().slice(0, 60);
+  let start = line;
+  if (firstLine) {
+    // Search outward from the reported line so the closest occurrence wins
+    for (let offset = 0; offset < lines.length; offset += 1) {
+      const below = line - 1 + offset;
+      const above = line - 1 - offset;
+      if (below < lines.length && lines[below].includes(firstLine)) {
+        start = below + 1;
+        break;
+      }
+      if (above >= 0 && lines[above].includes(firstLine)) {
+        start = above + 1;
+        break;
+      }
+      if (below >= lines.length && above < 0) break;
+    }
+  }
+  return { start: clamp(start), end: clamp(start + textLines.length - 1) };
+}
+
+function parseLog(output: string): PromptCommit[] {
+  const commits: PromptCommit[] = [];
+  for (const record of output.split(RECORD_SEP)) {
+    if (!record.trim()) continue;
+    const newline = record.indexOf("\n");
+    const header = newline === -1 ? record : record.slice(0, newline);
+    const [commit, author, email, date, message] = header.split(FIELD_SEP);
+    if (!commit) continue;
+    const patch = newline === -1 ? "" : record.slice(newline + 1).trim();
+    commits.push({
+      commit,
+      author: author ?? "",
+      email: email ?? "",
+      date: date ?? "",
+      message: message ?? "",
+      patch: patch.length > MAX_PATCH_CHARS ? `${patch.slice(0, MAX_PATCH_CHARS)}\n…` : patch,
+    });
+  }
+  return commits;
+}
+
+function parseBlame(output: string): BlameLine[] {
+  const out: BlameLine[] = [];
+  const meta = new Map<string, { author: string; time: number; summary: string }>();
+  const lines = output.split("\n");
+  let current: { commit: string; line: number } | null = null;
+  for (const raw of lines) {
+    const header = /^([0-9a-f]{40}) \d+ (\d+)/.exec(raw);
+    if (header) {
+      current = { commit: header[1], line: Number(header[2]) };
+      if (!meta.has(current.commit)) meta.set(current.commit, { author: "", time: 0, summary: "" });
+      continue;
+    }
+    if (!current) continue;
+    const info = meta.get(current.commit)!;
+    if (raw.startsWith("author ")) info.author = raw.slice(7);
+    else if (raw.startsWith("author-time ")) info.time = Number(raw.slice(12));
+    else if (raw.startsWith("summary ")) info.summary = raw.slice(8);
+    else if (raw.startsWith("\t")) {
+      out.push({
+        line: current.line,
+        commit: current.commit,
+        author: info.author,
+        date: info.time ? new Date(info.time * 1000).toISOString() : "",
+        summary: info.summary,
+        content: raw.slice(1),
+      });
+      current = null;
+    }
+  }
+  return out;
+}
+
+export async function getPromptHistory(request: PromptHistoryRequest): Promise<PromptHistory> {
+  const repoDir = resolve(request.repoDir);
+  const absolute = isAbsolute(request.filePath) ? request.filePath : resolve(repoDir, request.filePath);
+  const filePath = relative(repoDir, absolute);
+  if (!filePath || filePath.startsWith("..") || isAbsolute(filePath)) {
+    throw new Error("filePath must be inside the repository");
+  }
+
+  if (request.deepen) {
+    await deepenHistory(repoDir, {
+      depth: typeof request.deepen === "number" ? request.deepen : undefined,
+      signal: request.signal,
+    });
+  }
+
+  const content = await fs.readFile(absolute, "utf8");
+  const range = request.endLine
+    ? { start: request.line, end: Math.max(request.line, request.endLine) }
+    : locateRange(content, request.line, request.text);
+
+  const git = simpleGit(repoDir, { abort: request.signal });
+  const logOutput = await git.raw([
+    "log",
+    `--max-count=${request.maxCommits ?? 50}`,
+    `--format=${RECORD_SEP}%H${FIELD_SEP}%an${FIELD_SEP}%ae${FIELD_SEP}%aI${FIELD_SEP}%s`,
+    `-L${range.start},${range.end}:${filePath}`,
+  ]);
+  const blameOutput = await git.raw(["blame", "--porcelain", `-L${range.start},${range.end}`, "--", filePath]);
+
+  return {
+    filePath,
+    startLine: range.start,
+    endLine: range.end,
+    shallow: await isShallowRepository(repoDir),
+    commits: parseLog(logOutput),
+    blame: parseBlame(blameOutput),
+  };
+}
@@ -1,6 +1,7 @@
 export type PromptKeywordHit = {
   filePath: string;
   line: number; // 1-based
+  column: number; // 1-based
   matchLabel: string;
   snippet: string; // small context snippet around the match
 };
@@ -59,6 +60,10 @@ export function scanTextForPromptKeywords(text: string, filePath: string): Promp
     return count;
   }
 
+  function columnAtIndex(idx: number): number {
+    return idx - (text.lastIndexOf("\n", idx - 1) + 1) + 1;
+  }
+
   // Multiline block extractors for full prompt bodies
   const blockPatterns: Array<{ label: string; regex: RegExp; groupIndex: number }> = [
     // JS/TS: system: `...`
@@ -87,7 +92,7 @@ export function scanTextForPromptKeywords(text: string, filePath: string): Promp
       const key = `${label}:${line}:${content.slice(0, 50)}`;
       if (seen.has(key)) continue;
       seen.add(key);
-      hits.push({ filePath, line, matchLabel: label, snippet: content });
+      hits.push({ filePath, line, column: columnAtIndex(fullIndex), matchLabel: label, snippet: content });
     }
   }
 
@@ -103,7 +108,7 @@ export function scanTextForPromptKeywords(text: string, filePath: string): Promp
         const key = `${label}:${i + 1}:${snippet.slice(0, 50)}`;
         if (seen.has(key)) continue;
         seen.add(key);
-        hits.push({ filePath, line: i + 1, matchLabel: label, snippet });
+        hits.push({ filePath, line: i + 1, column: lineText.search(/\S/) + 1, matchLabel: label, snippet });
         break; // one label per line is enough
       }
     }
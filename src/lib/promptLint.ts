@@ -0,0 +1,338 @@
+import { z } from "zod";
+import { promises as fs } from "node:fs";
+import { relative, sep } from "node:path";
+import type { PythonPrompt } from "@/lib/extract/pythonExtractor";
+import type { PromptKeywordHit } from "@/lib/promptKeywordScan";
+import { globToRegExp, matchesAnyGlob } from "@/lib/glob";
+import { redactText } from "@/lib/redact";
+import { SECRET_SEVERITIES, scanTextForSecrets, type SecretFinding, type SecretSeverity } from "@/lib/secretsScan";
+
+export type PromptLintFinding = {
+  rule: string;
+  severity: SecretSeverity;
+  message: string;
+  filePath: string;
+  line: number;
+  column?: number; // 1-based, when the rule points inside a keyword snippet
+  role: PythonPrompt["role"];
+  source: "prompt" | "keyword"; // extracted prompt or keyword snippet
+  excerpt: string; // redacted text around the problem
+};
+
+type LintRule = {
+  id: string;
+  description: string;
+  severity: SecretSeverity;
+  appliesToSnippets: boolean; // keyword snippets are single lines, too little context for some rules
+};
+
+const PROMPT_LINT_RULES: LintRule[] = [
+  {
+    id: "user_input_in_system_prompt",
+    description: "User-controlled value interpolated into a system prompt without delimiting or escaping",
+    severity: "high",
+    appliesToSnippets: true,
+  },
+  {
+    id: "secret_in_prompt",
+    description: "Secret embedded in prompt text",
+    severity: "critical",
+    appliesToSnippets: true,
+  },
+  {
+    id: "internal_url_in_prompt",
+    description: "Internal or private URL embedded in prompt text",
+    severity: "medium",
+    appliesToSnippets: true,
+  },
+  {
+    id: "contradictory_instructions",
+    description: "Prompt gives instructions that contradict each other",
+    severity: "medium",
+    appliesToSnippets: false,
+  },
+  {
+    id: "missing_output_format",
+    description: "Reply is parsed as JSON but no prompt at the call site asks for JSON",
+    severity: "medium",
+    appliesToSnippets: false,
+  },
+  {
+    id: "excessive_length",
+    description: "Prompt is longer than the configured token limit",
+    severity: "low",
+    appliesToSnippets: false,
+  },
+  {
+    id: "unknown_role",
+    description: "Prompt role could not be determined",
+    severity: "low",
+    appliesToSnippets: false,
+  },
+];
+
+export const promptLintConfigSchema = z.object({
+  disable: z.array(z.string()).default([]), // rule ids to turn off
+  severity: z.record(z.string(), z.enum(SECRET_SEVERITIES)).default({}), // per-rule severity overrides
+  maxTokens: z.number().int().positive().default(4000), // threshold for excessive_length
+  internalHosts: z.array(z.string()).default([]), // extra host globs treated as internal, e.g. "*.corp.example.com"
+  ignorePaths: z.array(z.string()).default([]), // globs relative to the scanned root
+});
+
+export type PromptLintConfig = z.infer<typeof promptLintConfigSchema>;
+
+// Rule metadata for exports (e.g. SARIF) that describe findings by rule id
+export function listPromptLintRules(): Array<{ id: string; description: string; severity: SecretSeverity }> {
+  return PROMPT_LINT_RULES.map(({ id, description, severity }) => ({ id, description, severity }));
+}
+
+// `{expr}` from Python f-strings/format templates and `${expr}` from JS template literals, as the extractors render them
+const PLACEHOLDER = /\$?\{\s*([A-Za-z_][\w.]*(?:\[[^\]{}]*\])?(?:\([^(){}]*\))?)\s*\}/g;
+const USER_INPUT_NAME = /(?:^|[._])(?:user|input|query|question|request|req|message|msg|body|params|form|payload|chat|utterance|comment|feedback)/i;
+const ESCAPING_CALL = /(?:escape|sanitiz|quote|json\.dumps|JSON\.stringify|repr\()/i;
+// Delimiters that fence user text off from instructions: XML-style tags, code fences, triple quotes
+const DELIMITER_BEFORE = /(?:<[A-Za-z_][\w-]*>|```|"""|'''|-{3,}|={3,})\s*["'`]?\s*$/;
+
+const URL_PATTERN = /\bhttps?:\/\/([A-Za-z0-9.-]+)(?::\d+)?[^\s"'`)<>]*/g;
+const INTERNAL_HOST =
+  /^(?:localhost|127\.\d+\.\d+\.\d+|0\.0\.0\.0|10\.\d+\.\d+\.\d+|192\.168\.\d+\.\d+|172\.(?:1[6-9]|2\d|3[01])\.\d+\.\d+|169\.254\.\d+\.\d+|[\w.-]+\.(?:internal|local|localdomain|corp|lan|intranet|svc\.cluster\.local))$/i;
+
+const SNIPPET_LITERAL = /["'`]([^"'`{}$]{12,})/;
+
+const JSON_PARSE_CALL = /\bjson\.loads?\s*\(|\bJSON\.parse\s*\(|model_validate_json\s*\(|parse_raw\s*\(|\bresponse_format\b/;
+const JSON_INSTRUCTION = /\bjson\b|\bschema\b/i;
+
+// Pairs of instructions that cannot both be followed
+const CONTRADICTIONS: Array<[RegExp, RegExp, string]> = [
+  [
+    /\b(?:be|keep it|keep (?:your )?answers?)\s+(?:concise|brief|short)\b/i,
+    /\b(?:be|answer)\s+(?:detailed|thorough|exhaustive|in (?:great )?detail)\b/i,
+    "concise vs. detailed",
+  ],
+  [
+    /\b(?:respond|reply|answer|output)\s+(?:only\s+)?(?:in|with|as)\s+json\b/i,
+    /\b(?:respond|reply|answer|output)\s+(?:only\s+)?(?:in|with|as)\s+(?:markdown|plain text|prose)\b/i,
+    "JSON vs. markdown/plain text",
+  ],
+  [/\b(?:do not|don't|never)\s+use\s+markdown\b/i, /\b(?:use|format (?:it|the answer) (?:in|with))\s+markdown\b/i, "markdown vs. no markdown"],
+  [/\b(?:do not|don't|never)\s+(?:ask|make up|guess)\b/i, /\b(?:always|feel free to)\s+(?:ask|make up|guess)\b/i, "asking vs. not asking"],
+];
+const ALWAYS_DIRECTIVE = /\balways\s+([a-z]+(?:\s+[a-z]+)?)/gi;
+const NEVER_DIRECTIVE = /\b(?:never|do not|don't)\s+([a-z]+(?:\s+[a-z]+)?)/gi;
+
+function excerptAround(text: string, index: number, length: number, known: string[]): string {
+  const start = Math.max(0, index - 40);
+  const end = Math.min(text.length, index + length + 40);
+  const slice = text.slice(start, end).replace(/\s+/g, " ").trim();
+  return redactText(`${start > 0 ? "…" : ""}${slice}${end < text.length ? "…" : ""}`, known);
+}
+
+type LintTarget = {
+  text: string;
+  filePath: string;
+  line: number;
+  role: PythonPrompt["role"];
+  source: PromptLintFinding["source"];
+  group?: string; // call site the prompt belongs to (file + function + call)
+  tokens?: number; // first tokenizer's count when the scan annotated the prompt
+};
+
+type RuleContext = {
+  config: PromptLintConfig;
+  internalHosts: RegExp[];
+  secrets: SecretFinding[]; // the scan's own findings, including what file-gated and repo-configured rules caught
+  known: string[]; // their raw values, masked in every excerpt
+  report: (target: LintTarget, rule: string, message: string, excerpt: string, column?: number) => void;
+};
+
+function checkUserInput(target: LintTarget, ctx: RuleContext) {
+  if (target.role !== "system") return;
+  for (const match of target.text.matchAll(PLACEHOLDER)) {
+    const expr = match[1];
+    if (!USER_INPUT_NAME.test(expr) || ESCAPING_CALL.test(expr)) continue;
+    if (DELIMITER_BEFORE.test(target.text.slice(Math.max(0, match.index - 40), match.index))) continue;
+    const column = target.source === "keyword" ? match.index + 1 : undefined;
+    ctx.report(
+      target,
+      "user_input_in_system_prompt",
+      `\`${expr}\` is interpolated into a system prompt; move user input to a user message or fence and escape it`,
+      excerptAround(target.text, match.index, match[0].length, ctx.known),
+      column
+    );
+  }
+}
+
+function checkSecrets(target: LintTarget, ctx: RuleContext) {
+  const lines = target.text.split(/\r?\n/);
+  const findings = scanTextForSecrets(target.text, "");
+  // Re-scanning with no file path misses file-gated (dotenv) and repo-configured rules, so the scan's
+  // own findings are matched by value as well
+  const seen = new Set(findings.map((f) => f.match));
+  for (const secret of ctx.secrets) {
+    const index = seen.has(secret.match) ? -1 : target.text.indexOf(secret.match);
+    if (index === -1) continue;
+    seen.add(secret.match);
+    const before = target.text.slice(0, index).split(/\r?\n/);
+    findings.push({ ...secret, line: before.length, column: before[before.length - 1].length + 1 });
+  }
+  for (const finding of findings) {
+    // Only the rule and redacted preview are reported; the excerpt is masked as well
+    ctx.report(
+      target,
+      "secret_in_prompt",
+      `Prompt text contains a potential secret (${finding.rule}, ${finding.preview})`,
+      // Mask before truncating so a cut never leaves part of the value readable
+      redactText(lines[finding.line - 1] ?? "", ctx.known).trim().slice(0, 120),
+      target.source === "keyword" ? finding.column : undefined
+    );
+  }
+}
+
+function checkInternalUrls(target: LintTarget, ctx: RuleContext) {
+  for (const match of target.text.matchAll(URL_PATTERN)) {
+    const host = match[1];
+    if (!INTERNAL_HOST.test(host) && !matchesAnyGlob(host, ctx.internalHosts)) continue;
+    ctx.report(
+      target,
+      "internal_url_in_prompt",
+      `Prompt text references internal host ${host}`,
+      excerptAround(target.text, match.index, match[0].length, ctx.known),
+      target.source === "keyword" ? match.index + 1 : undefined
+    );
+  }
+}
+
+function checkContradictions(target: LintTarget, ctx: RuleContext) {
+  for (const [a, b, label] of CONTRADICTIONS) {
+    const first = a.exec(target.text);
+    const second = b.exec(target.text);
+    if (first && second) {
+      ctx.report(target, "contradictory_instructions", `Contradictory instructions (${label}): "${first[0]}" and "${second[0]}"`, "");
+      return;
+    }
+  }
+  const always = new Map<string, string>();
+  for (const m of target.text.matchAll(ALWAYS_DIRECTIVE)) always.set(m[1].toLowerCase(), m[0]);
+  for (const m of target.text.matchAll(NEVER_DIRECTIVE)) {
+    const positive = always.get(m[1].toLowerCase());
+    if (positive) {
+      ctx.report(target, "contradictory_instructions", `Contradictory instructions: "${positive}" and "${m[0]}"`, "");
+      return;
+    }
+  }
+}
+
+function checkLength(target: LintTarget, ctx: RuleContext) {
+  // Falls back to the rough 4-characters-per-token estimate when the prompt was not annotated
+  const tokens = target.tokens ?? Math.ceil(target.text.length / 4);
+  if (tokens <= ctx.config.maxTokens) return;
+  ctx.report(target, "excessive_length", `Prompt is about ${tokens} tokens (limit ${ctx.config.maxTokens})`, excerptAround(target.text, 0, 0, ctx.known));
+}
+
+function checkUnknownRole(target: LintTarget, ctx: RuleContext) {
+  if (target.role !== "unknown") return;
+  ctx.report(target, "unknown_role", "Prompt role could not be determined from the call site", excerptAround(target.text, 0, 0, ctx.known));
+}
+
+// A call site whose file parses JSON out of the reply should ask for JSON in one of its prompts
+async function checkOutputFormat(targets: LintTarget[], ctx: RuleContext) {
+  const groups = new Map<string, LintTarget[]>();
+  for (const t of targets) {
+    if (t.source !== "prompt" || !t.group) continue;
+    groups.set(t.group, [...(groups.get(t.group) ?? []), t]);
+  }
+  const parsesJson = new Map<string, boolean>();
+  for (const members of groups.values()) {
+    const filePath = members[0].filePath;
+    if (!parsesJson.has(filePath)) {
+      const content = await fs.readFile(filePath, "utf8").catch(() => "");
+      parsesJson.set(filePath, JSON_PARSE_CALL.test(content));
+    }
+    if (!parsesJson.get(filePath)) continue;
+    if (members.some((m) => JSON_INSTRUCTION.test(m.text))) continue;
+    const anchor = members.find((m) => m.role === "system") ?? members[0];
+    ctx.report(
+      anchor,
+      "missing_output_format",
+      "This file parses JSON from the model reply, but no prompt at this call site asks for JSON output",
+      excerptAround(anchor.text, 0, 0, ctx.known)
+    );
+  }
+}
+
+const TEXT_CHECKS: Record<string, (target: LintTarget, ctx: RuleContext) => void> = {
+  user_input_in_system_prompt: checkUserInput,
+  secret_in_prompt: checkSecrets,
+  internal_url_in_prompt: checkInternalUrls,
+  contradictory_instructions: checkContradictions,
+  excessive_length: checkLength,
+  unknown_role: checkUnknownRole,
+};
+
+// Lints extracted prompts plus keyword snippets that no extracted prompt covers (same file and line)
+export async function lintPrompts(input: {
+  prompts: PythonPrompt[];
+  keywords: PromptKeywordHit[];
+  root: string;
+  config?: PromptLintConfig;
+  secrets?: SecretFinding[]; // the scan's secret findings, with raw values
+}): Promise<PromptLintFinding[]> {
+  const config = input.config ?? promptLintConfigSchema.parse({});
+  const ignore = config.ignorePaths.map(globToRegExp);
+  const isIgnored = (filePath: string) => matchesAnyGlob(relative(input.root, filePath).split(sep).join("/"), ignore);
+  const rules = PROMPT_LINT_RULES.filter((r) => !config.disable.includes(r.id));
+  const findings: PromptLintFinding[] = [];
+  const seen = new Set<string>();
+
+  const ctx: RuleContext = {
+    config,
+    internalHosts: config.internalHosts.map(globToRegExp),
+    secrets: input.secrets ?? [],
+    known: (input.secrets ?? []).map((s) => s.match),
+    report: (target, rule, message, excerpt, column) => {
+      const key = `${rule}\u0000${target.filePath}\u0000${target.line}\u0000${message}`;
+      if (seen.has(key)) return;
+      seen.add(key);
+      const severity = config.severity[rule] ?? PROMPT_LINT_RULES.find((r) => r.id === rule)?.severity ?? "low";
+      findings.push({ rule, severity, message, filePath: target.filePath, line: target.line, column, role: target.role, source: target.source, excerpt });
+    },
+  };
+
+  const targets: LintTarget[] = input.prompts
+    .filter((p) => p.text && !isIgnored(p.filePath))
+    .map((p) => ({
+      text: p.text,
+      filePath: p.filePath,
+      line: p.line,
+      role: p.role,
+      source: "prompt" as const,
+      group: `${p.filePath}\u0000${p.line}\u0000${p.functionName ?? ""}\u0000${p.callSignature ?? ""}`, // one call site
+      tokens: p.tokens ? Object.values(p.tokens)[0] : undefined,
+    }));
+  // Extracted prompts sit at the call's line, so a snippet on a later line of the same literal is matched by its text
+  const covered = new Set(input.prompts.map((p) => `${p.filePath}:${p.line}`));
+  const isCovered = (hit: PromptKeywordHit) => {
+    if (covered.has(`${hit.filePath}:${hit.line}`)) return true;
+    const literal = SNIPPET_LITERAL.exec(hit.snippet)?.[1];
+    return Boolean(literal) && input.prompts.some((p) => p.filePath === hit.filePath && p.text.includes(literal!.slice(0, 24)));
+  };
+  for (const hit of input.keywords) {
+    if (isCovered(hit) || isIgnored(hit.filePath)) continue;
+    // Keyword labels are about system prompts; anything else is too vague to treat as one
+    const role = /system/i.test(hit.matchLabel) ? "system" : "unknown";
+    targets.push({ text: hit.snippet, filePath: hit.filePath, line: hit.line, role, source: "keyword" });
+  }
+
+  for (const target of targets) {
+    for (const rule of rules) {
+      if (target.source === "keyword" && !rule.appliesToSnippets) continue;
+      TEXT_CHECKS[rule.id]?.(target, ctx);
+    }
+  }
+  if (rules.some((r) => r.id === "missing_output_format")) await checkOutputFormat(targets, ctx);
+
+  const order = [...SECRET_SEVERITIES].reverse();
+  return findings.sort(
+    (a, b) => order.indexOf(a.severity) - order.indexOf(b.severity) || a.filePath.localeCompare(b.filePath) || a.line - b.line
+  );
+}
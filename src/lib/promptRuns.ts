@@ -0,0 +1,81 @@
+import { randomUUID } from "node:crypto";
+import { getModelProvider, ModelProviderError, type ModelErrorInfo, type ModelProviderId, type ModelSelection } from "@/lib/modelProvider";
+import { renderTemplate } from "@/lib/promptTemplate";
+
+export type PromptRef = { filePath: string; line: number; role: string };
+
+export type PromptRunRequest = {
+  scanId?: string;
+  prompt?: PromptRef; // the extracted prompt the run started from, for the record
+  label?: string; // names a prompt edit so runs can be told apart side by side
+  system: string; // skeletons; variables are filled in here
+  user: string;
+  variables: Record<string, string>;
+  targets: ModelSelection[]; // one run per target, run concurrently
+  temperature?: number;
+  maxTokens?: number;
+};
+
+export type PromptRun = {
+  id: string;
+  scanId: string | null;
+  createdAt: string;
+  label: string | null;
+  prompt: PromptRef | null;
+  variables: Record<string, string>;
+  system: string; // as sent, variables filled
+  user: string;
+  provider: ModelProviderId | null;
+  model: string | null;
+  temperature?: number;
+  output: string | null;
+  usage?: { inputTokens: number; outputTokens: number };
+  latencyMs: number;
+  error?: ModelErrorInfo;
+};
+
+async function runTarget(request: PromptRunRequest, target: ModelSelection, rendered: { system: string; user: string }, signal?: AbortSignal) {
+  const base = {
+    id: randomUUID(),
+    scanId: request.scanId ?? null,
+    createdAt: new Date().toISOString(),
+    label: request.label ?? null,
+    prompt: request.prompt ?? null,
+    variables: request.variables,
+    ...rendered,
+    temperature: request.temperature,
+  };
+  const started = Date.now();
+  try {
+    const provider = getModelProvider(target);
+    const completion = await provider.complete({ ...rendered, temperature: request.temperature, maxTokens: request.maxTokens, signal });
+    return {
+      ...base,
+      provider: completion.provider,
+      model: completion.model,
+      output: completion.text,
+      usage: completion.usage,
+      latencyMs: Date.now() - started,
+    } satisfies PromptRun;
+  } catch (error: unknown) {
+    signal?.throwIfAborted();
+    const info: ModelErrorInfo =
+      error instanceof ModelProviderError
+        ? error.toJSON()
+        : { provider: target.provider ?? null, code: "network", message: error instanceof Error ? error.message : String(error) };
+    return {
+      ...base,
+      provider: info.provider,
+      model: target.model ?? null,
+      output: null,
+      latencyMs: Date.now() - started,
+      error: info,
+    } satisfies PromptRun;
+  }
+}
+
+// Renders the prompt once and runs it against every target; a failing target yields a run with `error`, not a throw
+export async function runPrompt(request: PromptRunRequest, signal?: AbortSignal): Promise<PromptRun[]> {
+  const rendered = { system: renderTemplate(request.system, request.variables), user: renderTemplate(request.user, request.variables) };
+  return Promise.all(request.targets.map((target) => runTarget(request, target, rendered, signal)));
+}
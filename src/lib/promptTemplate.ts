@@ -0,0 +1,126 @@
+import type { PythonPrompt } from "@/lib/extract/pythonExtractor";
+
+// Python constructs (f-string, format, percent, concat) come from the AST pass; template languages are detected in the text
+export const TEMPLATE_SYNTAXES = ["f-string", "format", "percent", "concat", "template-literal", "jinja2", "mustache", "langchain", "plain"] as const;
+
+export type TemplateSyntax = (typeof TEMPLATE_SYNTAXES)[number];
+
+// parameter/local/module/import: how the enclosing code binds the name; template: a field left for a later render call
+export type VariableSource = "parameter" | "local" | "module" | "import" | "attribute" | "call" | "expression" | "template" | "unknown";
+
+export type TemplateVariable = {
+  name: string; // placeholder as it appears in the skeleton
+  expression: string | null; // source expression supplying the value, when the code shows it
+  syntax: TemplateSyntax;
+  source: VariableSource;
+  definedAt?: { filePath: string; line: number };
+};
+
+export type PromptTemplate = {
+  syntax: TemplateSyntax; // the template language a maintainer edits in; "plain" when there are no placeholders
+  syntaxes: TemplateSyntax[]; // every construct seen, e.g. an f-string wrapping a Jinja template
+  variables: TemplateVariable[];
+  skeleton: string; // the prompt with every runtime value left as a named placeholder
+};
+
+// Shape emitted by the Python extractor before annotatePromptTemplates fills in the rest
+type RawTemplate = Partial<Pick<PromptTemplate, "syntaxes" | "variables" | "skeleton">>;
+
+const IDENTIFIER = /^[A-Za-z_][\w]*$/;
+const JINJA_MARKERS = /\{%|(?<!\{)\{#|\{\{[^{}]*\|[^{}]*\}\}/;
+const MUSTACHE_MARKERS = /\{\{\{|\{\{\s*[#^/>!&]/;
+const DOUBLE_BRACE = /\{\{\{?\s*[#^/>&]?\s*([A-Za-z_][\w.]*)[^{}]*\}?\}\}/g;
+const JINJA_STATEMENT = /\{%-?\s*(?:for\s+([\w,\s]+?)\s+in\s+([A-Za-z_][\w.]*)|(?:if|elif)\s+(?:not\s+)?([A-Za-z_][\w.]*))/g;
+const SINGLE_BRACE = /(?<![{$])\{([A-Za-z_]\w*)\}(?!\})/g;
+const TEMPLATE_LITERAL = /\$\{([^{}]+)\}/g;
+const JINJA_KEYWORDS = new Set(["loop", "true", "false", "none", "True", "False", "None", "else", "endif", "endfor"]);
+
+function expressionSource(expression: string): VariableSource {
+  if (IDENTIFIER.test(expression)) return "unknown";
+  if (expression.includes("(")) return "call";
+  if (/^[\w$]+(\??\.[\w$]+)+$/.test(expression)) return "attribute";
+  return "expression";
+}
+
+// Variables a Jinja2 or Mustache template reads; loop variables and sections' own keys are not inputs
+function doubleBraceVariables(text: string, syntax: "jinja2" | "mustache"): TemplateVariable[] {
+  const names: string[] = [];
+  const local = new Set<string>();
+  if (syntax === "jinja2") {
+    for (const m of text.matchAll(JINJA_STATEMENT)) {
+      if (m[1]) for (const v of m[1].split(",")) local.add(v.trim());
+      const read = m[2] ?? m[3];
+      if (read) names.push(read);
+    }
+  }
+  for (const m of text.matchAll(DOUBLE_BRACE)) names.push(m[1]);
+  return names
+    .filter((name) => !JINJA_KEYWORDS.has(name) && !local.has(name.split(".")[0]))
+    .map((name) => ({ name, expression: null, syntax, source: "template" as const }));
+}
+
+function detectTextSyntax(skeleton: string, language: "python" | "typescript", hasConstructs: boolean): TemplateSyntax | null {
+  if (JINJA_MARKERS.test(skeleton)) return "jinja2";
+  if (MUSTACHE_MARKERS.test(skeleton)) return "mustache";
+  // search() leaves the global patterns' lastIndex alone, so the matchAll calls after this start at 0
+  if (skeleton.search(DOUBLE_BRACE) >= 0) return language === "python" ? "jinja2" : "mustache";
+  // A plain literal with {name} fields is a LangChain/format template rendered elsewhere
+  if (!hasConstructs && skeleton.search(SINGLE_BRACE) >= 0) return "langchain";
+  return null;
+}
+
+export function analyzePromptTemplate(prompt: PythonPrompt, language: "python" | "typescript"): PromptTemplate {
+  const raw: RawTemplate = prompt.template ?? {};
+  const skeleton = raw.skeleton ?? prompt.text ?? "";
+  const syntaxes = [...(raw.syntaxes ?? [])];
+  const variables = [...(raw.variables ?? [])];
+
+  if (language === "typescript") {
+    for (const m of skeleton.matchAll(TEMPLATE_LITERAL)) {
+      const expression = m[1].trim();
+      variables.push({ name: expression, expression, syntax: "template-literal", source: expressionSource(expression) });
+    }
+    if (variables.length && !syntaxes.includes("template-literal")) syntaxes.push("template-literal");
+  }
+
+  const textSyntax = detectTextSyntax(skeleton, language, syntaxes.length > 0);
+  if (textSyntax === "jinja2" || textSyntax === "mustache") {
+    variables.push(...doubleBraceVariables(skeleton, textSyntax));
+  } else if (textSyntax === "langchain") {
+    for (const m of skeleton.matchAll(SINGLE_BRACE)) variables.push({ name: m[1], expression: null, syntax: "langchain", source: "template" });
+  }
+  if (textSyntax) syntaxes.push(textSyntax);
+
+  const unique = new Map<string, TemplateVariable>();
+  for (const v of variables) if (!unique.has(v.name)) unique.set(v.name, v);
+  return {
+    // The text-level template language wins: it is what the placeholders in the skeleton are written in
+    syntax: textSyntax ?? syntaxes[0] ?? "plain",
+    syntaxes: syntaxes.length ? syntaxes : ["plain"],
+    variables: [...unique.values()],
+    skeleton,
+  };
+}
+
+// Replaces each prompt's raw extractor template (if any) with the full analysis (mutates and returns the prompts)
+export function annotatePromptTemplates<T extends PythonPrompt>(prompts: T[], language: "python" | "typescript"): T[] {
+  for (const prompt of prompts) prompt.template = analyzePromptTemplate(prompt, language);
+  return prompts;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Fills named placeholders in a skeleton ({name}, ${name}, {{ name }}); placeholders without a value stay as they are.
+// Jinja/Mustache control blocks are not evaluated.
+export function renderTemplate(skeleton: string, values: Record<string, string>): string {
+  let out = skeleton;
+  // Longest names first so "user.name" is not clobbered by "user"
+  for (const name of Object.keys(values).sort((a, b) => b.length - a.length)) {
+    const n = escapeRegExp(name);
+    const pattern = new RegExp(`\\{\\{\\{?\\s*${n}\\s*\\}?\\}\\}|\\$\\{\\s*${n}\\s*\\}|\\{${n}\\}`, "g");
+    out = out.replace(pattern, () => values[name]);
+  }
+  return out;
+}
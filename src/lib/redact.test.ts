@@ -0,0 +1,75 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { tmpdir } from "node:os";
+import { createScanEventRedactor, redactScanEvent, redactText, secretValuesIn } from "@/lib/redact";
+import { scanTextForSecrets } from "@/lib/secretsScan";
+import { analyzePromptContext } from "@/lib/analyzePrompts";
+import { lintPrompts } from "@/lib/promptLint";
+import type { ModelProvider } from "@/lib/modelProvider";
+import type { PythonPrompt } from "@/lib/extract/pythonExtractor";
+import type { ScanEvent } from "@/lib/scanRepository";
+
+// Only the file-gated dotenv rule catches this value; a re-scan of prompt text does not
+const [dotenvSecret] = scanTextForSecrets("DB_PASSWORD=Xk29fLq0Zr7\n", ".env");
+const value = dotenvSecret.match;
+
+const prompt: PythonPrompt = {
+  filePath: "app/db.py",
+  line: 3,
+  role: "system",
+  text: `Connect to the database with password ${value} and answer questions.`,
+  functionName: "ask",
+  callSignature: "client.chat.completions.create",
+};
+
+const secretsEvent: ScanEvent = { type: "partial", key: "secrets", items: [dotenvSecret] };
+const promptEvent: ScanEvent = { type: "partial", key: "python", items: [prompt] };
+
+test("the dotenv value is invisible to a re-scan without its file path", () => {
+  assert.equal(value, "Xk29fLq0Zr7");
+  assert.equal(redactText(prompt.text), prompt.text);
+});
+
+test("redactText masks known values", () => {
+  const masked = redactText(prompt.text, [value]);
+  assert.ok(!masked.includes(value));
+  assert.match(masked, /#[0-9a-f]{12}/);
+});
+
+test("a stream redactor masks partials sent after the secret finding", () => {
+  const redact = createScanEventRedactor();
+  assert.ok(JSON.stringify(redact(promptEvent)).includes(value), "nothing is known before the secret pass");
+  redact(secretsEvent);
+  assert.ok(!JSON.stringify(redact(promptEvent)).includes(value));
+  assert.ok(JSON.stringify(createScanEventRedactor({ reveal: true })(promptEvent)).includes(value));
+});
+
+test("job events are masked with every buffered secret", () => {
+  const known = secretValuesIn([promptEvent, secretsEvent]);
+  assert.deepEqual(known, [value]);
+  assert.ok(!JSON.stringify(redactScanEvent(promptEvent, { known })).includes(value));
+});
+
+test("evidence sent to the model masks known values", async () => {
+  const sent: string[] = [];
+  const provider: ModelProvider = {
+    id: "mock",
+    model: "test",
+    async complete(request) {
+      sent.push(request.user);
+      return { text: JSON.stringify({ summary: "ok", files: [] }), provider: "mock", model: "test" };
+    },
+  };
+  const hits = [{ filePath: "app/db.py", line: 3, column: 1, matchLabel: "system prompt", snippet: prompt.text }];
+  await analyzePromptContext({ hits, python: [prompt], fileTree: null, provider, known: [value] });
+  assert.ok(sent.length > 0);
+  assert.ok(sent.every((user) => !user.includes(value)));
+});
+
+test("lint flags and masks values the scan reported as secrets", async () => {
+  const findings = await lintPrompts({ prompts: [prompt], keywords: [], root: tmpdir(), secrets: [dotenvSecret] });
+  const secret = findings.find((f) => f.rule === "secret_in_prompt");
+  assert.ok(secret, "the known value is reported");
+  assert.match(secret.message, /dotenv_assignment/);
+  assert.ok(findings.every((f) => !f.excerpt.includes(value)));
+});
@@ -0,0 +1,202 @@
+import { createHash } from "node:crypto";
+import type { PythonPrompt } from "@/lib/extract/pythonExtractor";
+import type { PromptModelAnalysis } from "@/lib/analyzePrompts";
+import type { PromptKeywordHit } from "@/lib/promptKeywordScan";
+import type { PromptLintFinding } from "@/lib/promptLint";
+import type { PromptClusterReport } from "@/lib/promptClusters";
+import type { PromptHistory } from "@/lib/promptHistory";
+import type { DiffPrompt, RefDiffResult } from "@/lib/promptDiff";
+import type { PromptRun } from "@/lib/promptRuns";
+import type { OrgInventory } from "@/lib/orgScan";
+import type { ScanEvent, ScanResult } from "@/lib/scanRepository";
+import { redactPreview, scanTextForSecrets, type SecretFinding } from "@/lib/secretsScan";
+
+// Short, stable digest so the same secret can be correlated across files, scans and exports without exposing it
+export function secretHash(value: string): string {
+  return createHash("sha256").update(value).digest("hex").slice(0, 12);
+}
+
+export function maskSecret(value: string): string {
+  return `${redactPreview(value)}#${secretHash(value)}`;
+}
+
+// Masks the given known values plus anything the secret scanner detects in the text itself
+export function redactText(text: string, known?: Iterable<string>): string {
+  if (!text) return text;
+  const values = new Set(known ?? []);
+  for (const finding of scanTextForSecrets(text, "")) values.add(finding.match);
+  let out = text;
+  // Longest first so a secret that contains another is masked as a whole
+  for (const value of [...values].sort((a, b) => b.length - a.length)) {
+    if (value && out.includes(value)) out = out.split(value).join(maskSecret(value));
+  }
+  return out;
+}
+
+export function redactFinding<T extends SecretFinding>(finding: T): T {
+  if (finding.redacted) return finding;
+  return { ...finding, match: maskSecret(finding.match), hash: secretHash(finding.match), redacted: true };
+}
+
+function redactPrompts<T extends PythonPrompt>(prompts: T[], known: string[]): T[] {
+  return prompts.map((p) => ({
+    ...p,
+    text: redactText(p.text, known),
+    template: p.template && { ...p.template, skeleton: redactText(p.template.skeleton, known) },
+  }));
+}
+
+function redactHits(hits: PromptKeywordHit[], known: string[]): PromptKeywordHit[] {
+  return hits.map((h) => ({ ...h, snippet: redactText(h.snippet, known) }));
+}
+
+function redactLint(findings: PromptLintFinding[] | undefined, known: string[]): PromptLintFinding[] | undefined {
+  return findings?.map((f) => ({ ...f, excerpt: redactText(f.excerpt, known) }));
+}
+
+function redactClusters(report: PromptClusterReport | undefined, known: string[]): PromptClusterReport | undefined {
+  if (!report) return report;
+  return {
+    clusters: report.clusters.map((c) => ({
+      ...c,
+      members: c.members.map((m) => ({
+        ...m,
+        text: redactText(m.text, known),
+        diff: m.diff?.map((op) => ({ ...op, text: redactText(op.text, known) })),
+      })),
+    })),
+    boilerplate: report.boilerplate.map((b) => ({ ...b, text: redactText(b.text, known) })),
+  };
+}
+
+function redactAnalysis(analysis: PromptModelAnalysis | null, known: string[]): PromptModelAnalysis | null {
+  if (!analysis) return analysis;
+  return {
+    ...analysis,
+    summary: redactText(analysis.summary, known),
+    logic: analysis.logic === undefined ? undefined : redactText(analysis.logic, known),
+    files: analysis.files.map((f) => ({ ...f, reasoning: f.reasoning === undefined ? undefined : redactText(f.reasoning, known) })),
+    redundancies: analysis.redundancies?.map((r) => ({ ...r, description: redactText(r.description, known) })),
+    chunks: analysis.chunks?.map((c) => ({ ...c, summary: c.summary === undefined ? undefined : redactText(c.summary, known) })),
+  };
+}
+
+// Every scan result leaving the server goes through here; `reveal` is only set for callers allowed to see raw values
+export function redactScanResult(result: ScanResult, options?: { reveal?: boolean }): ScanResult {
+  if (options?.reveal) {
+    const withHash = <T extends SecretFinding>(s: T): T => ({ ...s, hash: s.hash ?? secretHash(s.match) });
+    return { ...result, secrets: result.secrets.map(withHash), historySecrets: result.historySecrets?.map(withHash) };
+  }
+  const known = [...result.secrets, ...(result.historySecrets ?? [])].filter((s) => !s.redacted).map((s) => s.match);
+  return {
+    ...result,
+    secrets: result.secrets.map(redactFinding),
+    historySecrets: result.historySecrets?.map(redactFinding),
+    extracted: { python: redactPrompts(result.extracted.python, known), typescript: redactPrompts(result.extracted.typescript, known) },
+    prompts: {
+      ...result.prompts,
+      keywords: redactHits(result.prompts.keywords, known),
+      analysis: redactAnalysis(result.prompts.analysis, known),
+      lint: redactLint(result.prompts.lint, known),
+      clusters: redactClusters(result.prompts.clusters, known),
+    },
+  };
+}
+
+function redactDiffPrompt(p: DiffPrompt | undefined): DiffPrompt | undefined {
+  return p && { ...p, text: redactText(p.text) };
+}
+
+export function redactRefDiff(diff: RefDiffResult): RefDiffResult {
+  return {
+    ...diff,
+    changes: diff.changes.map((c) => ({
+      ...c,
+      base: redactDiffPrompt(c.base),
+      head: redactDiffPrompt(c.head),
+      textDiff: c.textDiff?.map((op) => ({ ...op, text: redactText(op.text) })),
+    })),
+  };
+}
+
+export function redactPromptHistory(history: PromptHistory): PromptHistory {
+  return {
+    ...history,
+    commits: history.commits.map((c) => ({ ...c, patch: redactText(c.patch) })),
+    blame: history.blame.map((b) => ({ ...b, content: redactText(b.content) })),
+  };
+}
+
+// Variables are user-typed and outputs model-written, so both can echo a secret back
+export function redactPromptRun(run: PromptRun): PromptRun {
+  return {
+    ...run,
+    system: redactText(run.system),
+    user: redactText(run.user),
+    output: run.output === null ? null : redactText(run.output),
+    variables: Object.fromEntries(Object.entries(run.variables).map(([k, v]) => [k, redactText(v)])),
+  };
+}
+
+// Secrets found in any repository are masked wherever they appear in the organisation's prompts
+export function redactOrgInventory(inventory: OrgInventory): OrgInventory {
+  const known = inventory.secrets.filter((s) => !s.redacted).map((s) => s.match);
+  return {
+    ...inventory,
+    secrets: inventory.secrets.map(redactFinding),
+    prompts: inventory.prompts.map((p) => ({ ...p, text: redactText(p.text, known) })),
+    duplicates: inventory.duplicates.map((d) => ({
+      ...d,
+      members: d.members.map((m) => ({
+        ...m,
+        text: redactText(m.text, known),
+        diff: m.diff?.map((op) => ({ ...op, text: redactText(op.text, known) })),
+      })),
+    })),
+  };
+}
+
+// Raw values of the secrets reported in these events. File-gated (dotenv) and repo-configured rules only fire
+// in the secret pass, so text scanned on its own would miss them.
+export function secretValuesIn(events: ScanEvent[]): string[] {
+  const values: string[] = [];
+  for (const event of events) {
+    if (event.type !== "partial" || (event.key !== "secrets" && event.key !== "historySecrets")) continue;
+    for (const s of event.items) if (!s.redacted) values.push(s.match);
+  }
+  return values;
+}
+
+// Streaming counterpart of redactScanResult for partial results; `known` holds the secret values found so far
+export function redactScanEvent(event: ScanEvent, options?: { reveal?: boolean; known?: string[] }): ScanEvent {
+  if (options?.reveal || event.type !== "partial") return event;
+  const known = options?.known ?? [];
+  switch (event.key) {
+    case "secrets":
+      return { ...event, items: event.items.map(redactFinding) };
+    case "historySecrets":
+      return { ...event, items: event.items.map(redactFinding) };
+    case "keywords":
+      return { ...event, items: redactHits(event.items, known) };
+    case "lint":
+      return { ...event, items: redactLint(event.items, known) ?? [] };
+    case "clusters":
+      return { ...event, report: redactClusters(event.report, known) ?? event.report };
+    case "python":
+    case "typescript":
+      return { ...event, items: redactPrompts(event.items, known) };
+    case "analysis":
+      return { ...event, analysis: redactAnalysis(event.analysis, known) };
+    default:
+      return event;
+  }
+}
+
+// Redacts one stream's events in order, masking every later partial with the secrets reported before it
+export function createScanEventRedactor(options?: { reveal?: boolean }): (event: ScanEvent) => ScanEvent {
+  const known: string[] = [];
+  return (event) => {
+    known.push(...secretValuesIn([event]));
+    return redactScanEvent(event, { reveal: options?.reveal, known });
+  };
+}
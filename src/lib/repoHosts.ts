@@ -0,0 +1,163 @@
+import { dirname, isAbsolute, resolve } from "node:path";
+import { promises as fs } from "node:fs";
+
+export const REPO_HOSTS = ["github", "fixture"] as const;
+
+export type RepoHostId = (typeof REPO_HOSTS)[number];
+
+// One repository of an organisation; exactly one of cloneUrl and localPath is set
+export type HostRepository = {
+  name: string;
+  fullName: string; // "<org>/<name>"
+  cloneUrl: string | null;
+  localPath: string | null;
+  defaultBranch: string;
+  archived: boolean;
+  fork: boolean;
+};
+
+export type ListRepositoriesOptions = {
+  token?: string; // Host API token; falls back to the server environment
+  includeForks?: boolean;
+  includeArchived?: boolean;
+  limit?: number;
+  signal?: AbortSignal;
+};
+
+export type RepoHostClient = {
+  id: RepoHostId;
+  listRepositories(org: string, options?: ListRepositoriesOptions): Promise<HostRepository[]>;
+};
+
+export type RepoHostErrorCode = "not_configured" | "not_found" | "http_error" | "network" | "invalid_response";
+
+export class RepoHostError extends Error {
+  constructor(
+    message: string,
+    readonly host: RepoHostId,
+    readonly code: RepoHostErrorCode,
+    readonly status?: number
+  ) {
+    super(message);
+    this.name = "RepoHostError";
+  }
+}
+
+const GITHUB_PAGE_SIZE = 100;
+const DEFAULT_LIMIT = 200;
+
+function env(name: string): string | undefined {
+  const value = process.env[name]?.trim();
+  return value ? value : undefined;
+}
+
+function keep(repo: HostRepository, options?: ListRepositoriesOptions): boolean {
+  return (options?.includeForks || !repo.fork) && (options?.includeArchived || !repo.archived);
+}
+
+type GitHubRepo = { name: string; full_name: string; clone_url: string; default_branch?: string; archived?: boolean; fork?: boolean };
+
+// Lists an organisation's repositories through the REST API (GITHUB_API_URL for GitHub Enterprise).
+// A name that is not an organisation is retried as a user account.
+export function githubHostClient(config?: { apiUrl?: string; token?: string }): RepoHostClient {
+  const apiUrl = (config?.apiUrl ?? env("GITHUB_API_URL") ?? "https://api.github.com").replace(/\/+$/, "");
+
+  async function fetchPage(path: string, page: number, token: string | undefined, signal?: AbortSignal): Promise<GitHubRepo[] | null> {
+    const headers: Record<string, string> = { accept: "application/vnd.github+json", "user-agent": "prompt-explorer" };
+    if (token) headers.authorization = `Bearer ${token}`;
+    let res: Response;
+    try {
+      res = await fetch(`${apiUrl}${path}?per_page=${GITHUB_PAGE_SIZE}&page=${page}&type=all`, { headers, signal });
+    } catch (error: unknown) {
+      signal?.throwIfAborted();
+      const message = error instanceof Error ? error.message : String(error);
+      throw new RepoHostError(`GitHub request failed: ${message}`, "github", "network");
+    }
+    if (res.status === 404) return null;
+    if (!res.ok) {
+      const body = (await res.text().catch(() => "")).slice(0, 300);
+      throw new RepoHostError(`GitHub returned ${res.status}: ${body}`, "github", "http_error", res.status);
+    }
+    const json: unknown = await res.json().catch(() => null);
+    if (!Array.isArray(json)) throw new RepoHostError("GitHub returned an unexpected repository list", "github", "invalid_response");
+    return json as GitHubRepo[];
+  }
+
+  return {
+    id: "github",
+    async listRepositories(org, options) {
+      const token = options?.token ?? config?.token ?? env("GITHUB_TOKEN");
+      const limit = options?.limit ?? DEFAULT_LIMIT;
+      const out: HostRepository[] = [];
+      let path = `/orgs/${encodeURIComponent(org)}/repos`;
+      for (let page = 1; out.length < limit; page += 1) {
+        let repos = await fetchPage(path, page, token, options?.signal);
+        if (repos === null && page === 1 && path.startsWith("/orgs/")) {
+          path = `/users/${encodeURIComponent(org)}/repos`;
+          repos = await fetchPage(path, page, token, options?.signal);
+        }
+        if (repos === null) throw new RepoHostError(`GitHub organisation or user "${org}" not found`, "github", "not_found", 404);
+        for (const r of repos) {
+          const repo: HostRepository = {
+            name: r.name,
+            fullName: r.full_name,
+            cloneUrl: r.clone_url,
+            localPath: null,
+            defaultBranch: r.default_branch || "main",
+            archived: Boolean(r.archived),
+            fork: Boolean(r.fork),
+          };
+          if (keep(repo, options) && out.length < limit) out.push(repo);
+        }
+        if (repos.length < GITHUB_PAGE_SIZE) break;
+      }
+      return out;
+    },
+  };
+}
+
+type FixtureRepo = { name: string; localPath?: string; cloneUrl?: string; defaultBranch?: string; archived?: boolean; fork?: boolean };
+
+// Offline stand-in for a host: a JSON file of the form { "orgs": { "<org>": [{ "name", "localPath" | "cloneUrl", ... }] } }.
+// Relative local paths resolve against the file's directory.
+export function fixtureHostClient(file: string): RepoHostClient {
+  return {
+    id: "fixture",
+    async listRepositories(org, options) {
+      let json: { orgs?: Record<string, FixtureRepo[]> };
+      try {
+        json = JSON.parse(await fs.readFile(file, "utf8"));
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new RepoHostError(`Could not read host fixture ${file}: ${message}`, "fixture", "invalid_response");
+      }
+      const entries = json.orgs?.[org];
+      if (!Array.isArray(entries)) throw new RepoHostError(`Organisation "${org}" is not in the host fixture`, "fixture", "not_found", 404);
+      const repos = entries.map(
+        (r): HostRepository => ({
+          name: r.name,
+          fullName: `${org}/${r.name}`,
+          cloneUrl: r.localPath ? null : (r.cloneUrl ?? null),
+          localPath: r.localPath ? (isAbsolute(r.localPath) ? r.localPath : resolve(dirname(file), r.localPath)) : null,
+          defaultBranch: r.defaultBranch || "main",
+          archived: Boolean(r.archived),
+          fork: Boolean(r.fork),
+        })
+      );
+      return repos.filter((r) => keep(r, options)).slice(0, options?.limit ?? DEFAULT_LIMIT);
+    },
+  };
+}
+
+// Client for a host, or a not_configured error; the fixture host reads REPO_HOST_FIXTURE
+export function getRepoHostClient(host: RepoHostId): RepoHostClient {
+  switch (host) {
+    case "github":
+      return githubHostClient();
+    case "fixture": {
+      const file = env("REPO_HOST_FIXTURE");
+      if (!file) throw new RepoHostError("The fixture host needs REPO_HOST_FIXTURE set on the server", "fixture", "not_configured");
+      return fixtureHostClient(file);
+    }
+  }
+}
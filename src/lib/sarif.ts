@@ -0,0 +1,186 @@
+import { createHash } from "node:crypto";
+import { pathToFileURL } from "node:url";
+import { join, relative, sep } from "node:path";
+import type { ScanResult } from "@/lib/scanRepository";
+import type { PolicyOutcome } from "@/lib/scanReport";
+import { listSecretRules, type SecretSeverity } from "@/lib/secretsScan";
+import { redactText } from "@/lib/redact";
+import { listPromptLintRules } from "@/lib/promptLint";
+
+type SarifLevel = "error" | "warning" | "note";
+
+type SarifRule = {
+  id: string;
+  name: string;
+  shortDescription: { text: string };
+  defaultConfiguration: { level: SarifLevel };
+  properties?: { tags: string[]; "security-severity"?: string };
+};
+
+type SarifRegion = { startLine: number; startColumn?: number; endColumn?: number };
+
+type SarifResult = {
+  ruleId: string;
+  ruleIndex: number;
+  level: SarifLevel;
+  message: { text: string };
+  locations: Array<{
+    physicalLocation: {
+      artifactLocation: { uri: string; uriBaseId: "SRCROOT" };
+      region: SarifRegion;
+    };
+  }>;
+  partialFingerprints: Record<string, string>;
+};
+
+export type SarifLog = {
+  $schema: string;
+  version: "2.1.0";
+  runs: Array<{
+    tool: { driver: { name: string; rules: SarifRule[] } };
+    originalUriBaseIds: Record<string, { uri: string }>;
+    versionControlProvenance?: Array<{ repositoryUri: string; revisionId?: string; branch?: string }>;
+    results: SarifResult[];
+  }>;
+};
+
+export const SARIF_SCHEMA = "https://json.schemastore.org/sarif-2.1.0.json";
+export const SARIF_CONTENT_TYPE = "application/sarif+json";
+
+// Key under partialFingerprints; bump the version if the hashed fields change
+const FINGERPRINT_KEY = "promptExplorer/v1";
+
+const SEVERITY_LEVELS: Record<SecretSeverity, SarifLevel> = { critical: "error", high: "error", medium: "warning", low: "note" };
+// Numeric scores code-scanning dashboards use to bucket security results
+const SECURITY_SEVERITY: Record<SecretSeverity, string> = { critical: "9.5", high: "8.0", medium: "5.5", low: "3.0" };
+
+const KEYWORD_DESCRIPTIONS: Record<string, string> = {
+  role_system: "Line mentions both a role and the system role",
+  system_prompt_identifier: "Identifier named like a system prompt",
+  system_message_identifier: "Identifier named like a system message",
+  messages_role_system_inline: "Inline messages entry with the system role",
+  system_directive_you_are: "\"You are ...\" directive next to a system/assistant mention",
+  generic_prompt_with_system: "Prompt mentioned together with the system role",
+  common_identifier_variants: "Common system prompt identifier variant",
+  js_ts_system_template_literal: "JS/TS system template literal",
+  js_ts_role_system_then_content_template: "JS/TS system message with template literal content",
+  js_ts_content_template_then_role_system: "JS/TS template literal content followed by the system role",
+  py_system_triple_quoted: "Python triple-quoted system prompt",
+  py_role_system_triple_content: "Python system message with triple-quoted content",
+  py_content_triple_then_role_system: "Python triple-quoted content followed by the system role",
+};
+
+function sha256(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+// Builds a SARIF 2.1.0 log: one rule per secret pattern and per keyword label, plus new prompts when a policy ran.
+// Fingerprints hash the rule, file and matched text (not the line) so findings dedupe across unrelated edits.
+export function toSarif(result: ScanResult, policy?: PolicyOutcome): SarifLog {
+  const root = result.repo.path;
+  const rules: SarifRule[] = [];
+  const ruleIndex = new Map<string, number>();
+  const results: SarifResult[] = [];
+  const occurrences = new Map<string, number>();
+  const secretRules = new Map(listSecretRules().map((r) => [r.id, r]));
+  const lintRules = new Map(listPromptLintRules().map((r) => [r.id, r]));
+
+  const ensureRule = (id: string, description: string, level: SarifLevel, properties: SarifRule["properties"]): number => {
+    let index = ruleIndex.get(id);
+    if (index === undefined) {
+      index = rules.length;
+      rules.push({ id, name: id, shortDescription: { text: description }, defaultConfiguration: { level }, properties });
+      ruleIndex.set(id, index);
+    }
+    return index;
+  };
+  // SARIF URIs are relative to SRCROOT and always use forward slashes
+  const uriFor = (filePath: string) => relative(root, filePath).split(sep).join("/");
+  const push = (
+    ruleId: string,
+    index: number,
+    level: SarifLevel,
+    text: string,
+    filePath: string,
+    region: SarifRegion,
+    matched: string
+  ) => {
+    const uri = uriFor(filePath);
+    // Identical text in the same file would collide; the occurrence counter keeps those apart
+    const base = sha256([ruleId, uri, matched.replace(/\s+/g, " ").trim()].join("\u0000"));
+    const seen = (occurrences.get(base) ?? 0) + 1;
+    occurrences.set(base, seen);
+    results.push({
+      ruleId,
+      ruleIndex: index,
+      level,
+      message: { text },
+      locations: [{ physicalLocation: { artifactLocation: { uri, uriBaseId: "SRCROOT" }, region } }],
+      partialFingerprints: { [FINGERPRINT_KEY]: `${base}:${seen}` },
+    });
+  };
+
+  for (const s of result.secrets) {
+    const id = `secret/${s.rule}`;
+    const description = secretRules.get(s.rule)?.description ?? s.rule;
+    // Scans stored before severities were recorded count as high
+    const severity = s.severity ?? secretRules.get(s.rule)?.severity ?? "high";
+    const level = SEVERITY_LEVELS[severity];
+    const index = ensureRule(id, description, level, {
+      tags: ["security", "secret"],
+      "security-severity": SECURITY_SEVERITY[severity],
+    });
+    // Scans stored before columns were recorded fall back to the start of the line
+    const startColumn = Math.max(1, s.column ?? 1);
+    const region = { startLine: Math.max(1, s.line), startColumn, endColumn: startColumn + s.match.length };
+    push(id, index, level, `Potential secret: ${description} (${s.preview ?? "redacted"})`, s.filePath, region, s.match);
+  }
+  for (const s of result.historySecrets ?? []) {
+    // Findings still at HEAD are already reported above from the working tree
+    if (s.presentAtHead) continue;
+    const id = `secret-history/${s.rule}`;
+    const description = `${secretRules.get(s.rule)?.description ?? s.rule} in git history`;
+    const level = SEVERITY_LEVELS[s.severity];
+    const index = ensureRule(id, description, level, {
+      tags: ["security", "secret", "history"],
+      "security-severity": SECURITY_SEVERITY[s.severity],
+    });
+    const text = `Potential secret removed at HEAD but still in history: ${description} (${s.preview}), introduced in ${s.commit} by ${s.author}`;
+    const region = { startLine: Math.max(1, s.line), startColumn: s.column, endColumn: s.column + s.match.length };
+    push(id, index, level, text, s.filePath, region, s.match);
+  }
+  for (const hit of result.prompts.keywords) {
+    const id = `prompt/${hit.matchLabel}`;
+    const index = ensureRule(id, KEYWORD_DESCRIPTIONS[hit.matchLabel] ?? hit.matchLabel, "note", { tags: ["prompt"] });
+    const region = { startLine: Math.max(1, hit.line), startColumn: Math.max(1, hit.column ?? 1) };
+    push(id, index, "note", `Possible system prompt (${hit.matchLabel})`, hit.filePath, region, hit.snippet);
+  }
+  for (const f of result.prompts.lint ?? []) {
+    const id = `prompt-lint/${f.rule}`;
+    const level = SEVERITY_LEVELS[f.severity];
+    const index = ensureRule(id, lintRules.get(f.rule)?.description ?? f.rule, level, { tags: ["prompt", "lint"] });
+    const region = { startLine: Math.max(1, f.line), startColumn: f.column };
+    push(id, index, level, f.message, f.filePath, region, `${f.message}\u0000${f.excerpt}`);
+  }
+  for (const p of policy?.newPrompts ?? []) {
+    const index = ensureRule("prompt/new", "Prompt not present in the baseline", "warning", { tags: ["prompt"] });
+    // New prompts carry paths already relative to the scanned root
+    const message = `New ${p.role} prompt: ${redactText(p.text).slice(0, 200)}`;
+    push("prompt/new", index, "warning", message, join(root, p.filePath), { startLine: Math.max(1, p.line) }, p.text);
+  }
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: "2.1.0",
+    runs: [
+      {
+        tool: { driver: { name: "prompt-explorer", rules } },
+        originalUriBaseIds: { SRCROOT: { uri: pathToFileURL(root).href.replace(/\/?$/, "/") } },
+        versionControlProvenance: result.repo.url
+          ? [{ repositoryUri: result.repo.url, revisionId: result.repo.commit ?? undefined, branch: result.repo.branch }]
+          : undefined,
+        results,
+      },
+    ],
+  };
+}
@@ -0,0 +1,211 @@
+import { createHash, randomUUID } from "node:crypto";
+import { join, relative } from "node:path";
+import { promises as fs } from "node:fs";
+import { hashFile } from "@/lib/fileScan";
+import { KeyedLock } from "@/lib/jobQueue";
+import { getWorkingTreeStatus, type WorkingTreeStatus } from "@/lib/github";
+import type { CallSiteRegistry } from "@/lib/extract/callSiteRegistry";
+import {
+  assemblePythonExtraction,
+  pythonExtractorFingerprint,
+  runPythonExtractor,
+  type PythonExtraction,
+  type PythonFileFragment,
+  type PythonProjectIndex,
+} from "@/lib/extract/pythonExtractor";
+import type { PromptKeywordHit } from "@/lib/promptKeywordScan";
+import type { SecretFinding } from "@/lib/secretsScan";
+
+// Bump whenever keyword or secret scanning changes what a file yields, so old entries are not reused
+const CACHE_VERSION = 3;
+const CACHE_DIR = join(process.cwd(), ".data", "cache");
+const saveLocks = new KeyedLock();
+
+type CachedFile = {
+  hash: string;
+  clean: boolean; // tracked and unmodified at the cached commit, so git can vouch for it later
+  keywords: PromptKeywordHit[];
+  secrets: SecretFinding[];
+};
+
+// hash is null when the file could not be hashed
+type CachedFragment = PythonFileFragment & { hash: string | null };
+
+type CacheData = {
+  version: number;
+  commit: string | null;
+  settings: string; // fingerprint of the options the file entries were scanned with
+  files: Record<string, CachedFile>; // by path relative to the root
+  python: {
+    settings: string; // script and call-site rules
+    modules: PythonProjectIndex["modules"];
+    functions: PythonProjectIndex["functions"];
+    fragments: Record<string, CachedFragment>; // by the extractor's file path
+  } | null;
+};
+
+export type ScanCacheStats = {
+  // git: tracked files unchanged since previousCommit were reused without being read; content: every file was hashed
+  mode: "git" | "content";
+  previousCommit: string | null;
+  files: { total: number; reused: number; scanned: number; hitRate: number };
+  python: { modules: number; reused: number; extracted: number; extractorSkipped: boolean; hitRate: number };
+};
+
+// A file for the keyword and secret pass: reuse the cached results, or scan it. With `knownHash` the scanner
+// hashes the file first and reports it unchanged (see reuse) instead of scanning when the hash matches.
+export type CachedFileState =
+  | { status: "cached"; keywords: PromptKeywordHit[]; secrets: SecretFinding[] }
+  | { status: "scan"; knownHash?: string };
+
+export type ScanCache = {
+  file(path: string): Promise<CachedFileState>;
+  reuse(path: string, hash: string): { keywords: PromptKeywordHit[]; secrets: SecretFinding[] };
+  record(path: string, hash: string, keywords: PromptKeywordHit[], secrets: SecretFinding[]): void;
+  extractPython(registry: CallSiteRegistry, signal?: AbortSignal): Promise<PythonExtraction>;
+  stats(): ScanCacheStats;
+  save(): Promise<void>; // keeps only the files seen in this scan
+};
+
+function sha256(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+function ratio(part: number, total: number): number {
+  return total > 0 ? Math.round((part / total) * 1000) / 1000 : 0;
+}
+
+async function readCache(file: string): Promise<CacheData | null> {
+  try {
+    const data = JSON.parse(await fs.readFile(file, "utf8")) as CacheData;
+    return data.version === CACHE_VERSION ? data : null;
+  } catch {
+    return null;
+  }
+}
+
+// Opens the per-root cache for one scan over `files` (absolute paths from the scan's listing).
+// `settings` is anything that changes keyword or secret results, such as the repo's secret rules.
+export async function openScanCache(options: {
+  root: string;
+  commit: string | null;
+  files: string[];
+  settings: unknown;
+}): Promise<ScanCache> {
+  const { root, commit } = options;
+  const cacheFile = join(CACHE_DIR, `${sha256(root).slice(0, 32)}.json`);
+  const settings = sha256(JSON.stringify(options.settings ?? null));
+  const previous = await readCache(cacheFile);
+  const files = previous?.settings === settings ? previous.files : {};
+  const previousCommit = previous?.commit ?? null;
+  const git: WorkingTreeStatus | null = commit ? await getWorkingTreeStatus(root, previousCommit) : null;
+  const unchangedSince = (rel: string) =>
+    Boolean(git?.changedSince && git.clean.has(rel) && !git.changedSince.has(rel) && files[rel]?.clean);
+
+  const next: Record<string, CachedFile> = {};
+  const pythonHashes = new Map<string, Promise<string | null>>(); // hashed before extraction, reused by the keyword pass
+  let reused = 0;
+  let scanned = 0;
+  let python: ScanCacheStats["python"] = { modules: 0, reused: 0, extracted: 0, extractorSkipped: false, hitRate: 0 };
+  let pythonData: CacheData["python"] | undefined;
+
+  function keep(rel: string, hash: string, entry: CachedFile) {
+    reused += 1;
+    next[rel] = { ...entry, hash, clean: git?.clean.has(rel) ?? false };
+    return { keywords: entry.keywords, secrets: entry.secrets };
+  }
+
+  return {
+    async file(path) {
+      const rel = relative(root, path);
+      const entry = files[rel];
+      if (entry && unchangedSince(rel)) return { status: "cached", ...keep(rel, entry.hash, entry) };
+      const hashed = pythonHashes.get(path);
+      if (hashed) {
+        const hash = await hashed;
+        return entry && hash === entry.hash ? { status: "cached", ...keep(rel, hash, entry) } : { status: "scan" };
+      }
+      return { status: "scan", knownHash: entry?.hash };
+    },
+
+    reuse(path, hash) {
+      const rel = relative(root, path);
+      return keep(rel, hash, files[rel] ?? { hash, clean: false, keywords: [], secrets: [] });
+    },
+
+    record(path, hash, keywords, secrets) {
+      const rel = relative(root, path);
+      scanned += 1;
+      next[rel] = { hash, clean: git?.clean.has(rel) ?? false, keywords, secrets };
+    },
+
+    async extractPython(registry, signal) {
+      const fingerprint = pythonExtractorFingerprint(registry);
+      const cached = previous?.python?.settings === fingerprint ? previous.python : null;
+      const hashes = new Map<string, string | null>();
+      for (const path of options.files) {
+        if (!path.endsWith(".py")) continue;
+        const rel = relative(root, path);
+        const hash = files[rel] && unchangedSince(rel) ? Promise.resolve(files[rel].hash) : hashFile(path).catch(() => null);
+        pythonHashes.set(path, hash);
+        hashes.set(path, await hash);
+      }
+      const fragments: Record<string, CachedFragment> = { ...cached?.fragments };
+      const changed = [...hashes].filter(([path, hash]) => hash === null || fragments[path]?.hash !== hash).map(([path]) => path);
+      const removed = Object.keys(fragments).filter((path) => !hashes.has(path)); // deleted, or no longer listed
+
+      let index: Pick<PythonProjectIndex, "modules" | "functions">;
+      let extracted = 0;
+      if (cached && changed.length === 0 && removed.length === 0) {
+        index = cached;
+      } else {
+        for (const path of removed) delete fragments[path];
+        const incremental = cached ? { known: Object.keys(fragments), changed: [...changed, ...removed] } : undefined;
+        const run = await runPythonExtractor(root, options.files, registry, signal, incremental);
+        for (const [path, fragment] of Object.entries(run.files)) {
+          fragments[path] = { ...fragment, hash: hashes.get(path) ?? null };
+        }
+        extracted = Object.keys(run.files).length;
+        index = run;
+      }
+      // Only modules that still exist keep a fragment
+      const kept: Record<string, CachedFragment> = {};
+      for (const { filePath } of index.modules) if (fragments[filePath]) kept[filePath] = fragments[filePath];
+      const modules = index.modules.length;
+      python = {
+        modules,
+        reused: modules - extracted,
+        extracted,
+        extractorSkipped: index === cached,
+        hitRate: ratio(modules - extracted, modules),
+      };
+      pythonData = { settings: fingerprint, modules: index.modules, functions: index.functions, fragments: kept };
+      return assemblePythonExtraction(index, kept);
+    },
+
+    stats() {
+      const total = reused + scanned;
+      return {
+        mode: git?.changedSince ? "git" : "content",
+        previousCommit,
+        files: { total, reused, scanned, hitRate: ratio(reused, total) },
+        python,
+      };
+    },
+
+    async save() {
+      const data: CacheData = { version: CACHE_VERSION, commit, settings, files: next, python: pythonData ?? previous?.python ?? null };
+      // Saves of one root run one at a time, each through its own temp file, so the last scan to finish wins whole
+      await saveLocks.run(cacheFile, async () => {
+        await fs.mkdir(CACHE_DIR, { recursive: true });
+        const tmp = `${cacheFile}.${process.pid}.${randomUUID()}.tmp`;
+        try {
+          await fs.writeFile(tmp, JSON.stringify(data), "utf8");
+          await fs.rename(tmp, cacheFile);
+        } finally {
+          await fs.rm(tmp, { force: true });
+        }
+      });
+    },
+  };
+}
@@ -0,0 +1,253 @@
+import { relative } from "node:path";
+import type { ScanResult } from "@/lib/scanRepository";
+import { diffPrompts, toDiffPrompts, type DiffPrompt } from "@/lib/promptDiff";
+import { redactText } from "@/lib/redact";
+
+export const POLICY_CHECKS = ["secrets", "history-secrets", "new-prompts", "lint"] as const;
+
+export type PolicyCheck = (typeof POLICY_CHECKS)[number];
+
+export type PolicyViolation = { check: PolicyCheck; count: number; message: string };
+
+export type PolicyOutcome = {
+  failOn: PolicyCheck[];
+  violations: PolicyViolation[];
+  newPrompts: DiffPrompt[]; // prompts absent from the baseline (empty when no baseline was given)
+};
+
+// Checks a finished scan against the requested gates; new-prompts needs the baseline's prompts (relative paths)
+export function evaluatePolicy(result: ScanResult, failOn: PolicyCheck[], baseline?: DiffPrompt[]): PolicyOutcome {
+  const violations: PolicyViolation[] = [];
+  let newPrompts: DiffPrompt[] = [];
+  if (baseline) {
+    const current = toDiffPrompts(result.extracted, result.repo.path);
+    newPrompts = diffPrompts(baseline, current)
+      .changes.filter((c) => c.status === "added")
+      .map((c) => c.head as DiffPrompt);
+  }
+  if (failOn.includes("secrets") && result.secrets.length > 0) {
+    violations.push({ check: "secrets", count: result.secrets.length, message: `${result.secrets.length} potential secret(s) found` });
+  }
+  const historySecrets = result.historySecrets ?? [];
+  if (failOn.includes("history-secrets") && historySecrets.length > 0) {
+    const removed = historySecrets.filter((s) => !s.presentAtHead).length;
+    violations.push({
+      check: "history-secrets",
+      count: historySecrets.length,
+      message: `${historySecrets.length} potential secret(s) in git history (${removed} no longer at HEAD)`,
+    });
+  }
+  // Only high and critical lint findings gate; the rest are advisory
+  const blockingLint = (result.prompts.lint ?? []).filter((f) => f.severity === "high" || f.severity === "critical");
+  if (failOn.includes("lint") && blockingLint.length > 0) {
+    violations.push({ check: "lint", count: blockingLint.length, message: `${blockingLint.length} high or critical prompt lint finding(s)` });
+  }
+  if (failOn.includes("new-prompts") && newPrompts.length > 0) {
+    violations.push({ check: "new-prompts", count: newPrompts.length, message: `${newPrompts.length} new prompt(s) since the baseline` });
+  }
+  return { failOn, violations, newPrompts };
+}
+
+function escapeCell(value: string): string {
+  return value.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+function formatUsd(value: number): string {
+  return value >= 0.01 ? `$${value.toFixed(2)}` : `$${value.toPrecision(2)}`;
+}
+
+function truncate(value: string, max: number): string {
+  return value.length > max ? `${value.slice(0, max)}…` : value;
+}
+
+// Secrets appear only as redacted previews, and prompt text is masked, so the report is safe to post in CI logs
+export function formatMarkdownReport(result: ScanResult, policy?: PolicyOutcome): string {
+  const root = result.repo.path;
+  const rel = (p: string) => relative(root, p) || p;
+  const prompts = toDiffPrompts(result.extracted, root);
+  const lines: string[] = [];
+
+  lines.push("# Prompt Explorer report", "");
+  lines.push(`- Path: \`${root}\``);
+  if (result.repo.url) lines.push(`- Repository: ${result.repo.url} (${result.repo.branch})`);
+  if (result.repo.commit) lines.push(`- Commit: \`${result.repo.commit}\``);
+  lines.push("");
+
+  lines.push("| Findings | Count |", "| --- | ---: |");
+  lines.push(`| Extracted prompts (Python) | ${result.extracted.python.length} |`);
+  lines.push(`| Extracted prompts (TypeScript) | ${result.extracted.typescript.length} |`);
+  lines.push(`| Keyword hits | ${result.prompts.keywords.length} |`);
+  if (result.prompts.tokens) lines.push(`| Prompt tokens (${result.prompts.tokens.tokenizer}) | ${result.prompts.tokens.totalTokens} |`);
+  lines.push(`| Potential secrets | ${result.secrets.length} |`);
+  if (result.historySecrets) lines.push(`| Potential secrets in history | ${result.historySecrets.length} |`);
+  if (result.prompts.lint) lines.push(`| Prompt lint findings | ${result.prompts.lint.length} |`);
+  if (policy && policy.newPrompts.length > 0) lines.push(`| New prompts | ${policy.newPrompts.length} |`);
+  if (result.skippedFiles?.length) lines.push(`| Files not scanned | ${result.skippedFiles.length} |`);
+  lines.push("");
+
+  if (policy && policy.failOn.length > 0) {
+    lines.push("## Policy", "");
+    if (policy.violations.length === 0) {
+      lines.push(`Passed (${policy.failOn.join(", ")}).`);
+    } else {
+      for (const v of policy.violations) lines.push(`- **Failed \`${v.check}\`**: ${v.message}`);
+    }
+    lines.push("");
+  }
+
+  if (result.secrets.length > 0) {
+    lines.push("## Potential secrets", "", "| Location | Rule | Severity | Preview |", "| --- | --- | --- | --- |");
+    for (const s of result.secrets) {
+      const where = `${rel(s.filePath)}:${s.line}:${s.column}`;
+      lines.push(`| \`${escapeCell(where)}\` | ${s.rule} | ${s.severity} | \`${escapeCell(s.preview)}\` |`);
+    }
+    lines.push("");
+  }
+
+  if (result.historySecrets && result.historySecrets.length > 0) {
+    lines.push(
+      "## Potential secrets in git history",
+      "",
+      "| Commit | Location | Rule | Severity | Preview | At HEAD |",
+      "| --- | --- | --- | --- | --- | --- |"
+    );
+    for (const s of result.historySecrets) {
+      const commit = `${s.commit.slice(0, 7)} ${s.author}, ${s.date.slice(0, 10)}`;
+      const where = `${rel(s.filePath)}:${s.line}`;
+      lines.push(
+        `| ${escapeCell(commit)} | \`${escapeCell(where)}\` | ${s.rule} | ${s.severity} | \`${escapeCell(s.preview)}\` | ${s.presentAtHead ? "yes" : "removed"} |`
+      );
+    }
+    lines.push("");
+  }
+
+  const tokens = result.prompts.tokens;
+  if (tokens && tokens.byCallSite.length > 0) {
+    const models = Object.keys(tokens.prices);
+    lines.push(
+      "## Prompt tokens",
+      "",
+      `${tokens.totalTokens} tokens across ${tokens.prompts} prompts (${tokens.tokenizer}). Costs are USD per call for the prompt input alone.`,
+      "",
+      `| Call site | Prompts | Tokens | System tokens |${models.map((m) => ` ${m} |`).join("")}`,
+      `| --- | ---: | ---: | ---: |${models.map(() => " ---: |").join("")}`
+    );
+    for (const site of tokens.byCallSite.slice(0, 20)) {
+      const where = `${rel(site.filePath)}:${site.line}${site.functionName ? ` (${site.functionName})` : ""}`;
+      const costs = models.map((m) => ` ${formatUsd(site.costPerCall[m] ?? 0)} |`).join("");
+      lines.push(`| \`${escapeCell(where)}\` | ${site.prompts} | ${site.tokens} | ${site.systemTokens} |${costs}`);
+    }
+    if (tokens.byCallSite.length > 20) lines.push("", `${tokens.byCallSite.length - 20} smaller call sites omitted.`);
+    lines.push("");
+  }
+
+  const clusters = result.prompts.clusters;
+  if (clusters && clusters.clusters.length > 0) {
+    lines.push("## Duplicate prompts", "", "| Kind | Copies | Files | Similarity | Locations | Text |", "| --- | ---: | ---: | ---: | --- | --- |");
+    for (const c of clusters.clusters.slice(0, 20)) {
+      const where = c.members.map((m) => `\`${escapeCell(`${rel(m.filePath)}:${m.line}`)}\``).join(", ");
+      const text = escapeCell(truncate(redactText(c.members[0].text), 120));
+      lines.push(`| ${c.kind} | ${c.members.length} | ${c.files} | ${c.similarity.toFixed(2)} | ${where} | ${text} |`);
+    }
+    lines.push("");
+    if (clusters.boilerplate.length > 0) {
+      lines.push("Shared blocks that could move to a common template:", "");
+      for (const b of clusters.boilerplate.slice(0, 10)) {
+        lines.push(`- ${b.prompts} prompts in ${b.files} file(s): ${escapeCell(truncate(redactText(b.text), 160))}`);
+      }
+      lines.push("");
+    }
+  }
+
+  const graph = result.prompts.graph;
+  if (graph && graph.stats.llmCalls > 0) {
+    const { stats } = graph;
+    const byId = new Map(graph.nodes.map((n) => [n.id, n]));
+    lines.push(
+      "## Prompt flow",
+      "",
+      `${stats.llmCalls} LLM call site(s) reached from ${stats.entryPoints} entry point(s); ${stats.multiStep} entry point(s) chain several calls, ${stats.loops} call(s) run in a loop.`,
+      "",
+      "| Call site | Prompts | Chain |",
+      "| --- | ---: | --- |"
+    );
+    const calls = graph.nodes.filter((n) => n.kind === "llm_call").sort((a, b) => (b.chain?.length ?? 0) - (a.chain?.length ?? 0));
+    for (const call of calls.slice(0, 20)) {
+      const where = `${rel(call.filePath ?? "")}:${call.line}${call.inLoop ? " (loop)" : ""}`;
+      const chain = (call.chain ?? []).slice(0, -1).map((id) => {
+        const node = byId.get(id);
+        return node?.kind === "module" ? `${node.label} (module)` : node?.label ?? id;
+      });
+      lines.push(`| \`${escapeCell(where)}\` | ${call.prompts ?? 0} | ${escapeCell(chain.join(" → ") || "-")} |`);
+    }
+    if (calls.length > 20) lines.push("", `${calls.length - 20} more call sites omitted.`);
+    lines.push("");
+  }
+
+  if (result.prompts.lint && result.prompts.lint.length > 0) {
+    lines.push("## Prompt lint", "", "| Location | Rule | Severity | Message |", "| --- | --- | --- | --- |");
+    for (const f of result.prompts.lint) {
+      const where = `${rel(f.filePath)}:${f.line}${f.column ? `:${f.column}` : ""}`;
+      lines.push(`| \`${escapeCell(where)}\` | ${f.rule} | ${f.severity} | ${escapeCell(f.message)} |`);
+    }
+    lines.push("");
+  }
+
+  if (policy && policy.newPrompts.length > 0) {
+    lines.push("## New prompts", "");
+    for (const p of policy.newPrompts) {
+      lines.push(`- \`${p.filePath}:${p.line}\` (${p.role}): ${escapeCell(truncate(redactText(p.text), 160))}`);
+    }
+    lines.push("");
+  }
+
+  if (prompts.length > 0) {
+    lines.push("## Extracted prompts", "", "| Location | Role | Text |", "| --- | --- | --- |");
+    for (const p of prompts) {
+      const where = `${p.filePath}:${p.line}${p.functionName ? ` (${p.functionName})` : ""}`;
+      lines.push(`| \`${escapeCell(where)}\` | ${p.role} | ${escapeCell(truncate(redactText(p.text), 160))} |`);
+    }
+    lines.push("");
+  }
+
+  const skipped = result.skippedFiles ?? [];
+  if (skipped.length > 0) {
+    lines.push("## Files not scanned", "", "| File | Reason |", "| --- | --- |");
+    for (const f of skipped.slice(0, 50)) {
+      lines.push(`| \`${escapeCell(f.path)}\` | ${f.reason}${f.detail ? ` (${escapeCell(f.detail)})` : ""} |`);
+    }
+    if (skipped.length > 50) lines.push("", `${skipped.length - 50} more files omitted.`);
+    lines.push("");
+  }
+
+  const templated = [...result.extracted.python, ...result.extracted.typescript].filter((p) => p.template && p.template.variables.length > 0);
+  if (templated.length > 0) {
+    lines.push("## Prompt inputs", "", "| Location | Syntax | Variables |", "| --- | --- | --- |");
+    for (const p of templated.slice(0, 50)) {
+      const template = p.template as NonNullable<typeof p.template>;
+      const where = `${rel(p.filePath)}:${p.line}${p.functionName ? ` (${p.functionName})` : ""}`;
+      const variables = template.variables.map((v) => `\`${v.name}\` ${v.expression && v.expression !== v.name ? `← \`${v.expression}\` ` : ""}(${v.source})`);
+      lines.push(`| \`${escapeCell(where)}\` | ${template.syntax} | ${escapeCell(variables.join(", "))} |`);
+    }
+    if (templated.length > 50) lines.push("", `${templated.length - 50} more templated prompts omitted.`);
+    lines.push("");
+  }
+
+  if (result.prompts.analysis) {
+    const { analysis } = result.prompts;
+    lines.push("## Model analysis", "", redactText(analysis.summary), "");
+    if (analysis.chunks && analysis.chunks.length > 1) {
+      const failed = analysis.chunks.filter((c) => c.status === "failed").length;
+      const dropped = analysis.skippedEvidence;
+      const skipped = analysis.skippedChunks
+        ? `, ${analysis.skippedChunks} over the chunk cap not sent` +
+          (dropped ? `: ${dropped.hits} hits and ${dropped.prompts} prompts from ${dropped.files} files` : "")
+        : "";
+      lines.push(`Merged from ${analysis.chunks.length} chunks (${failed} failed${skipped}).`, "");
+    }
+  } else if (result.prompts.analysisError) {
+    lines.push("## Model analysis", "", `Failed (${result.prompts.analysisError.code}): ${result.prompts.analysisError.message}`, "");
+  }
+
+  return lines.join("\n");
+}
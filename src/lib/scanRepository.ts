@@ -0,0 +1,499 @@
+import { z } from "zod";
+import { join, relative, resolve } from "node:path";
+import { promises as fs, existsSync } from "node:fs";
+import { cloneOrPullRepo, getHeadCommit, isTransientGitError, repoCheckoutDir } from "@/lib/github";
+import { extractPythonProject, type PythonCallGraph, type PythonPrompt } from "@/lib/extract/pythonExtractor";
+import { extractTypeScriptProject, type TypeScriptPrompt } from "@/lib/extract/typescriptExtractor";
+import { buildCallSiteRegistry } from "@/lib/extract/callSiteRegistry";
+import { loadProjectConfig, type ProjectConfig } from "@/lib/projectConfig";
+import { buildSecretScanOptions, type SecretFinding } from "@/lib/secretsScan";
+import type { PromptKeywordHit } from "@/lib/promptKeywordScan";
+import { analyzePromptContext, type PromptModelAnalysis } from "@/lib/analyzePrompts";
+import { getModelProvider, ModelProviderError, type ModelErrorInfo, type ModelSelection } from "@/lib/modelProvider";
+import { scanHistoryForSecrets, type HistorySecretFinding } from "@/lib/historySecrets";
+import { lintPrompts, type PromptLintFinding } from "@/lib/promptLint";
+import { clusterPrompts, type PromptClusterReport } from "@/lib/promptClusters";
+import { buildPromptGraph, type PromptFlowGraph } from "@/lib/promptGraph";
+import { annotatePromptTemplates } from "@/lib/promptTemplate";
+import { JobQueue, KeyedLock } from "@/lib/jobQueue";
+import { createFileScanPool, type FileScanPool } from "@/lib/fileScanPool";
+import type { SkippedFile } from "@/lib/fileScan";
+import type { FindingKind, FindingPage } from "@/lib/findingPages";
+import { openScanCache, type ScanCache, type ScanCacheStats } from "@/lib/scanCache";
+import { openTraversal, type Traversal, type TraversalRules } from "@/lib/traversal";
+import { annotatePromptTokens, resolveTokenizers, summarizeTokens, type TokenizerId, type TokenSummary } from "@/lib/tokenCount";
+
+export const repoUrlSchema = z
+  .string()
+  .min(1)
+  .refine(
+    (url) => /^(https:\/\/|git@).+\.(git)?/.test(url) || /^(https:\/\/github\.com\/)\[\w.-]+\/\[\w.-]+(\.git)?$/.test(url),
+    { message: "repoUrl must be a valid Git URL or GitHub HTTPS URL" }
+  );
+
+export type ScanRequest = {
+  repoUrl?: string;
+  localPath?: string;
+  branch: string;
+  useModel: boolean;
+  sshKey?: string;
+  githubToken?: string;
+  fullHistory?: boolean;
+  secretHistory?: { depth?: number; since?: string }; // Also scan lines added in past commits for secrets
+  model?: ModelSelection; // Provider/model for the analysis; defaults come from the environment
+  tokenizers?: TokenizerId[]; // Overrides the repo's configured tokenizers; the first drives the totals
+  useCache?: boolean; // Reuse per-file results from the previous scan of the same directory (default true)
+};
+
+export type FileTreeNode = {
+  name: string;
+  path: string;
+  type: "dir" | "file";
+  children?: FileTreeNode[];
+};
+
+export type ScanResult = {
+  ok: true;
+  repo: { url: string | null; branch: string; path: string; commit: string | null };
+  extracted: { python: PythonPrompt[]; typescript: TypeScriptPrompt[] };
+  secrets: SecretFinding[];
+  historySecrets?: HistorySecretFinding[]; // Only when secretHistory was requested
+  prompts: {
+    keywords: PromptKeywordHit[];
+    analysis: PromptModelAnalysis | null;
+    analysisError?: ModelErrorInfo; // Why the analysis is missing when useModel was set
+    lint?: PromptLintFinding[]; // Missing in scans stored before prompt linting existed
+    tokens?: TokenSummary; // Missing in scans stored before token counting existed
+    clusters?: PromptClusterReport; // Missing in scans stored before clustering existed
+    graph?: PromptFlowGraph; // Python call sites and the call chains reaching them
+  };
+  fileTree: FileTreeNode | null;
+  skippedFiles?: SkippedFile[]; // Files the keyword and secret pass did not read, with the reason
+  traversal?: TraversalRules; // Ignore files, globs and limits the repository was walked with
+  cache?: ScanCacheStats; // How much of the previous scan was reused; missing when the cache was off
+  pages?: Record<FindingKind, FindingPage>; // Set on API responses, which carry one page of keywords, secrets and skippedFiles
+  scanId?: string; // Set once the result is persisted in scan history
+};
+
+export type ScanPhase = "clone" | "extract" | "keywords" | "secrets" | "lint" | "history" | "tree" | "analysis";
+
+// Events emitted while a scan runs; the streaming endpoint forwards them as SSE frames
+export type ScanEvent =
+  | { type: "phase"; phase: ScanPhase; status: "start" | "done" | "skipped"; detail?: string }
+  | { type: "progress"; phase: "keywords"; filesScanned: number; totalFiles: number; keywordHits: number; secrets: number }
+  | { type: "partial"; key: "python" | "typescript"; items: PythonPrompt[] }
+  | { type: "partial"; key: "keywords"; items: PromptKeywordHit[] }
+  | { type: "partial"; key: "secrets"; items: SecretFinding[] }
+  | { type: "partial"; key: "historySecrets"; items: HistorySecretFinding[] }
+  | { type: "partial"; key: "lint"; items: PromptLintFinding[] }
+  | { type: "partial"; key: "tokens"; summary: TokenSummary }
+  | { type: "partial"; key: "clusters"; report: PromptClusterReport }
+  | { type: "partial"; key: "graph"; graph: PromptFlowGraph }
+  | { type: "partial"; key: "fileTree"; tree: FileTreeNode | null }
+  | { type: "partial"; key: "skippedFiles"; items: SkippedFile[] }
+  | { type: "partial"; key: "analysis"; analysis: PromptModelAnalysis | null; error?: ModelErrorInfo };
+
+// Failures the caller should surface to the client with the given HTTP status.
+// `retryable` marks transient ones (network trouble while cloning) that a background job may try again.
+export class ScanError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly retryable = false
+  ) {
+    super(message);
+    this.name = "ScanError";
+  }
+}
+
+const REPOS_BASE = join(process.cwd(), ".data", "repos");
+const PROGRESS_EVERY_FILES = 50;
+const STREAM_ABOVE_BYTES = 1024 * 1024; // read line by line instead of whole
+const SCAN_IO_CONCURRENCY = 16; // files open at once
+const WORKER_MIN_FILES = 200; // below this, starting worker threads costs more than it saves
+
+const checkoutLocks = new KeyedLock();
+
+type FileFindings = { keywords: PromptKeywordHit[]; secrets: SecretFinding[] };
+
+async function buildFileTree(traversal: Traversal, options?: { maxDepth?: number; maxNodes?: number }): Promise<FileTreeNode> {
+  const maxDepth = options?.maxDepth ?? 8;
+  const maxNodes = options?.maxNodes ?? 5000;
+  let nodeCount = 0;
+
+  async function walk(dirPath: string, depth: number): Promise<FileTreeNode> {
+    const node: FileTreeNode = { name: dirPath.split("/").pop() || dirPath, path: dirPath, type: "dir", children: [] };
+    if (depth > maxDepth || nodeCount >= maxNodes) return node;
+    for (const entry of await traversal.readDir(dirPath)) {
+      if (nodeCount >= maxNodes) break;
+      if (entry.isDirectory) {
+        const child = await walk(entry.path, depth + 1);
+        // With include globs, directories holding no included file are left out
+        if (traversal.rules.include.length && child.children?.length === 0) continue;
+        node.children?.push(child);
+        nodeCount += 1;
+      } else {
+        node.children?.push({ name: entry.name, path: entry.path, type: "file" });
+        nodeCount += 1;
+      }
+    }
+    return node;
+  }
+
+  return walk(traversal.root, 1);
+}
+
+// The working copy a request reads: its localPath, or where its repoUrl is cloned
+function checkoutKey(request: Pick<ScanRequest, "repoUrl" | "localPath">): string {
+  if (request.localPath) return resolve(request.localPath);
+  return request.repoUrl ? repoCheckoutDir(REPOS_BASE, request.repoUrl) : "";
+}
+
+// Work on one working copy runs one request at a time: a second scan of the same clone would fetch and reset it
+// under the first, and two scans of one directory would share its .tmp-extractor and cache files
+export function withCheckoutLock<T>(
+  request: Pick<ScanRequest, "repoUrl" | "localPath">,
+  job: () => Promise<T>,
+  signal?: AbortSignal
+): Promise<T> {
+  return checkoutLocks.run(checkoutKey(request), job, signal);
+}
+
+export async function resolveTargetDir(
+  request: Pick<ScanRequest, "repoUrl" | "localPath" | "branch" | "sshKey" | "githubToken" | "fullHistory">,
+  signal?: AbortSignal
+): Promise<string> {
+  // Determine target directory: localPath (if provided) or clone repo
+  if (request.localPath) {
+    const targetDir = request.localPath;
+    let isDirectory: boolean;
+    try {
+      isDirectory = (await fs.stat(targetDir)).isDirectory();
+    } catch {
+      throw new ScanError("localPath does not exist", 400);
+    }
+    if (!isDirectory) throw new ScanError("localPath must be a directory", 400);
+    return targetDir;
+  }
+  if (request.repoUrl) {
+    const targetDir = repoCheckoutDir(REPOS_BASE, request.repoUrl);
+    try {
+      await cloneOrPullRepo({
+        repoUrl: request.repoUrl,
+        destDir: REPOS_BASE,
+        branch: request.branch,
+        sshKey: request.sshKey,
+        githubToken: request.githubToken,
+        fullHistory: request.fullHistory,
+        signal,
+      });
+    } catch (error: unknown) {
+      signal?.throwIfAborted();
+      const message = error instanceof Error ? error.message : String(error);
+      throw new ScanError(`Failed to clone/pull repo: ${message}`, 400, isTransientGitError(message));
+    }
+    if (!existsSync(targetDir)) {
+      throw new ScanError("Repository target path not found after clone", 500);
+    }
+    return targetDir;
+  }
+  throw new ScanError("Provide repoUrl or localPath", 400);
+}
+
+export type ExtractedPrompts = {
+  python: PythonPrompt[];
+  typescript: TypeScriptPrompt[];
+  pythonGraph?: PythonCallGraph;
+  skipped: SkippedFile[]; // listed source files an extractor could not read
+};
+
+// Per-repo configuration (.prompt-explorer.json); an invalid file is the caller's mistake
+async function loadScanConfig(root: string): Promise<ProjectConfig> {
+  try {
+    return await loadProjectConfig(root);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new ScanError(message, 400);
+  }
+}
+
+// Structural extraction only (no keyword/secret pass), honouring the root's .prompt-explorer.json.
+// With a scan cache, Python files unchanged since the last scan keep their previous extraction.
+// `files` is the scan's traversal listing; without it the root is walked under the config's `files` rules.
+export async function extractPrompts(
+  root: string,
+  signal?: AbortSignal,
+  config?: ProjectConfig,
+  cache?: ScanCache,
+  files?: string[]
+): Promise<ExtractedPrompts> {
+  const projectConfig = config ?? (await loadScanConfig(root));
+  const listed = files ?? (await (await openTraversal(root, projectConfig.files)).listFiles()).files;
+  const callSites = buildCallSiteRegistry(projectConfig.callSites);
+
+  // Extract prompts (Python first)
+  let python: PythonPrompt[] = [];
+  let pythonGraph: PythonCallGraph | undefined;
+  try {
+    ({ prompts: python, graph: pythonGraph } = cache
+      ? await cache.extractPython(callSites, signal)
+      : await extractPythonProject(root, callSites, signal, listed));
+  } catch {
+    // Continue; return empty extraction on failure
+    python = [];
+  }
+  signal?.throwIfAborted();
+
+  const { prompts: typescript, skipped } = await extractTypeScriptProject(root, callSites, listed);
+  signal?.throwIfAborted();
+  annotatePromptTemplates(python, "python");
+  annotatePromptTemplates(typescript, "typescript");
+  return { python, typescript, pythonGraph, skipped };
+}
+
+export async function runScan(
+  request: ScanRequest,
+  options?: { signal?: AbortSignal; onEvent?: (event: ScanEvent) => void }
+): Promise<ScanResult> {
+  return withCheckoutLock(request, () => scanCheckout(request, options), options?.signal);
+}
+
+async function scanCheckout(
+  request: ScanRequest,
+  options?: { signal?: AbortSignal; onEvent?: (event: ScanEvent) => void }
+): Promise<ScanResult> {
+  const signal = options?.signal;
+  const emit = options?.onEvent ?? (() => {});
+
+  emit({ type: "phase", phase: "clone", status: request.localPath ? "skipped" : "start" });
+  const targetDir = await resolveTargetDir(request, signal);
+  if (!request.localPath) emit({ type: "phase", phase: "clone", status: "done", detail: targetDir });
+  signal?.throwIfAborted();
+  const commit = await getHeadCommit(targetDir);
+  const projectConfig = await loadScanConfig(targetDir);
+  // One walk under the repo's ignore rules feeds every pass below
+  const traversal = await openTraversal(targetDir, projectConfig.files);
+  const listing = await traversal.listFiles();
+  const files = listing.files;
+  const cache =
+    request.useCache === false
+      ? undefined
+      : await openScanCache({
+          root: targetDir,
+          commit,
+          files,
+          settings: { secrets: projectConfig.secrets ?? null },
+        });
+
+  emit({ type: "phase", phase: "extract", status: "start" });
+  const {
+    python: pythonPrompts,
+    typescript: typescriptPrompts,
+    pythonGraph,
+    skipped: extractorSkipped,
+  } = await extractPrompts(targetDir, signal, projectConfig, cache, files);
+  const tokenizers = resolveTokenizers(projectConfig.tokens, request.tokenizers);
+  await annotatePromptTokens([...pythonPrompts, ...typescriptPrompts], tokenizers);
+  const tokenSummary = summarizeTokens([...pythonPrompts, ...typescriptPrompts], tokenizers, projectConfig.tokens?.prices);
+  emit({ type: "partial", key: "python", items: pythonPrompts });
+  emit({ type: "partial", key: "typescript", items: typescriptPrompts });
+  emit({ type: "partial", key: "tokens", summary: tokenSummary });
+  const clusters = clusterPrompts({ python: pythonPrompts, typescript: typescriptPrompts });
+  emit({ type: "partial", key: "clusters", report: clusters });
+  const graph = pythonGraph ? buildPromptGraph(pythonGraph, pythonPrompts) : undefined;
+  if (graph) emit({ type: "partial", key: "graph", graph });
+  emit({ type: "phase", phase: "extract", status: "done", detail: `${pythonPrompts.length + typescriptPrompts.length} prompts` });
+
+  // Scan for obvious secrets across files and keyword prompt indicators (one read per file feeds both).
+  // Files are spread over worker threads with a bounded number open at once; results keep the listing order.
+  emit({ type: "phase", phase: "keywords", status: "start" });
+  emit({ type: "phase", phase: "secrets", status: "start" });
+  const secretOptions = buildSecretScanOptions(projectConfig.secrets, targetDir);
+  const perFile: Array<FileFindings | undefined> = new Array(files.length);
+  const skippedFiles: SkippedFile[] = [...listing.skipped, ...extractorSkipped];
+  let pendingHits: PromptKeywordHit[] = [];
+  let pendingSecrets: SecretFinding[] = [];
+  let keywordHitCount = 0;
+  let secretCount = 0;
+  const flush = (filesScanned: number) => {
+    if (pendingHits.length) emit({ type: "partial", key: "keywords", items: pendingHits });
+    if (pendingSecrets.length) emit({ type: "partial", key: "secrets", items: pendingSecrets });
+    pendingHits = [];
+    pendingSecrets = [];
+    emit({
+      type: "progress",
+      phase: "keywords",
+      filesScanned,
+      totalFiles: files.length,
+      keywordHits: keywordHitCount,
+      secrets: secretCount,
+    });
+  };
+  // A file's findings (cached or fresh), or why it was skipped
+  const scanOne = async (file: string, pool: FileScanPool): Promise<FileFindings | Omit<SkippedFile, "path">> => {
+    const state = cache ? await cache.file(file) : null;
+    if (state?.status === "cached") return { keywords: state.keywords, secrets: state.secrets };
+    const outcome = await pool.run({
+      path: file,
+      secretOptions,
+      maxBytes: traversal.rules.maxFileBytes,
+      streamAboveBytes: STREAM_ABOVE_BYTES,
+      knownHash: state?.knownHash,
+    });
+    if (outcome.status === "skipped") return { reason: outcome.reason, size: outcome.size, detail: outcome.detail };
+    if (outcome.status === "unchanged") return cache ? cache.reuse(file, outcome.hash) : { keywords: [], secrets: [] };
+    cache?.record(file, outcome.hash, outcome.keywords, outcome.secrets);
+    return { keywords: outcome.keywords, secrets: outcome.secrets };
+  };
+  let scanned = 0;
+  const pool = await createFileScanPool(files.length >= WORKER_MIN_FILES ? undefined : 0);
+  try {
+    const io = new JobQueue(SCAN_IO_CONCURRENCY);
+    await Promise.all(
+      files.map((file, index) =>
+        io.add(async () => {
+          signal?.throwIfAborted();
+          const found = await scanOne(file, pool);
+          if ("reason" in found) {
+            skippedFiles.push({ path: relative(targetDir, file), ...found });
+          } else {
+            perFile[index] = found;
+            keywordHitCount += found.keywords.length;
+            secretCount += found.secrets.length;
+            pendingHits.push(...found.keywords);
+            pendingSecrets.push(...found.secrets);
+          }
+          scanned += 1;
+          if (scanned % PROGRESS_EVERY_FILES === 0) flush(scanned);
+        })
+      )
+    );
+  } finally {
+    await pool.close();
+  }
+  flush(scanned);
+  const promptKeywordHits = perFile.flatMap((f) => f?.keywords ?? []);
+  const secretFindings = perFile.flatMap((f) => f?.secrets ?? []);
+  skippedFiles.sort((a, b) => a.path.localeCompare(b.path));
+  // The extractor and the keyword pass can both skip a file (binary, unreadable); it is reported once
+  for (let i = skippedFiles.length - 1; i > 0; i -= 1) if (skippedFiles[i].path === skippedFiles[i - 1].path) skippedFiles.splice(i, 1);
+  if (skippedFiles.length) emit({ type: "partial", key: "skippedFiles", items: skippedFiles });
+  // A scan never fails over its cache, but says when the next one cannot reuse this one
+  const cacheError = await cache?.save().then(
+    () => null,
+    (error: unknown) => (error instanceof Error ? error.message : String(error))
+  );
+  const cacheStats = cache?.stats();
+  const reusedDetail = cacheStats ? `, ${cacheStats.files.reused} unchanged` : "";
+  const cacheDetail = cacheError ? `, cache not saved: ${cacheError}` : "";
+  const skippedDetail = skippedFiles.length ? `, ${skippedFiles.length} skipped` : "";
+  const threadDetail = pool.threads ? ` on ${pool.threads} worker threads` : "";
+  emit({
+    type: "phase",
+    phase: "keywords",
+    status: "done",
+    detail: `${promptKeywordHits.length} hits in ${scanned} files${reusedDetail}${skippedDetail}${threadDetail}${cacheDetail}`,
+  });
+  emit({ type: "phase", phase: "secrets", status: "done", detail: `${secretFindings.length} findings` });
+
+  emit({ type: "phase", phase: "lint", status: "start" });
+  const lintFindings = await lintPrompts({
+    prompts: [...pythonPrompts, ...typescriptPrompts],
+    keywords: promptKeywordHits,
+    root: targetDir,
+    config: projectConfig.lint,
+    secrets: secretFindings,
+  });
+  signal?.throwIfAborted();
+  emit({ type: "partial", key: "lint", items: lintFindings });
+  emit({ type: "phase", phase: "lint", status: "done", detail: `${lintFindings.length} findings` });
+
+  // Optional pass over past commits: removed credentials are still leaked through history
+  let historySecrets: HistorySecretFinding[] | undefined;
+  if (request.secretHistory) {
+    emit({ type: "phase", phase: "history", status: "start" });
+    try {
+      historySecrets = await scanHistoryForSecrets({
+        repoDir: targetDir,
+        depth: request.secretHistory.depth,
+        since: request.secretHistory.since,
+        options: secretOptions,
+        headSecrets: secretFindings,
+        signal,
+      });
+      emit({ type: "partial", key: "historySecrets", items: historySecrets });
+      const removed = historySecrets.filter((s) => !s.presentAtHead).length;
+      emit({ type: "phase", phase: "history", status: "done", detail: `${historySecrets.length} findings, ${removed} removed at HEAD` });
+    } catch (error: unknown) {
+      signal?.throwIfAborted();
+      const message = error instanceof Error ? error.message : String(error);
+      emit({ type: "phase", phase: "history", status: "skipped", detail: message });
+    }
+  } else {
+    emit({ type: "phase", phase: "history", status: "skipped" });
+  }
+
+  // Build file tree once (lightweight, ignores large/system directories); model analysis reuses it
+  emit({ type: "phase", phase: "tree", status: "start" });
+  let fileTree: FileTreeNode | null = null;
+  try {
+    fileTree = await buildFileTree(traversal, { maxDepth: 8, maxNodes: 5000 });
+  } catch {
+    fileTree = null;
+  }
+  signal?.throwIfAborted();
+  emit({ type: "partial", key: "fileTree", tree: fileTree });
+  emit({ type: "phase", phase: "tree", status: "done" });
+
+  // Optional model-based end analysis using combined context
+  let modelAnalysis: PromptModelAnalysis | null = null;
+  let analysisError: ModelErrorInfo | undefined;
+  if (request.useModel) {
+    emit({ type: "phase", phase: "analysis", status: "start" });
+    try {
+      modelAnalysis = await analyzePromptContext({
+        hits: promptKeywordHits,
+        python: pythonPrompts,
+        typescript: typescriptPrompts,
+        fileTree,
+        provider: getModelProvider(request.model),
+        known: [...secretFindings, ...(historySecrets ?? [])].map((s) => s.match),
+        onChunk: (done, total) => emit({ type: "phase", phase: "analysis", status: "start", detail: `${done}/${total} chunks` }),
+        signal,
+      });
+    } catch (error: unknown) {
+      signal?.throwIfAborted();
+      analysisError =
+        error instanceof ModelProviderError
+          ? error.toJSON()
+          : { provider: request.model?.provider ?? null, code: "invalid_response", message: error instanceof Error ? error.message : String(error) };
+    }
+    emit({ type: "partial", key: "analysis", analysis: modelAnalysis, error: analysisError });
+    const failed = modelAnalysis?.chunks?.filter((c) => c.status === "failed").length ?? 0;
+    const notes = [
+      failed > 0 ? `${failed} of ${modelAnalysis?.chunks?.length} chunks failed` : "",
+      modelAnalysis?.skippedChunks ? `${modelAnalysis.skippedChunks} chunks over the cap not sent` : "",
+    ].filter(Boolean);
+    emit({
+      type: "phase",
+      phase: "analysis",
+      status: "done",
+      detail: analysisError?.message ?? (notes.length > 0 ? notes.join(", ") : undefined),
+    });
+  } else {
+    emit({ type: "phase", phase: "analysis", status: "skipped" });
+  }
+
+  return {
+    ok: true,
+    repo: { url: request.repoUrl ?? null, branch: request.branch, path: targetDir, commit },
+    extracted: { python: pythonPrompts, typescript: typescriptPrompts },
+    secrets: secretFindings,
+    historySecrets,
+    prompts: { keywords: promptKeywordHits, analysis: modelAnalysis, analysisError, lint: lintFindings, tokens: tokenSummary, clusters, graph },
+    fileTree,
+    skippedFiles,
+    traversal: traversal.rules,
+    cache: cacheStats,
+  };
+}
@@ -0,0 +1,127 @@
+import { createHash, randomUUID } from "node:crypto";
+import { join } from "node:path";
+import { promises as fs } from "node:fs";
+import { createJsonIndex } from "@/lib/jsonIndex";
+import type { ScanResult } from "@/lib/scanRepository";
+import type { PromptRun } from "@/lib/promptRuns";
+
+export type ScanSummary = {
+  id: string;
+  createdAt: string;
+  repo: { url: string | null; branch: string; path: string; commit: string | null };
+  counts: { keywords: number; python: number; typescript: number; secrets: number };
+  hasAnalysis: boolean;
+};
+
+export type StoredScan = ScanSummary & { result: ScanResult };
+
+const SCANS_DIR = join(process.cwd(), ".data", "scans");
+const index = createJsonIndex<ScanSummary>(join(SCANS_DIR, "index.json"));
+const ID_PATTERN = /^[a-f0-9-]{8,64}$/;
+
+function repoKey(repo: ScanResult["repo"]): string {
+  return repo.url ?? repo.path;
+}
+
+// Scans of the same repo, branch and commit share an id so rescanning replaces the stored copy
+function scanIdFor(repo: ScanResult["repo"]): string {
+  if (!repo.commit) return randomUUID();
+  return createHash("sha256").update(`${repoKey(repo)}\0${repo.branch}\0${repo.commit}`).digest("hex").slice(0, 32);
+}
+
+function scanPath(id: string): string {
+  return join(SCANS_DIR, `${id}.json`);
+}
+
+// Playground runs of a scan's prompts, one JSON object per line
+function runsPath(id: string): string {
+  return join(SCANS_DIR, `${id}.runs.jsonl`);
+}
+
+export function isValidScanId(id: string): boolean {
+  return ID_PATTERN.test(id);
+}
+
+export async function saveScan(result: ScanResult): Promise<StoredScan> {
+  const id = scanIdFor(result.repo);
+  const summary: ScanSummary = {
+    id,
+    createdAt: new Date().toISOString(),
+    repo: { ...result.repo },
+    counts: {
+      keywords: result.prompts.keywords.length,
+      python: result.extracted.python.length,
+      typescript: result.extracted.typescript.length,
+      secrets: result.secrets.length,
+    },
+    hasAnalysis: Boolean(result.prompts.analysis),
+  };
+  const stored: StoredScan = { ...summary, result };
+  await fs.mkdir(SCANS_DIR, { recursive: true });
+  await fs.writeFile(scanPath(id), JSON.stringify(stored), "utf8");
+  await index.withLock(async () => {
+    const entries = (await index.read()).filter((e) => e.id !== id);
+    entries.unshift(summary);
+    await index.write(entries);
+  });
+  return stored;
+}
+
+export async function listScans(filter?: { repo?: string; branch?: string }): Promise<ScanSummary[]> {
+  const entries = await index.read();
+  return entries.filter(
+    (e) =>
+      (!filter?.repo || e.repo.url === filter.repo || e.repo.path === filter.repo) &&
+      (!filter?.branch || e.repo.branch === filter.branch)
+  );
+}
+
+export async function getScan(id: string): Promise<StoredScan | null> {
+  if (!isValidScanId(id)) return null;
+  try {
+    return JSON.parse(await fs.readFile(scanPath(id), "utf8")) as StoredScan;
+  } catch {
+    return null;
+  }
+}
+
+export async function deleteScan(id: string): Promise<boolean> {
+  if (!isValidScanId(id)) return false;
+  return index.withLock(async () => {
+    const entries = await index.read();
+    const remaining = entries.filter((e) => e.id !== id);
+    let removed = remaining.length !== entries.length;
+    try {
+      await fs.unlink(scanPath(id));
+      removed = true;
+    } catch {}
+    await fs.rm(runsPath(id), { force: true });
+    if (remaining.length !== entries.length) await index.write(remaining);
+    return removed;
+  });
+}
+
+export async function saveRuns(scanId: string, runs: PromptRun[]): Promise<void> {
+  if (!isValidScanId(scanId) || runs.length === 0) return;
+  await fs.mkdir(SCANS_DIR, { recursive: true });
+  await fs.appendFile(runsPath(scanId), runs.map((r) => `${JSON.stringify(r)}\n`).join(""), "utf8");
+}
+
+// Newest first
+export async function listRuns(scanId: string, limit = 100): Promise<PromptRun[]> {
+  if (!isValidScanId(scanId)) return [];
+  let raw: string;
+  try {
+    raw = await fs.readFile(runsPath(scanId), "utf8");
+  } catch {
+    return [];
+  }
+  const runs: PromptRun[] = [];
+  for (const line of raw.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      runs.push(JSON.parse(line) as PromptRun);
+    } catch {}
+  }
+  return runs.reverse().slice(0, limit);
+}
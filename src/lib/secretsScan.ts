@@ -1,29 +1,293 @@
+import { z } from "zod";
+import { relative, sep } from "node:path";
+import { globToRegExp, matchesAnyGlob } from "@/lib/glob";
+
+export const SECRET_SEVERITIES = ["low", "medium", "high", "critical"] as const;
+
+export type SecretSeverity = (typeof SECRET_SEVERITIES)[number];
+
 export type SecretFinding = {
   match: string;
   filePath: string;
   line: number;
+  column: number; // 1-based column of the match start
+  rule: string; // id of the catalogue rule that fired
+  severity: SecretSeverity;
+  preview: string; // redacted form that is safe to display
+  hash?: string; // digest of the raw value for correlation (set by the redaction layer)
+  redacted?: boolean; // true once `match` has been masked
 };
 
-// Simple regexes to flag obvious tokens/URLs. This is a heuristic pre-scan.
-const patterns: { name: string; regex: RegExp }[] = [
-  { name: "openai_key", regex: /sk-[A-Za-z0-9]{20,}/g },
-  { name: "bearer_token", regex: /Bearer\s+[A-Za-z0-9\-_\.]+/g },
-  { name: "url_private", regex: /https?:\/\/[\w.-]+\.[\w.-]+\/.+\/(?:token|key|secret)[^\s"']*/gi },
+type SecretRule = {
+  id: string;
+  description: string;
+  severity: SecretSeverity;
+  regex: RegExp; // must be global; matched per line
+  block?: RegExp; // the secret runs on from the match through the first match of this, across lines
+  group?: number; // capture group holding the secret (defaults to the whole match)
+  files?: RegExp; // only scan files whose path matches
+  minEntropy?: number; // Shannon entropy (bits per char) the secret must reach
+  skipPlaceholders?: boolean; // ignore obvious examples such as "your-api-key" or "${TOKEN}"
+};
+
+// Ordered from most to least specific: when two rules match the same span, the earlier one wins
+const SECRET_RULES: SecretRule[] = [
+  {
+    id: "private_key",
+    description: "Private key (PEM block)",
+    severity: "critical",
+    regex: /-----BEGIN (?:[A-Z]+ )*PRIVATE KEY(?: BLOCK)?-----/g,
+    block: /-----END (?:[A-Z]+ )*PRIVATE KEY(?: BLOCK)?-----/,
+  },
+  {
+    id: "anthropic_key",
+    description: "Anthropic API key",
+    severity: "critical",
+    regex: /sk-ant-(?:api|admin)\d{2}-[A-Za-z0-9_-]{20,}|sk-ant-[A-Za-z0-9_-]{32,}/g,
+  },
+  {
+    id: "openai_project_key",
+    description: "OpenAI project or service-account key",
+    severity: "critical",
+    regex: /sk-(?:proj|svcacct|admin)-[A-Za-z0-9_-]{20,}/g,
+  },
+  {
+    id: "openai_key",
+    description: "OpenAI API key",
+    severity: "critical",
+    regex: /(?<![A-Za-z0-9_-])sk-[A-Za-z0-9]{20,}/g,
+  },
+  {
+    id: "aws_access_key_id",
+    description: "AWS access key ID",
+    severity: "high",
+    regex: /\b(?:AKIA|ASIA|ABIA|ACCA)[A-Z0-9]{16}\b/g,
+  },
+  {
+    id: "aws_secret_access_key",
+    description: "AWS secret access key",
+    severity: "critical",
+    regex: /aws_?secret_?(?:access_?)?key["']?\s*[:=]\s*["']?([A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])/gi,
+    group: 1,
+  },
+  {
+    id: "github_pat",
+    description: "GitHub token",
+    severity: "high",
+    regex: /\bgh[pousr]_[A-Za-z0-9]{36,}\b/g,
+  },
+  {
+    id: "github_fine_grained_pat",
+    description: "GitHub fine-grained personal access token",
+    severity: "high",
+    regex: /\bgithub_pat_[A-Za-z0-9_]{22,}\b/g,
+  },
+  {
+    id: "google_api_key",
+    description: "Google API key",
+    severity: "high",
+    regex: /\bAIza[0-9A-Za-z_-]{35}(?![0-9A-Za-z_-])/g,
+  },
+  {
+    id: "slack_token",
+    description: "Slack token",
+    severity: "high",
+    regex: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g,
+  },
+  {
+    id: "slack_webhook",
+    description: "Slack incoming webhook URL",
+    severity: "medium",
+    regex: /https:\/\/hooks\.slack\.com\/services\/[A-Za-z0-9]+\/[A-Za-z0-9]+\/[A-Za-z0-9]+/g,
+  },
+  {
+    id: "jwt",
+    description: "JSON Web Token",
+    severity: "medium",
+    regex: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g,
+  },
+  {
+    id: "url_credentials",
+    description: "Credentials embedded in a URL",
+    severity: "high",
+    regex: /\b[a-z][a-z0-9+.-]*:\/\/[^\s:@/"'`]+:([^\s:@/"'`]{3,})@[\w.-]+/gi,
+    group: 1,
+    skipPlaceholders: true,
+  },
+  {
+    id: "bearer_token",
+    description: "Bearer token in an Authorization header",
+    severity: "medium",
+    regex: /Bearer\s+([A-Za-z0-9\-_.~+/]{16,}=*)/g,
+    group: 1,
+    minEntropy: 3,
+    skipPlaceholders: true,
+  },
+  {
+    id: "dotenv_assignment",
+    description: "Secret-like assignment in a .env file",
+    severity: "medium",
+    regex: /^\s*(?:export\s+)?[A-Za-z0-9_]*(?:KEY|TOKEN|SECRET|PASSWORD|PASSWD|PWD|CREDENTIALS?)[A-Za-z0-9_]*\s*=\s*["']?([^\s"'#]{8,})/gi,
+    group: 1,
+    files: /(?:^|\/)\.env(?:\.[\w.-]+)?$/,
+    skipPlaceholders: true,
+  },
+  {
+    id: "generic_secret_assignment",
+    description: "High-entropy value assigned to a secret-like name",
+    severity: "medium",
+    regex: /(?:api[_-]?key|secret|token|passw(?:or)?d|credential|access[_-]?key)[\w-]*["']?\s*[:=]\s*["'`]([A-Za-z0-9+/=_\-.~]{16,})["'`]/gi,
+    group: 1,
+    minEntropy: 3.5,
+    skipPlaceholders: true,
+  },
+  {
+    id: "high_entropy_string",
+    description: "Long high-entropy string literal",
+    severity: "low",
+    regex: /["'`]([A-Za-z0-9+/_-]{32,}={0,2})["'`]/g,
+    group: 1,
+    minEntropy: 4.5,
+    skipPlaceholders: true,
+  },
+  {
+    id: "url_private",
+    description: "URL that embeds a token, key or secret",
+    severity: "low",
+    regex: /https?:\/\/[\w.-]+\.[\w.-]+\/.+\/(?:token|key|secret)[^\s"']*/gi,
+  },
 ];
 
-export function scanTextForSecrets(text: string, filePath: string): SecretFinding[] {
+// Lines carrying either marker are skipped (the second is the detect-secrets convention)
+const INLINE_ALLOW_MARKERS = ["prompt-explorer:allow-secret", "pragma: allowlist secret"];
+
+const PLACEHOLDER_PATTERN = /^(?:x+|\*+|\.+|<[^>]*>|\$\{[^}]*\}|\{\{[^}]*\}\}|%\([^)]*\)s)$|your[_-]|example|changeme|placeholder|dummy|redacted|sample/i;
+
+const regexSourceSchema = z.string().refine(
+  (source) => {
+    try {
+      new RegExp(source);
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  { message: "Invalid regular expression" }
+);
+
+export const secretsConfigSchema = z.object({
+  disable: z.array(z.string()).default([]), // rule ids to turn off
+  allowlist: z
+    .object({
+      paths: z.array(z.string()).default([]), // globs relative to the scanned root
+      values: z.array(z.string()).default([]), // exact secret values known to be safe (e.g. test fixtures)
+      regexes: z.array(regexSourceSchema).default([]), // tested against the secret value
+    })
+    .optional(),
+});
+
+export type SecretsConfig = z.infer<typeof secretsConfigSchema>;
+
+export type SecretScanOptions = {
+  root?: string; // allowlist paths are relative to this directory
+  disabled: Set<string>;
+  allowPaths: RegExp[];
+  allowValues: Set<string>;
+  allowRegexes: RegExp[];
+};
+
+export function buildSecretScanOptions(config?: SecretsConfig, root?: string): SecretScanOptions {
+  return {
+    root,
+    disabled: new Set(config?.disable ?? []),
+    allowPaths: (config?.allowlist?.paths ?? []).map(globToRegExp),
+    allowValues: new Set(config?.allowlist?.values ?? []),
+    allowRegexes: (config?.allowlist?.regexes ?? []).map((source) => new RegExp(source)),
+  };
+}
+
+// Rule metadata for exports (e.g. SARIF) that describe findings by rule id
+export function listSecretRules(): Array<{ id: string; description: string; severity: SecretSeverity }> {
+  return SECRET_RULES.map(({ id, description, severity }) => ({ id, description, severity }));
+}
+
+// Shannon entropy in bits per character
+export function shannonEntropy(value: string): number {
+  if (!value) return 0;
+  const counts = new Map<string, number>();
+  for (const ch of value) counts.set(ch, (counts.get(ch) ?? 0) + 1);
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+// Keeps a few leading/trailing characters so a finding can be recognised without exposing it
+export function redactPreview(value: string): string {
+  if (value.length <= 8) return "*".repeat(value.length);
+  const keep = value.length >= 20 ? 4 : 2;
+  return `${value.slice(0, keep)}${"*".repeat(Math.min(value.length - keep * 2, 12))}${value.slice(-keep)}`;
+}
+
+const MAX_BLOCK_CHARS = 16 * 1024;
+// Base64 body of a block, including escaped newlines in string literals
+const BLOCK_BODY = /^[A-Za-z0-9+/=\s\\]*/;
+
+// The whole block starting at `start`; without its closing line (a cut-off snippet or window) the body that follows
+function blockValue(text: string, start: number, opening: string, closing: RegExp): string {
+  const rest = text.slice(start + opening.length, start + MAX_BLOCK_CHARS);
+  const end = closing.exec(rest);
+  if (end) return text.slice(start, start + opening.length + end.index + end[0].length);
+  return `${opening}${BLOCK_BODY.exec(rest)?.[0] ?? ""}`.trimEnd();
+}
+
+function toRelative(filePath: string, root?: string): string {
+  const rel = root ? relative(root, filePath) : filePath;
+  return rel.split(sep).join("/");
+}
+
+export function scanTextForSecrets(text: string, filePath: string, options?: SecretScanOptions): SecretFinding[] {
   const findings: SecretFinding[] = [];
+  const relPath = toRelative(filePath, options?.root);
+  if (options && matchesAnyGlob(relPath, options.allowPaths)) return findings;
+  const rules = SECRET_RULES.filter((r) => !options?.disabled.has(r.id) && (!r.files || r.files.test(relPath)));
   const lines = text.split(/\r?\n/);
+  const lineStarts = [0, ...[...text.matchAll(/\r?\n/g)].map((m) => m.index + m[0].length)];
+  const blocks: Array<[number, number]> = []; // spans of multi-line findings, as offsets into `text`
   for (let i = 0; i < lines.length; i += 1) {
     const lineText = lines[i];
-    for (const { regex } of patterns) {
-      regex.lastIndex = 0;
+    const lineStart = lineStarts[i];
+    if (INLINE_ALLOW_MARKERS.some((marker) => lineText.includes(marker))) continue;
+    const taken: Array<[number, number]> = [...blocks];
+    for (const rule of rules) {
+      rule.regex.lastIndex = 0;
       let match: RegExpExecArray | null;
-      while ((match = regex.exec(lineText))) {
-        findings.push({ match: match[0], filePath, line: i + 1 });
+      while ((match = rule.regex.exec(lineText))) {
+        if (match[0].length === 0) rule.regex.lastIndex += 1;
+        const matched = rule.group ? match[rule.group] : match[0];
+        if (!matched) continue;
+        const start = lineStart + match.index + (rule.group ? Math.max(match[0].indexOf(matched), 0) : 0);
+        const value = rule.block ? blockValue(text, start, matched, rule.block) : matched;
+        const end = start + value.length;
+        if (taken.some(([s, e]) => start < e && end > s)) continue;
+        if (rule.minEntropy && shannonEntropy(value) < rule.minEntropy) continue;
+        if (rule.skipPlaceholders && PLACEHOLDER_PATTERN.test(value)) continue;
+        if (options && (options.allowValues.has(value) || options.allowRegexes.some((re) => re.test(value)))) continue;
+        taken.push([start, end]);
+        if (rule.block) blocks.push([start, end]);
+        findings.push({
+          match: value,
+          filePath,
+          line: i + 1,
+          column: start - lineStart + 1,
+          rule: rule.id,
+          severity: rule.severity,
+          preview: redactPreview(value),
+        });
       }
     }
   }
   return findings;
 }
-
@@ -0,0 +1,67 @@
+export type WordDiffOp = { op: "equal" | "insert" | "delete"; text: string };
+
+// Word-level LCS is quadratic; beyond this many cells fall back to a whole-text replacement
+const MAX_DIFF_CELLS = 4_000_000;
+
+export function normalizeText(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function wordSet(text: string): Set<string> {
+  return new Set(normalizeText(text).toLowerCase().split(" ").filter(Boolean));
+}
+
+// Jaccard similarity over words; cheap enough to compare every candidate pair
+export function textSimilarity(a: string, b: string): number {
+  if (normalizeText(a) === normalizeText(b)) return 1;
+  const sa = wordSet(a);
+  const sb = wordSet(b);
+  if (sa.size === 0 && sb.size === 0) return 1;
+  let shared = 0;
+  for (const w of sa) if (sb.has(w)) shared += 1;
+  return shared / (sa.size + sb.size - shared);
+}
+
+export function wordDiff(before: string, after: string): WordDiffOp[] {
+  const a = before.split(/(\s+)/).filter((t) => t.length > 0);
+  const b = after.split(/(\s+)/).filter((t) => t.length > 0);
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      { op: "delete", text: before },
+      { op: "insert", text: after },
+    ];
+  }
+  // LCS table over tokens (rows for a, columns for b), filled from the end
+  const width = b.length + 1;
+  const table = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i -= 1) {
+    for (let j = b.length - 1; j >= 0; j -= 1) {
+      table[i * width + j] =
+        a[i] === b[j] ? table[(i + 1) * width + j + 1] + 1 : Math.max(table[(i + 1) * width + j], table[i * width + j + 1]);
+    }
+  }
+  const ops: WordDiffOp[] = [];
+  const push = (op: WordDiffOp["op"], text: string) => {
+    const last = ops[ops.length - 1];
+    if (last && last.op === op) last.text += text;
+    else ops.push({ op, text });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push("equal", a[i]);
+      i += 1;
+      j += 1;
+    } else if (table[(i + 1) * width + j] >= table[i * width + j + 1]) {
+      push("delete", a[i]);
+      i += 1;
+    } else {
+      push("insert", b[j]);
+      j += 1;
+    }
+  }
+  while (i < a.length) push("delete", a[i++]);
+  while (j < b.length) push("insert", b[j++]);
+  return ops;
+}
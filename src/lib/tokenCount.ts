@@ -0,0 +1,169 @@
+import { z } from "zod";
+import type { PythonPrompt } from "@/lib/extract/pythonExtractor";
+
+// BPE encodings ship with gpt-tokenizer (no network at runtime); "chars" is the 4-characters-per-token heuristic
+export const TOKENIZERS = ["o200k", "cl100k", "chars"] as const;
+
+export type TokenizerId = (typeof TOKENIZERS)[number];
+
+export type TokenCounts = Partial<Record<TokenizerId, number>>;
+
+const modelPriceSchema = z.object({
+  input: z.number().nonnegative(), // USD per million input tokens
+  tokenizer: z.enum(TOKENIZERS).optional(), // defaults to the primary tokenizer of the scan
+});
+
+export const tokensConfigSchema = z.object({
+  tokenizers: z.array(z.enum(TOKENIZERS)).min(1).optional(), // the first one drives aggregates
+  prices: z.record(z.string(), modelPriceSchema).optional(), // replaces the shipped price table
+});
+
+export type TokensConfig = z.infer<typeof tokensConfigSchema>;
+
+export type ModelPrice = z.infer<typeof modelPriceSchema>;
+
+// List prices in USD per million input tokens; override them in .prompt-explorer.json as they change
+export const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  "gpt-4o": { input: 2.5, tokenizer: "o200k" },
+  "gpt-4o-mini": { input: 0.15, tokenizer: "o200k" },
+  "gpt-4.1": { input: 2, tokenizer: "o200k" },
+  "gpt-4.1-mini": { input: 0.4, tokenizer: "o200k" },
+  "gpt-3.5-turbo": { input: 0.5, tokenizer: "cl100k" },
+  "claude-sonnet": { input: 3, tokenizer: "chars" },
+  "claude-haiku": { input: 0.8, tokenizer: "chars" },
+};
+
+export type CallSiteTokens = {
+  filePath: string;
+  line: number; // first prompt of the call site
+  functionName: string | null;
+  callSignature: string | null;
+  provider: string | null;
+  prompts: number;
+  tokens: number; // primary tokenizer, summed over the call site's prompts
+  systemTokens: number;
+  costPerCall: Record<string, number>; // model -> USD for the prompt input of one call
+};
+
+export type FileTokens = { filePath: string; prompts: number; tokens: number; systemTokens: number };
+
+export type TokenSummary = {
+  tokenizer: TokenizerId; // primary tokenizer the totals use
+  tokenizers: TokenizerId[];
+  totalTokens: number;
+  prompts: number;
+  byFile: FileTokens[];
+  byCallSite: CallSiteTokens[];
+  prices: Record<string, ModelPrice>;
+};
+
+type Encoder = (text: string) => number;
+
+const encoders = new Map<TokenizerId, Promise<Encoder>>();
+
+function heuristicCount(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Encodings are large, so each is loaded on first use; a failed load falls back to the heuristic
+function loadEncoder(id: TokenizerId): Promise<Encoder> {
+  let pending = encoders.get(id);
+  if (!pending) {
+    pending = (async (): Promise<Encoder> => {
+      try {
+        if (id === "o200k") return (await import("gpt-tokenizer/encoding/o200k_base")).countTokens;
+        if (id === "cl100k") return (await import("gpt-tokenizer/encoding/cl100k_base")).countTokens;
+      } catch {}
+      return heuristicCount;
+    })();
+    encoders.set(id, pending);
+  }
+  return pending;
+}
+
+export async function countTokens(text: string, tokenizer: TokenizerId): Promise<number> {
+  const encode = await loadEncoder(tokenizer);
+  return encode(text);
+}
+
+export function resolveTokenizers(config?: TokensConfig, requested?: TokenizerId[]): TokenizerId[] {
+  const list = requested && requested.length > 0 ? requested : config?.tokenizers ?? ["o200k"];
+  return [...new Set(list)];
+}
+
+// Annotates each prompt with its token count for every requested tokenizer (mutates and returns the prompts)
+export async function annotatePromptTokens<T extends PythonPrompt>(prompts: T[], tokenizers: TokenizerId[]): Promise<T[]> {
+  const loaded = await Promise.all(tokenizers.map(async (id) => [id, await loadEncoder(id)] as const));
+  for (const prompt of prompts) {
+    const counts: TokenCounts = {};
+    for (const [id, encode] of loaded) counts[id] = encode(prompt.text || "");
+    prompt.tokens = counts;
+  }
+  return prompts;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+// Per-file and per-call-site totals for the primary tokenizer, with per-call input cost for each priced model
+export function summarizeTokens(prompts: PythonPrompt[], tokenizers: TokenizerId[], prices?: Record<string, ModelPrice>): TokenSummary {
+  const primary = tokenizers[0] ?? "o200k";
+  const table = prices ?? DEFAULT_PRICES;
+  const count = (p: PythonPrompt, id: TokenizerId) => p.tokens?.[id] ?? (id === "chars" ? heuristicCount(p.text || "") : undefined);
+
+  const files = new Map<string, FileTokens>();
+  const sites = new Map<string, CallSiteTokens & { byTokenizer: Map<TokenizerId, number> }>();
+  let totalTokens = 0;
+  for (const p of prompts) {
+    const tokens = count(p, primary) ?? heuristicCount(p.text || "");
+    const system = p.role === "system" ? tokens : 0;
+    totalTokens += tokens;
+
+    const file = files.get(p.filePath) ?? { filePath: p.filePath, prompts: 0, tokens: 0, systemTokens: 0 };
+    file.prompts += 1;
+    file.tokens += tokens;
+    file.systemTokens += system;
+    files.set(p.filePath, file);
+
+    // Prompts carry their call's line, so two calls with the same signature in one function stay apart
+    const key = `${p.filePath}\u0000${p.line}\u0000${p.functionName ?? ""}\u0000${p.callSignature ?? ""}`;
+    const site = sites.get(key) ?? {
+      filePath: p.filePath,
+      line: p.line,
+      functionName: p.functionName ?? null,
+      callSignature: p.callSignature ?? null,
+      provider: p.provider ?? null,
+      prompts: 0,
+      tokens: 0,
+      systemTokens: 0,
+      costPerCall: {},
+      byTokenizer: new Map<TokenizerId, number>(),
+    };
+    site.prompts += 1;
+    site.tokens += tokens;
+    site.systemTokens += system;
+    for (const id of new Set<TokenizerId>([...tokenizers, "chars"])) {
+      site.byTokenizer.set(id, (site.byTokenizer.get(id) ?? 0) + (count(p, id) ?? tokens));
+    }
+    sites.set(key, site);
+  }
+
+  const byCallSite = [...sites.values()].map(({ byTokenizer, ...site }) => {
+    for (const [model, price] of Object.entries(table)) {
+      const tokens = byTokenizer.get(price.tokenizer ?? primary) ?? site.tokens;
+      site.costPerCall[model] = round((tokens * price.input) / 1_000_000);
+    }
+    return site;
+  });
+
+  return {
+    tokenizer: primary,
+    tokenizers,
+    totalTokens,
+    prompts: prompts.length,
+    byFile: [...files.values()].sort((a, b) => b.tokens - a.tokens),
+    byCallSite: byCallSite.sort((a, b) => b.tokens - a.tokens),
+    prices: table,
+  };
+}
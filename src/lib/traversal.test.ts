@@ -0,0 +1,71 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { execFileSync } from "node:child_process";
+import { promises as fs } from "node:fs";
+import { tmpdir } from "node:os";
+import { join, relative } from "node:path";
+import { openTraversal } from "@/lib/traversal";
+
+async function gitRepo(files: Record<string, string>): Promise<string> {
+  const root = await fs.mkdtemp(join(tmpdir(), "traversal-"));
+  for (const [path, text] of Object.entries(files)) {
+    await fs.mkdir(join(root, path, ".."), { recursive: true });
+    await fs.writeFile(join(root, path), text);
+  }
+  execFileSync("git", ["init", "-q"], { cwd: root });
+  return root;
+}
+
+function commitAll(root: string, paths: string[]) {
+  execFileSync("git", ["add", "-f", ...paths], { cwd: root });
+  execFileSync("git", ["-c", "user.name=t", "-c", "user.email=t@example.com", "commit", "-qm", "files"], { cwd: root });
+}
+
+async function listRelative(root: string) {
+  const { files, skipped } = await (await openTraversal(root)).listFiles();
+  return { files: files.map((file) => relative(root, file)), skipped };
+}
+
+test("a tracked file stays listed after it is added to .gitignore", async (t) => {
+  const root = await gitRepo({ ".env": "OPENAI_API_KEY=sk-test\n", ".gitignore": ".env\n" });
+  t.after(() => fs.rm(root, { recursive: true, force: true }));
+  commitAll(root, [".env", ".gitignore"]);
+
+  const { files, skipped } = await listRelative(root);
+  assert.deepEqual(files, [".env", ".gitignore"]);
+  assert.deepEqual(skipped, []);
+});
+
+test("untracked ignored files and directories are reported as skipped", async (t) => {
+  const root = await gitRepo({ ".gitignore": "*.log\nout/\n", "app.py": "", "debug.log": "", "out/a.js": "", "out/b.js": "" });
+  t.after(() => fs.rm(root, { recursive: true, force: true }));
+  commitAll(root, [".gitignore", "app.py"]);
+
+  const { files, skipped } = await listRelative(root);
+  assert.deepEqual(files, [".gitignore", "app.py"]);
+  assert.deepEqual(skipped, [
+    { path: "debug.log", reason: "ignored", detail: "ignored by .gitignore" },
+    { path: "out", reason: "ignored", detail: "directory ignored by .gitignore" },
+  ]);
+});
+
+test("an ignored directory with tracked files keeps them and skips the rest", async (t) => {
+  const root = await gitRepo({ ".gitignore": "vendor/\n", "vendor/kept.py": "", "vendor/new.py": "" });
+  t.after(() => fs.rm(root, { recursive: true, force: true }));
+  commitAll(root, [".gitignore", "vendor/kept.py"]);
+
+  const { files, skipped } = await listRelative(root);
+  assert.deepEqual(files, [".gitignore", "vendor/kept.py"]);
+  assert.deepEqual(skipped, [{ path: "vendor/new.py", reason: "ignored", detail: "ignored by .gitignore" }]);
+});
+
+test("outside a git work tree every ignore rule applies", async (t) => {
+  const root = await fs.mkdtemp(join(tmpdir(), "traversal-"));
+  t.after(() => fs.rm(root, { recursive: true, force: true }));
+  await fs.writeFile(join(root, ".gitignore"), ".env\n");
+  await fs.writeFile(join(root, ".env"), "");
+
+  const { files, skipped } = await listRelative(root);
+  assert.deepEqual(files, [".gitignore"]);
+  assert.deepEqual(skipped, [{ path: ".env", reason: "ignored", detail: "ignored by .gitignore" }]);
+});
@@ -0,0 +1,216 @@
+import { z } from "zod";
+import { join, relative, sep } from "node:path";
+import { promises as fs } from "node:fs";
+import simpleGit from "simple-git";
+import { anchoredGlobToRegExp, globToRegExp, matchesAnyGlob } from "@/lib/glob";
+import type { SkippedFile } from "@/lib/fileScan";
+
+// Never walked: git's own data and the Python extractor's scratch directory
+const ALWAYS_EXCLUDED = [".git", ".tmp-extractor"];
+// Dependencies, caches and build output; a repo can turn these off with "useDefaultExcludes": false
+export const DEFAULT_EXCLUDES = ["node_modules", "__pycache__", ".next", ".venv", "venv", "dist", "build"];
+
+const DEFAULT_MAX_FILES = 20_000;
+const DEFAULT_MAX_FILE_BYTES = 64 * 1024 * 1024;
+const BINARY_SNIFF_BYTES = 8000; // same window git uses to decide a file is binary
+
+export const traversalConfigSchema = z.object({
+  include: z.array(z.string()).default([]), // globs relative to the root; when set, only matching files are read
+  exclude: z.array(z.string()).default([]), // globs for files or directories to skip, on top of the defaults
+  useDefaultExcludes: z.boolean().default(true),
+  gitignore: z.boolean().default(true), // honour .gitignore files and .git/info/exclude
+  maxFiles: z.number().int().positive().max(100_000).default(DEFAULT_MAX_FILES), // the rest are reported as file-limit
+  maxFileBytes: z.number().int().positive().max(256 * 1024 * 1024).default(DEFAULT_MAX_FILE_BYTES),
+});
+
+export type TraversalConfig = z.infer<typeof traversalConfigSchema>;
+
+// The rules a scan walked the repository with, echoed in its result
+export type TraversalRules = {
+  include: string[];
+  exclude: string[]; // built-in excludes followed by the repo's own
+  gitignore: boolean;
+  gitignoreFiles: string[]; // ignore files that applied, relative to the root
+  maxFiles: number;
+  maxFileBytes: number;
+};
+
+export type TraversalEntry = { name: string; path: string; relativePath: string; isDirectory: boolean };
+
+export type Traversal = {
+  root: string;
+  rules: TraversalRules; // gitignoreFiles fills in as walks reach nested .gitignore files
+  readDir(dir: string, onIgnored?: (entry: TraversalEntry, ignoreFile: string) => void): Promise<TraversalEntry[]>;
+  listFiles(): Promise<{ files: string[]; skipped: SkippedFile[] }>;
+};
+
+type IgnoreRule = { base: string; pattern: RegExp; negate: boolean; directoryOnly: boolean; source: string };
+
+// .gitignore lines as rules relative to `base`; character classes are not supported
+function parseIgnoreFile(text: string, base: string, source: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (const raw of text.split(/\r?\n/)) {
+    let line = raw.replace(/(?<!\\)\s+$/, "");
+    if (!line || line.startsWith("#")) continue;
+    const negate = line.startsWith("!");
+    if (negate || line.startsWith("\\")) line = line.slice(1);
+    const directoryOnly = line.endsWith("/");
+    if (directoryOnly) line = line.slice(0, -1);
+    // A slash anywhere but the end ties the pattern to the ignore file's directory
+    const pattern = line.includes("/") ? anchoredGlobToRegExp(line) : globToRegExp(line);
+    if (line && line !== "/") rules.push({ base, pattern, negate, directoryOnly, source });
+  }
+  return rules;
+}
+
+function toPosix(path: string): string {
+  return path.split(sep).join("/");
+}
+
+// Files git tracks under `root`, relative to it; empty when `root` is not in a work tree
+async function trackedFiles(root: string): Promise<Set<string>> {
+  try {
+    const listed = await simpleGit(root).raw(["ls-files", "-z"]);
+    return new Set(listed.split("\0").filter(Boolean));
+  } catch {
+    return new Set();
+  }
+}
+
+export function looksBinary(bytes: Uint8Array): boolean {
+  return bytes.subarray(0, BINARY_SNIFF_BYTES).includes(0);
+}
+
+export async function isBinaryFile(path: string): Promise<boolean> {
+  const handle = await fs.open(path, "r");
+  try {
+    const { buffer, bytesRead } = await handle.read(Buffer.alloc(BINARY_SNIFF_BYTES), 0, BINARY_SNIFF_BYTES, 0);
+    return looksBinary(buffer.subarray(0, bytesRead));
+  } finally {
+    await handle.close();
+  }
+}
+
+// One walk of a repository under the repo's rules. Keyword and secret scanning, the file tree and every
+// extractor go through it, so they all see the same files.
+export async function openTraversal(root: string, config?: Partial<TraversalConfig>): Promise<Traversal> {
+  const settings = traversalConfigSchema.parse(config ?? {});
+  const exclude = [...ALWAYS_EXCLUDED, ...(settings.useDefaultExcludes ? DEFAULT_EXCLUDES : []), ...settings.exclude];
+  const excludePatterns = exclude.map((pattern) => globToRegExp(pattern));
+  const includePatterns = settings.include.map((pattern) => globToRegExp(pattern));
+  const rules: TraversalRules = {
+    include: settings.include,
+    exclude,
+    gitignore: settings.gitignore,
+    gitignoreFiles: [],
+    maxFiles: settings.maxFiles,
+    maxFileBytes: settings.maxFileBytes,
+  };
+  const ignoreRules: IgnoreRule[] = [];
+  const loaded = new Set<string>();
+  // Ignore rules only apply to untracked files, as in git: a committed .env stays scanned after it is ignored
+  const tracked = settings.gitignore ? await trackedFiles(root) : new Set<string>();
+  const trackedDirs = new Set([...tracked].flatMap((file) => file.split("/").slice(0, -1).map((_, i, parts) => parts.slice(0, i + 1).join("/"))));
+
+  async function loadIgnoreFile(file: string, base: string) {
+    if (loaded.has(file)) return;
+    loaded.add(file);
+    try {
+      ignoreRules.push(...parseIgnoreFile(await fs.readFile(join(root, file), "utf8"), base, file));
+      rules.gitignoreFiles.push(file);
+    } catch {}
+  }
+
+  // The ignore file whose rule ignores the path, or null. Last matching rule wins; rules from deeper
+  // .gitignore files are loaded later, so they override.
+  function gitIgnored(relativePath: string, isDirectory: boolean): string | null {
+    let ignoredBy: string | null = null;
+    for (const rule of ignoreRules) {
+      if (rule.directoryOnly && !isDirectory) continue;
+      if (rule.base && !relativePath.startsWith(`${rule.base}/`)) continue;
+      const path = rule.base ? relativePath.slice(rule.base.length + 1) : relativePath;
+      if (rule.pattern.test(path)) ignoredBy = rule.negate ? null : rule.source;
+    }
+    return ignoredBy;
+  }
+
+  // Null when the rules keep the path; otherwise the ignore file that drops it, or null for excludes and includes
+  function skipped(relativePath: string, isDirectory: boolean): { ignoreFile: string | null } | null {
+    // "dir/**" matches "dir/", so directory patterns prune the whole subtree
+    const candidates = isDirectory ? [relativePath, `${relativePath}/`] : [relativePath];
+    if (candidates.some((path) => matchesAnyGlob(path, excludePatterns))) return { ignoreFile: null };
+    if (!isDirectory && includePatterns.length && !matchesAnyGlob(relativePath, includePatterns)) return { ignoreFile: null };
+    if (!settings.gitignore || tracked.has(relativePath) || trackedDirs.has(relativePath)) return null;
+    // A directory holding tracked files is walked, but its untracked files are still ignored along with it
+    const parts = relativePath.split("/");
+    for (let depth = parts.length - 1; depth > 0 && trackedDirs.has(parts.slice(0, depth).join("/")); depth -= 1) {
+      const ignoreFile = gitIgnored(parts.slice(0, depth).join("/"), true);
+      if (ignoreFile) return { ignoreFile };
+    }
+    const ignoreFile = gitIgnored(relativePath, isDirectory);
+    return ignoreFile ? { ignoreFile } : null;
+  }
+
+  if (settings.gitignore) await loadIgnoreFile(".git/info/exclude", "");
+
+  // Files and directories of `dir` that the rules keep, sorted by name; unreadable directories are empty.
+  // `onIgnored` hears about entries an ignore rule dropped.
+  async function readDir(dir: string, onIgnored?: (entry: TraversalEntry, ignoreFile: string) => void): Promise<TraversalEntry[]> {
+    const base = toPosix(relative(root, dir));
+    let entries;
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch {
+      return [];
+    }
+    if (settings.gitignore && entries.some((entry) => entry.name === ".gitignore" && entry.isFile())) {
+      await loadIgnoreFile(base ? `${base}/.gitignore` : ".gitignore", base);
+    }
+    const kept: TraversalEntry[] = [];
+    for (const entry of entries) {
+      if (!entry.isDirectory() && !entry.isFile()) continue;
+      const relativePath = base ? `${base}/${entry.name}` : entry.name;
+      const item = { name: entry.name, path: join(dir, entry.name), relativePath, isDirectory: entry.isDirectory() };
+      const dropped = skipped(relativePath, item.isDirectory);
+      if (!dropped) kept.push(item);
+      else if (dropped.ignoreFile) onIgnored?.(item, dropped.ignoreFile);
+    }
+    return kept.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  return {
+    root,
+    rules,
+    readDir,
+    // Files in walk order, up to maxFiles and maxFileBytes; the others, and whatever an ignore rule dropped,
+    // come back as skipped so they can be reported. An ignored directory is one entry.
+    async listFiles() {
+      const files: string[] = [];
+      const skippedFiles: SkippedFile[] = [];
+      const ignored = (entry: TraversalEntry, ignoreFile: string) =>
+        skippedFiles.push({
+          path: entry.relativePath,
+          reason: "ignored",
+          detail: `${entry.isDirectory ? "directory " : ""}ignored by ${ignoreFile}`,
+        });
+      async function walk(dir: string) {
+        for (const entry of await readDir(dir, ignored)) {
+          if (entry.isDirectory) {
+            await walk(entry.path);
+          } else if (files.length >= rules.maxFiles) {
+            skippedFiles.push({ path: entry.relativePath, reason: "file-limit" });
+          } else {
+            const size = (await fs.stat(entry.path).catch(() => null))?.size ?? 0;
+            if (size > rules.maxFileBytes) {
+              skippedFiles.push({ path: entry.relativePath, reason: "too-large", size, detail: `over ${rules.maxFileBytes} bytes` });
+            } else {
+              files.push(entry.path);
+            }
+          }
+        }
+      }
+      await walk(root);
+      return { files, skipped: skippedFiles };
+    },
+  };
+}